@@ -3,6 +3,8 @@
  * Common settings across all applications
  */
 
+import type { RetryPolicy } from '../../src/core/retry/RetryPolicy';
+
 export interface SharedConfig {
   browser: {
     headless: boolean;
@@ -24,6 +26,15 @@ export interface SharedConfig {
     workers: number;
     fullyParallel: boolean;
   };
+  performance: {
+    mode: 'off' | 'warn' | 'fail';
+    regressionPercent: number;
+    regressionMs: number;
+    baselineRuns: number;
+    minSamples: number;
+    tagBudgets: Record<string, number>;
+  };
+  retryPolicy: RetryPolicy;
 }
 
 export const sharedConfig: SharedConfig = {
@@ -47,4 +58,24 @@ export const sharedConfig: SharedConfig = {
     workers: process.env.CI ? 2 : 4,
     fullyParallel: true,
   },
+  performance: {
+    mode: (process.env.PERF_BUDGET_MODE as SharedConfig['performance']['mode']) || 'warn',
+    regressionPercent: Number(process.env.PERF_REGRESSION_PERCENT) || 50,
+    regressionMs: Number(process.env.PERF_REGRESSION_MS) || 1000,
+    baselineRuns: Number(process.env.PERF_BASELINE_RUNS) || 10,
+    minSamples: 3,
+    tagBudgets: {
+      '@smoke': 10000,
+      '@critical': 30000,
+    },
+  },
+  // Retries (up to the environment's retries) only for infrastructure failures
+  retryPolicy: {
+    enabled: process.env.RETRY_POLICY !== 'off',
+    rules: {
+      Network: { retries: 2, backoffMs: 1000, backoffFactor: 2 },
+      Timeout: { retries: 1, backoffMs: 2000, backoffFactor: 1 },
+      'Server Error': { retries: 2, backoffMs: 2000, backoffFactor: 2 },
+    },
+  },
 };
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { defineConfig, devices } from '@playwright/test';
-import { defineBddConfig } from 'playwright-bdd';
+import { defineBddConfig, cucumberReporter } from 'playwright-bdd';
 import path from 'path';
 import dotenv from 'dotenv';
 
@@ -8,6 +8,8 @@ import { webappConfig } from './applications/webapp.config';
 import { adminappConfig } from './applications/adminapp.config';
 import { mcpServerConfig } from './applications/mcp-server.config';
 import { sharedConfig } from './applications/shared.config';
+import { loadQuarantine, quarantineOptionsFromEnv } from '../src/core/quarantine/QuarantineManifest';
+import { applyShard, shardFromEnv } from '../src/core/sharding/ShardManifest';
 
 // Import environment config based on NODE_ENV
 const getEnvironmentConfig = () => {
@@ -28,6 +30,13 @@ dotenv.config({ path: path.join(__dirname, envFile) });
 
 const envConfig = getEnvironmentConfig();
 
+// Flaky tests quarantined by the custom reporter run non-blocking
+const quarantineOptions = quarantineOptionsFromEnv();
+const quarantine = quarantineOptions.enabled ? loadQuarantine(quarantineOptions.file).tests : [];
+
+// With SHARD_INDEX set, run only the files the shard planner assigned to this shard
+const shard = shardFromEnv();
+
 // Configure BDD with absolute paths
 const testDir = defineBddConfig({
   featuresRoot: path.resolve(__dirname, '..', 'features'),
@@ -42,8 +51,9 @@ export default defineConfig({
   },
   fullyParallel: sharedConfig.parallel.fullyParallel,
   forbidOnly: !!process.env.CI,
+  // Upper bound; the retry policy in metadata decides which retries run
   retries: envConfig.retries,
-  workers: envConfig.parallel?.workers || sharedConfig.parallel.workers,
+  workers: shard?.manifest.workers || envConfig.parallel?.workers || sharedConfig.parallel.workers,
   
   reporter: [
     ['html', { 
@@ -56,7 +66,20 @@ export default defineConfig({
     ['junit', { 
       outputFile: '../reports/combined/junit-results.xml' 
     }],
-    ['../src/core/reporters/CustomReporter.ts']
+    // Cucumber outputs of the BDD projects for living-documentation tools
+    cucumberReporter('json', {
+      outputFile: '../reports/combined/cucumber-report.json'
+    }),
+    cucumberReporter('message', {
+      outputFile: '../reports/combined/cucumber-messages.ndjson'
+    }),
+    // allure-results for `allure generate`
+    ['../src/core/reporters/AllureReporter.ts', {
+      resultsDir: '../reports/combined/allure-results'
+    }],
+    ['../src/core/reporters/CustomReporter.ts', {
+      performance: sharedConfig.performance
+    }]
   ],
   
   use: {
@@ -83,7 +106,7 @@ export default defineConfig({
     }
   },
   
-  projects: [
+  projects: applyShard([
     // BDD Tests
     {
       name: 'bdd-webapp-smoke',
@@ -204,7 +227,7 @@ export default defineConfig({
         use: { ...devices['iPhone 12'] },
       }
     ] : [])
-  ],
+  ], shard?.entry),
   
   // Global setup and teardown
   globalSetup: '../src/core/base/global-setup.ts',
@@ -220,7 +243,10 @@ export default defineConfig({
     adminappUrl: envConfig.adminapp.baseUrl,
     mcpServerUrl: envConfig.mcpServer.baseUrl,
     testFramework: 'Playwright + Playwright-BDD',
-    frameworkVersion: '1.54.1'
+    frameworkVersion: '1.54.1',
+    quarantine,
+    shard: shard?.selection,
+    retryPolicy: sharedConfig.retryPolicy
   },
 
   // Web server configuration for local development
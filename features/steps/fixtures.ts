@@ -4,6 +4,11 @@ import { TestWorld } from '../../src/core/base/TestWorld';
 import { NavigationHelper } from '../../src/applications/shared/helpers/NavigationHelper';
 import { RoleBasedLocators } from '../../src/applications/shared/helpers/RoleBasedLocators';
 import { SidebarComponent } from '../../src/applications/shared/components/SidebarComponent';
+import { seedManager } from '../../src/core/data/SeedManager';
+import { NetworkHarFixtures, networkHarFixtures } from '../../src/core/network/NetworkHarFixtures';
+import { QuarantineFixtures, quarantineFixtures } from '../../src/core/quarantine/QuarantineFixtures';
+import { RetryPolicyFixtures, retryPolicyFixtures } from '../../src/core/retry/RetryPolicyFixtures';
+import { TestTransactionFixtures, testTransactionFixtures } from '../../src/data/TestDataIsolation';
 
 // Define custom test fixtures
 export const test = base.extend<{
@@ -11,7 +16,25 @@ export const test = base.extend<{
   navigationHelper: NavigationHelper;
   roleBasedLocators: RoleBasedLocators;
   sidebarComponent: SidebarComponent;
-}>({
+  dataSeed: number;
+} & NetworkHarFixtures & QuarantineFixtures & RetryPolicyFixtures & TestTransactionFixtures>({
+  // Retry only infrastructure failures; first, so a declined retry fails before a browser starts
+  ...retryPolicyFixtures,
+
+  // HAR record/replay of API and page traffic (HAR_MODE)
+  ...networkHarFixtures,
+
+  // Quarantine annotation for scenarios listed in the quarantine manifest
+  ...quarantineFixtures,
+
+  // API clients and the saga that undoes what a scenario created through them
+  ...testTransactionFixtures,
+
+  // Seed faker per scenario so a failing scenario rebuilds the same data under the same TEST_SEED
+  dataSeed: [async ({}, use, testInfo) => {
+    await use(seedManager.seedForTest(testInfo));
+  }, { auto: true }],
+
   testWorld: async ({ page, browser, context }, use) => {
     const world = new TestWorld();
     world.page = page;
@@ -6,10 +6,15 @@
  */
 
 import { APIRequestContext } from '@playwright/test';
-import { BaseAPI } from '../BaseAPI';
+import { BaseAPI } from '../../../shared/api/BaseAPI';
+import { EndpointContracts } from '../../../shared/api/contracts/EndpointContracts';
 import {
   AuthRequest,
   AuthResponse,
+  ServiceHealth,
+  HealthCheckResponse
+} from '../../../shared/api/types/common.types';
+import {
   AdminUser,
   UserListRequest,
   UserListResponse,
@@ -31,10 +36,42 @@ import {
   AnalyticsRequest,
   AnalyticsResponse,
   MaintenanceWindow,
-  MaintenanceRequest,
-  ServiceHealth,
-  HealthCheckResponse
-} from '../types';
+  MaintenanceRequest
+} from '../../../shared/api/types/adminapp.types';
+
+/**
+ * Response type per endpoint, checked when API_CONTRACT_VALIDATION is enabled
+ */
+export const ADMIN_CONTRACTS: EndpointContracts = {
+  'POST /auth/login': 'AuthResponse',
+  'GET /users': 'UserListResponse',
+  'POST /users': 'AdminUser',
+  'GET /users/:id': 'AdminUser',
+  'PATCH /users/:id': 'AdminUser',
+  'POST /users/:id/actions': 'AdminUser',
+  'GET /users/:id/sessions': 'UserSession[]',
+  'GET /system/metrics': 'SystemMetrics',
+  'GET /system/health': 'HealthCheckResponse',
+  'GET /system/status': 'HealthCheckResponse',
+  'POST /logs/query': 'LogsResponse',
+  'POST /logs/export': 'LogExportResponse',
+  'GET /logs/export/:id': 'LogExportResponse',
+  'GET /config': 'SystemConfig[]',
+  'POST /config/validate': 'ConfigValidationResponse',
+  'GET /config/:category': 'SystemConfig',
+  'PUT /config/:category': 'SystemConfig',
+  'POST /config/:category/reset': 'SystemConfig',
+  'GET /audit/:id': 'AuditLog',
+  'POST /backup': 'BackupResponse',
+  'GET /backup': 'BackupResponse[]',
+  'GET /backup/:id': 'BackupResponse',
+  'POST /restore': 'RestoreResponse',
+  'GET /restore/:id': 'RestoreResponse',
+  'POST /analytics': 'AnalyticsResponse',
+  'POST /maintenance': 'MaintenanceWindow',
+  'GET /maintenance': 'MaintenanceWindow[]',
+  'PATCH /maintenance/:id': 'MaintenanceWindow'
+};
 
 export class AdminAPI extends BaseAPI {
   constructor(request: APIRequestContext, config?: {
@@ -48,7 +85,8 @@ export class AdminAPI extends BaseAPI {
         'Accept': 'application/json',
         'X-Admin-Request': 'true'
       },
-      authToken: config?.authToken
+      authToken: config?.authToken,
+      contracts: ADMIN_CONTRACTS
     });
   }
 
@@ -478,7 +516,7 @@ export class AdminAPI extends BaseAPI {
   async waitForBackupCompletion(backupId: string, timeout = 300000): Promise<BackupResponse> {
     return await this.waitForCondition(
       () => this.getBackupStatus(backupId),
-      (backup) => backup.status === 'COMPLETED' || backup.status === 'FAILED',
+      (backup) => backup.status === 'completed' || backup.status === 'failed',
       {
         timeout,
         interval: 5000,
@@ -5,7 +5,7 @@
  */
 
 import { Page } from '@playwright/test';
-import { RoleBasedLocators } from '../helpers/RoleBasedLocators';
+import { RoleBasedLocators } from '../../shared/helpers/RoleBasedLocators';
 import { AdminDashboardPage } from './adminapp/AdminDashboardPage';
 import { UserManagementPage } from './adminapp/UserManagementPage';
 import { SystemLogsPage } from './adminapp/SystemLogsPage';
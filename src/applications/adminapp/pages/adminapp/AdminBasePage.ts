@@ -6,9 +6,9 @@
  */
 
 import { Page, Locator, expect } from '@playwright/test';
-import { RoleBasedLocators } from '../../helpers/RoleBasedLocators';
-import { UIPatternLocators } from '../../helpers/UIPatternLocators';
-import { BasePage } from '../BasePage';
+import { RoleBasedLocators } from '../../../shared/helpers/RoleBasedLocators';
+import { UIPatternLocators } from '../../../shared/helpers/UIPatternLocators';
+import { BasePage } from '../../../shared/pages/BasePage';
 
 export abstract class AdminBasePage extends BasePage {
   protected uiPatterns: UIPatternLocators;
@@ -176,9 +176,7 @@ export abstract class AdminBasePage extends BasePage {
    * Check for system alerts
    */
   async hasSystemAlerts(): Promise<boolean> {
-    const alerts = this.page.locator(
-      this.roleBasedLocators.alert()
-    ).filter({ hasText: /system|critical|warning/i });
+    const alerts = this.roleBasedLocators.alert().filter({ hasText: /system|critical|warning/i });
     return await alerts.count() > 0;
   }
 
@@ -186,9 +184,7 @@ export abstract class AdminBasePage extends BasePage {
    * Get system alert messages
    */
   async getSystemAlerts(): Promise<string[]> {
-    const alerts = await this.page.locator(
-      this.roleBasedLocators.alert()
-    ).filter({ hasText: /system|critical|warning/i }).all();
+    const alerts = await this.roleBasedLocators.alert().filter({ hasText: /system|critical|warning/i }).all();
     
     const messages: string[] = [];
     for (const alert of alerts) {
@@ -280,9 +276,7 @@ export abstract class AdminBasePage extends BasePage {
    */
   async hasPermission(action: string): Promise<boolean> {
     // Check if action button/link is enabled
-    const actionElement = this.page.locator(
-      this.roleBasedLocators.button(action)
-    ).or(this.roleBasedLocators.link(action));
+    const actionElement = this.roleBasedLocators.button(action).or(this.roleBasedLocators.link(action));
     
     if (await actionElement.isVisible()) {
       return await actionElement.isEnabled();
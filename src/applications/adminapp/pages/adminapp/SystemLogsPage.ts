@@ -6,8 +6,8 @@
  */
 
 import { Page, Locator, expect } from '@playwright/test';
-import { RoleBasedLocators } from '../../helpers/RoleBasedLocators';
-import { UIPatternLocators } from '../../helpers/UIPatternLocators';
+import { RoleBasedLocators } from '../../../shared/helpers/RoleBasedLocators';
+import { UIPatternLocators } from '../../../shared/helpers/UIPatternLocators';
 import { AdminBasePage } from './AdminBasePage';
 
 export interface LogEntry {
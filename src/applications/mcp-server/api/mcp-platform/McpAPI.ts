@@ -6,7 +6,8 @@
  */
 
 import { APIRequestContext } from '@playwright/test';
-import { BaseAPI } from '../BaseAPI';
+import { BaseAPI } from '../../../shared/api/BaseAPI';
+import { EndpointContracts } from '../../../shared/api/contracts/EndpointContracts';
 import {
   MCPTool,
   ToolExecutionRequest,
@@ -26,7 +27,33 @@ import {
   UsageStats,
   ExecutionStatus,
   KnowledgeType
-} from '../types';
+} from '../../../shared/api/types/mcp-platform.types';
+
+/**
+ * Response type per endpoint, checked when API_CONTRACT_VALIDATION is enabled
+ */
+export const MCP_CONTRACTS: EndpointContracts = {
+  'POST /sessions': 'SessionResponse',
+  'GET /sessions/:id': 'MCPSession',
+  'POST /sessions/:id/refresh': 'SessionResponse',
+  'GET /tools': 'MCPTool[]',
+  'POST /tools/execute': 'ToolExecutionResponse',
+  'GET /tools/:name': 'MCPTool',
+  'GET /executions': 'ToolExecutionResponse[]',
+  'GET /executions/:id': 'ToolExecutionResponse',
+  'POST /knowledge/search': 'KnowledgeSearchResponse',
+  'POST /knowledge': 'KnowledgeEntry',
+  'GET /knowledge/:id': 'KnowledgeEntry',
+  'PATCH /knowledge/:id': 'KnowledgeEntry',
+  'POST /generate/tests': 'TestGenerationResponse',
+  'POST /generate/playwright': 'PlaywrightGenerationResponse',
+  'GET /models': 'AIModel[]',
+  'GET /models/:id': 'AIModel',
+  'GET /webhooks': 'WebhookConfig[]',
+  'POST /webhooks': 'WebhookConfig',
+  'PATCH /webhooks/:id': 'WebhookConfig',
+  'GET /usage/stats': 'UsageStats'
+};
 
 export class McpAPI extends BaseAPI {
   constructor(request: APIRequestContext, config?: {
@@ -40,7 +67,8 @@ export class McpAPI extends BaseAPI {
         'Accept': 'application/json',
         'X-MCP-Version': '1.0'
       },
-      authToken: config?.authToken
+      authToken: config?.authToken,
+      contracts: MCP_CONTRACTS
     });
   }
 
@@ -7,6 +7,9 @@
 
 import { APIRequestContext, APIResponse, Page } from '@playwright/test';
 import { expect } from '@playwright/test';
+import { ContractMode, EndpointContracts, contractModeFromEnv, findContract } from './contracts/EndpointContracts';
+import { contractValidator, formatContractReport } from './contracts/ContractValidator';
+import { HarSession } from '../../../core/network/HarSession';
 
 export interface APIRequestOptions {
   headers?: Record<string, string>;
@@ -35,6 +38,8 @@ export class BaseAPI {
   protected baseURL: string;
   protected defaultHeaders: Record<string, string>;
   protected authToken?: string;
+  protected contracts: EndpointContracts;
+  protected contractMode: ContractMode;
 
   constructor(
     protected request: APIRequestContext,
@@ -42,11 +47,15 @@ export class BaseAPI {
       baseURL: string;
       defaultHeaders?: Record<string, string>;
       authToken?: string;
+      contracts?: EndpointContracts;
+      contractMode?: ContractMode;
     }
   ) {
     this.baseURL = config.baseURL;
     this.defaultHeaders = config.defaultHeaders || {};
     this.authToken = config.authToken;
+    this.contracts = config.contracts || {};
+    this.contractMode = config.contractMode || contractModeFromEnv();
   }
 
   /**
@@ -65,6 +74,13 @@ export class BaseAPI {
     delete this.defaultHeaders['Authorization'];
   }
 
+  /**
+   * Set how responses are checked against their endpoint contracts
+   */
+  setContractMode(mode: ContractMode): void {
+    this.contractMode = mode;
+  }
+
   /**
    * Build full URL from path
    */
@@ -85,12 +101,42 @@ export class BaseAPI {
     };
   }
 
+  /**
+   * Send a request, through the test's HAR session when recording or replaying
+   */
+  protected async send(
+    method: string,
+    url: string,
+    options: NonNullable<Parameters<APIRequestContext['fetch']>[1]>
+  ): Promise<APIResponse> {
+    const har = HarSession.active();
+    if (!har) {
+      return this.request.fetch(url, { ...options, method });
+    }
+
+    const requestURL = new URL(url);
+    for (const [key, value] of Object.entries(options.params || {})) {
+      requestURL.searchParams.set(key, String(value));
+    }
+
+    // Error responses are recorded too, so the status check happens here
+    const startTime = Date.now();
+    const response = har.replayAPI(method, requestURL.toString(), options) ||
+      await this.request.fetch(url, { ...options, method, failOnStatusCode: false });
+    await har.recordAPI(method, requestURL.toString(), options, response, startTime);
+
+    if (options.failOnStatusCode && !response.ok()) {
+      throw new Error(`${method} ${requestURL} failed: ${response.status()} ${response.statusText()}`);
+    }
+    return response;
+  }
+
   /**
    * Make GET request
    */
   async get<T = any>(path: string, options?: APIRequestOptions): Promise<APIResponseData<T>> {
     const startTime = Date.now();
-    const response = await this.request.get(this.buildURL(path), {
+    const response = await this.send('GET', this.buildURL(path), {
       headers: this.mergeHeaders(options?.headers),
       params: options?.params,
       timeout: options?.timeout,
@@ -98,7 +144,7 @@ export class BaseAPI {
       ignoreHTTPSErrors: options?.ignoreHTTPSErrors
     });
 
-    return this.handleResponse<T>(response, startTime);
+    return this.handleResponse<T>(response, startTime, { method: 'GET', path });
   }
 
   /**
@@ -106,7 +152,7 @@ export class BaseAPI {
    */
   async post<T = any>(path: string, options?: APIRequestOptions): Promise<APIResponseData<T>> {
     const startTime = Date.now();
-    const response = await this.request.post(this.buildURL(path), {
+    const response = await this.send('POST', this.buildURL(path), {
       headers: this.mergeHeaders(options?.headers),
       params: options?.params,
       data: options?.data,
@@ -117,7 +163,7 @@ export class BaseAPI {
       ignoreHTTPSErrors: options?.ignoreHTTPSErrors
     });
 
-    return this.handleResponse<T>(response, startTime);
+    return this.handleResponse<T>(response, startTime, { method: 'POST', path });
   }
 
   /**
@@ -125,7 +171,7 @@ export class BaseAPI {
    */
   async put<T = any>(path: string, options?: APIRequestOptions): Promise<APIResponseData<T>> {
     const startTime = Date.now();
-    const response = await this.request.put(this.buildURL(path), {
+    const response = await this.send('PUT', this.buildURL(path), {
       headers: this.mergeHeaders(options?.headers),
       params: options?.params,
       data: options?.data,
@@ -135,7 +181,7 @@ export class BaseAPI {
       ignoreHTTPSErrors: options?.ignoreHTTPSErrors
     });
 
-    return this.handleResponse<T>(response, startTime);
+    return this.handleResponse<T>(response, startTime, { method: 'PUT', path });
   }
 
   /**
@@ -143,7 +189,7 @@ export class BaseAPI {
    */
   async patch<T = any>(path: string, options?: APIRequestOptions): Promise<APIResponseData<T>> {
     const startTime = Date.now();
-    const response = await this.request.patch(this.buildURL(path), {
+    const response = await this.send('PATCH', this.buildURL(path), {
       headers: this.mergeHeaders(options?.headers),
       params: options?.params,
       data: options?.data,
@@ -152,7 +198,7 @@ export class BaseAPI {
       ignoreHTTPSErrors: options?.ignoreHTTPSErrors
     });
 
-    return this.handleResponse<T>(response, startTime);
+    return this.handleResponse<T>(response, startTime, { method: 'PATCH', path });
   }
 
   /**
@@ -160,7 +206,7 @@ export class BaseAPI {
    */
   async delete<T = any>(path: string, options?: APIRequestOptions): Promise<APIResponseData<T>> {
     const startTime = Date.now();
-    const response = await this.request.delete(this.buildURL(path), {
+    const response = await this.send('DELETE', this.buildURL(path), {
       headers: this.mergeHeaders(options?.headers),
       params: options?.params,
       timeout: options?.timeout,
@@ -168,18 +214,22 @@ export class BaseAPI {
       ignoreHTTPSErrors: options?.ignoreHTTPSErrors
     });
 
-    return this.handleResponse<T>(response, startTime);
+    return this.handleResponse<T>(response, startTime, { method: 'DELETE', path });
   }
 
   /**
    * Handle API response
    */
-  protected async handleResponse<T>(response: APIResponse, startTime: number): Promise<APIResponseData<T>> {
+  protected async handleResponse<T>(
+    response: APIResponse,
+    startTime: number,
+    endpoint?: { method: string; path: string }
+  ): Promise<APIResponseData<T>> {
     const duration = Date.now() - startTime;
     const headers: Record<string, string> = {};
     
     // Convert headers to object
-    response.headers().forEach((value: string, key: string) => {
+    Object.entries(response.headers()).forEach(([key, value]) => {
       headers[key] = value;
     });
 
@@ -194,6 +244,10 @@ export class BaseAPI {
       data = await response.body() as any;
     }
 
+    if (endpoint && response.ok() && contentType.includes('application/json')) {
+      this.validateContract(endpoint.method, endpoint.path, data);
+    }
+
     return {
       status: response.status(),
       statusText: response.statusText(),
@@ -203,6 +257,32 @@ export class BaseAPI {
     };
   }
 
+  /**
+   * Check a response body against the contract registered for its endpoint
+   */
+  protected validateContract(method: string, path: string, data: unknown): void {
+    if (this.contractMode === 'off') {
+      return;
+    }
+
+    const relativePath = path.startsWith(this.baseURL) ? path.slice(this.baseURL.length) : path;
+    const match = findContract(this.contracts, method, relativePath);
+    if (!match) {
+      return;
+    }
+
+    const violations = contractValidator.validate(match.contract, data);
+    if (!violations.length) {
+      return;
+    }
+
+    const report = formatContractReport(`${method} ${relativePath} (${match.contract})`, violations);
+    if (this.contractMode === 'strict') {
+      throw new Error(report);
+    }
+    console.warn(report);
+  }
+
   /**
    * Wait for condition with polling
    */
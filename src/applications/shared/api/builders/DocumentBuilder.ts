@@ -5,7 +5,7 @@
  */
 
 import { Document, DocumentType, DocumentStatus, DocumentMetadata } from '../types';
-import { faker } from '@faker-js/faker';
+import { faker } from '../../../../core/data/SeedManager';
 
 export class DocumentBuilder {
   private document: Partial<Document>;
@@ -12,7 +12,7 @@ import {
   Example,
   FeatureFileMetadata 
 } from '../types';
-import { faker } from '@faker-js/faker';
+import { faker } from '../../../../core/data/SeedManager';
 
 export class StepBuilder {
   private step: Step;
@@ -11,7 +11,7 @@ import {
   ProjectIntegration,
   ProjectStatistics 
 } from '../types';
-import { faker } from '@faker-js/faker';
+import { faker } from '../../../../core/data/SeedManager';
 
 export class ProjectBuilder {
   private project: Partial<Project>;
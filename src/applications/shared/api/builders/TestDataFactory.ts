@@ -17,7 +17,7 @@ import {
   DocumentStatus,
   UserRole 
 } from '../types';
-import { faker } from '@faker-js/faker';
+import { faker } from '../../../../core/data/SeedManager';
 
 export interface TestDataSet {
   users: UserProfile[];
@@ -5,7 +5,7 @@
  */
 
 import { UserProfile, UserRole, AdminUser, UserStatus } from '../types';
-import { faker } from '@faker-js/faker';
+import { faker } from '../../../../core/data/SeedManager';
 
 export class UserBuilder {
   protected user: Partial<UserProfile>;
@@ -0,0 +1,224 @@
+/**
+ * Contract Validator
+ *
+ * Checks response payloads against the generated JSON Schemas and reports the
+ * drift as a flat list of violations: fields the type requires but the payload
+ * lacks, fields the payload has but the type does not declare, and fields whose
+ * value does not match the declared type.
+ */
+
+import { JSONSchema, JSONSchemaType, SchemaGenerator, schemaGenerator } from './SchemaGenerator';
+
+export type ContractViolationKind = 'missing' | 'extra' | 'mistyped';
+
+export interface ContractViolation {
+  kind: ContractViolationKind;
+  path: string;
+  expected?: string;
+  actual?: string;
+}
+
+const MARKERS: Record<ContractViolationKind, string> = {
+  missing: '-',
+  extra: '+',
+  mistyped: '~'
+};
+
+export class ContractValidator {
+  private schemas = new Map<string, JSONSchema>();
+
+  constructor(private readonly generator: SchemaGenerator = schemaGenerator) {}
+
+  /**
+   * Validate data against a contract such as `Document` or `FeatureFile[]`
+   */
+  validate(contract: string, data: any): ContractViolation[] {
+    if (!this.schemas.has(contract)) {
+      this.schemas.set(contract, this.generator.schemaFor(contract));
+    }
+    return this.validateSchema(this.schemas.get(contract)!, data);
+  }
+
+  /**
+   * Validate data against a JSON Schema; `$ref`s resolve against its definitions
+   */
+  validateSchema(schema: JSONSchema, data: any): ContractViolation[] {
+    return this.check(schema, data, '$', schema.definitions || {});
+  }
+
+  /**
+   * Throw with a drift report when data does not satisfy the contract
+   */
+  assert(contract: string, data: any, label = contract): void {
+    const violations = this.validate(contract, data);
+    if (violations.length) {
+      throw new Error(formatContractReport(label, violations));
+    }
+  }
+
+  private check(schema: JSONSchema, value: any, path: string, definitions: Record<string, JSONSchema>): ContractViolation[] {
+    if (schema.$ref) {
+      const definition = definitions[schema.$ref.replace('#/definitions/', '')];
+      if (!definition) {
+        throw new Error(`Unresolved schema reference ${schema.$ref}`);
+      }
+      return this.check(definition, value, path, definitions);
+    }
+
+    if (schema.anyOf) {
+      return this.checkAnyOf(schema, value, path, definitions);
+    }
+
+    const mistyped = (): ContractViolation[] => [{
+      kind: 'mistyped',
+      path,
+      expected: describeSchema(schema),
+      actual: describeValue(value)
+    }];
+
+    if (schema.const !== undefined) {
+      return value === schema.const ? [] : mistyped();
+    }
+    if (schema.enum) {
+      return schema.enum.includes(value) ? [] : mistyped();
+    }
+
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = valueType(value);
+    if (types.length && !(actual && types.includes(actual))) {
+      return mistyped();
+    }
+    if (schema.format === 'date-time' && isNaN(Date.parse(value))) {
+      return mistyped();
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      return value.flatMap((item, index) => this.check(schema.items!, item, `${path}[${index}]`, definitions));
+    }
+
+    if (valueType(value) === 'object' && (schema.properties || schema.additionalProperties !== undefined)) {
+      return this.checkObject(schema, value, path, definitions);
+    }
+
+    return [];
+  }
+
+  private checkObject(schema: JSONSchema, value: Record<string, any>, path: string, definitions: Record<string, JSONSchema>): ContractViolation[] {
+    const properties = schema.properties || {};
+    const violations: ContractViolation[] = [];
+
+    for (const field of schema.required || []) {
+      if (value[field] === undefined) {
+        violations.push({ kind: 'missing', path: `${path}.${field}`, expected: describeSchema(properties[field] || {}) });
+      }
+    }
+
+    for (const [field, fieldValue] of Object.entries(value)) {
+      const fieldPath = `${path}.${field}`;
+      const fieldSchema = properties[field];
+
+      if (fieldSchema) {
+        // Optional fields may be sent as null by JSON serializers
+        const optional = !(schema.required || []).includes(field);
+        if (fieldValue !== undefined && !(optional && fieldValue === null)) {
+          violations.push(...this.check(fieldSchema, fieldValue, fieldPath, definitions));
+        }
+      } else if (schema.additionalProperties === false) {
+        violations.push({ kind: 'extra', path: fieldPath, actual: describeValue(fieldValue) });
+      } else if (typeof schema.additionalProperties === 'object') {
+        violations.push(...this.check(schema.additionalProperties, fieldValue, fieldPath, definitions));
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Report against the closest union member rather than every member
+   */
+  private checkAnyOf(schema: JSONSchema, value: any, path: string, definitions: Record<string, JSONSchema>): ContractViolation[] {
+    let closest: ContractViolation[] | undefined;
+
+    for (const member of schema.anyOf!) {
+      const violations = this.check(member, value, path, definitions);
+      if (!violations.length) {
+        return [];
+      }
+      if (!closest || violations.length < closest.length) {
+        closest = violations;
+      }
+    }
+
+    if (closest!.some(violation => violation.kind === 'mistyped' && violation.path === path)) {
+      return [{ kind: 'mistyped', path, expected: describeSchema(schema), actual: describeValue(value) }];
+    }
+    return closest!;
+  }
+}
+
+/**
+ * Human readable drift report, one line per violation
+ */
+export function formatContractReport(label: string, violations: ContractViolation[]): string {
+  const lines = violations.map(violation => {
+    const marker = `${MARKERS[violation.kind]} ${violation.kind.padEnd(8)} ${violation.path}`;
+    switch (violation.kind) {
+      case 'missing':
+        return `  ${marker} (expected ${violation.expected})`;
+      case 'extra':
+        return `  ${marker} (${violation.actual})`;
+      default:
+        return `  ${marker} expected ${violation.expected}, got ${violation.actual}`;
+    }
+  });
+
+  return [`Contract drift in ${label}: ${violations.length} violation(s)`, ...lines].join('\n');
+}
+
+function describeSchema(schema: JSONSchema): string {
+  if (schema.$ref) {
+    return schema.$ref.replace('#/definitions/', '');
+  }
+  if (schema.anyOf) {
+    return schema.anyOf.map(describeSchema).join(' | ');
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+  if (schema.type === 'array') {
+    return `${describeSchema(schema.items || {})}[]`;
+  }
+  if (schema.format) {
+    return `${schema.type} (${schema.format})`;
+  }
+  if (schema.type) {
+    return Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
+  }
+  return 'any';
+}
+
+function describeValue(value: any): string {
+  const type = valueType(value) ?? typeof value;
+  if (type === 'object' || type === 'array') {
+    return type;
+  }
+  const text = JSON.stringify(value) ?? String(value);
+  return `${type} ${text.length > 40 ? `${text.slice(0, 37)}...` : text}`;
+}
+
+/**
+ * undefined for values JSON has no type for, such as undefined or functions
+ */
+function valueType(value: any): JSONSchemaType | undefined {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object' ? type : undefined;
+}
+
+// Export singleton instance
+export const contractValidator = new ContractValidator();
+export default contractValidator;
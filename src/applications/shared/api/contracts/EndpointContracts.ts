@@ -0,0 +1,61 @@
+/**
+ * Endpoint Contracts
+ *
+ * Maps API endpoints to the response type they are expected to return. Keys are
+ * `METHOD /path` with `:param` placeholders, values are exported type names
+ * from `../types`, optionally suffixed with `[]` for arrays:
+ *
+ *   'GET /documents/:id': 'Document',
+ *   'GET /features': 'FeatureFile[]'
+ */
+
+export type EndpointContracts = Record<string, string>;
+
+/**
+ * off    - responses are not checked (default)
+ * warn   - drift is logged and the response is returned
+ * strict - drift throws, failing the calling test
+ */
+export type ContractMode = 'off' | 'warn' | 'strict';
+
+export interface EndpointContract {
+  endpoint: string;
+  contract: string;
+}
+
+interface CompiledContract extends EndpointContract {
+  method: string;
+  pattern: RegExp;
+}
+
+const compiled = new WeakMap<EndpointContracts, CompiledContract[]>();
+
+export function contractModeFromEnv(): ContractMode {
+  const mode = (process.env.API_CONTRACT_VALIDATION || 'off').toLowerCase();
+  if (mode === 'true') {
+    return 'strict';
+  }
+  return mode === 'warn' || mode === 'strict' ? mode : 'off';
+}
+
+/**
+ * Find the contract for a request path, ignoring any query string
+ */
+export function findContract(contracts: EndpointContracts, method: string, path: string): EndpointContract | undefined {
+  if (!compiled.has(contracts)) {
+    compiled.set(contracts, Object.entries(contracts).map(([endpoint, contract]) => {
+      const [endpointMethod, endpointPath] = endpoint.split(' ');
+      const source = endpointPath
+        .split('/')
+        .map(segment => (segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+        .join('/');
+      return { endpoint, contract, method: endpointMethod.toUpperCase(), pattern: new RegExp(`^${source}/?$`) };
+    }));
+  }
+
+  const requestPath = path.split('?')[0];
+  const match = compiled.get(contracts)!.find(candidate =>
+    candidate.method === method.toUpperCase() && candidate.pattern.test(requestPath)
+  );
+  return match && { endpoint: match.endpoint, contract: match.contract };
+}
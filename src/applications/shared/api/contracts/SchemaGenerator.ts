@@ -0,0 +1,215 @@
+/**
+ * Schema Generator
+ *
+ * Derives JSON Schemas (draft-07) from the shared API type definitions so
+ * responses can be checked against the same interfaces the API clients use.
+ * Exported interfaces, aliases and enums become `definitions` entries and are
+ * referenced with `$ref`, which keeps recursive types finite.
+ *
+ * A schema can be requested for a single type (`Document`) or an array of it
+ * (`FeatureFile[]`).
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+import { ApiTypeRegistry, apiTypeRegistry } from '../helpers/ApiTypeRegistry';
+
+export interface JSONSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  type?: JSONSchemaType | JSONSchemaType[];
+  format?: string;
+  const?: string | number | boolean;
+  enum?: Array<string | number>;
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  anyOf?: JSONSchema[];
+  definitions?: Record<string, JSONSchema>;
+}
+
+export type JSONSchemaType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+const DRAFT_07 = 'http://json-schema.org/draft-07/schema#';
+
+export class SchemaGenerator {
+  private definitions = new Map<string, JSONSchema>();
+
+  constructor(private readonly registry: ApiTypeRegistry = apiTypeRegistry) {}
+
+  /**
+   * Standalone schema for `TypeName` or `TypeName[]`, including every
+   * definition it references
+   */
+  schemaFor(contract: string): JSONSchema {
+    const isArray = contract.endsWith('[]');
+    const typeName = isArray ? contract.slice(0, -2) : contract;
+    const root = this.reference(typeName);
+    const schema: JSONSchema = isArray ? { type: 'array', items: root } : root;
+
+    return {
+      $schema: DRAFT_07,
+      title: contract,
+      ...schema,
+      definitions: this.collectDefinitions(root)
+    };
+  }
+
+  /**
+   * Write one schema file per exported type, e.g. for review or external tools
+   */
+  async writeSchemas(outputDir: string): Promise<string[]> {
+    await fs.mkdir(outputDir, { recursive: true });
+
+    const files: string[] = [];
+    for (const typeName of this.registry.names()) {
+      const file = path.join(outputDir, `${typeName}.schema.json`);
+      await fs.writeFile(file, JSON.stringify(this.schemaFor(typeName), null, 2));
+      files.push(file);
+    }
+    return files;
+  }
+
+  private reference(typeName: string): JSONSchema {
+    if (!this.definitions.has(typeName)) {
+      // Reserve the slot first so self references resolve to a $ref
+      this.definitions.set(typeName, {});
+      this.definitions.set(typeName, this.toSchema(this.registry.get(typeName), true));
+    }
+    return { $ref: `#/definitions/${typeName}` };
+  }
+
+  private collectDefinitions(schema: JSONSchema, collected: Record<string, JSONSchema> = {}): Record<string, JSONSchema> {
+    const visit = (node: JSONSchema | undefined): void => {
+      if (!node) {
+        return;
+      }
+      if (node.$ref) {
+        const name = node.$ref.replace('#/definitions/', '');
+        if (!collected[name]) {
+          collected[name] = this.definitions.get(name)!;
+          visit(collected[name]);
+        }
+        return;
+      }
+      visit(node.items);
+      node.anyOf?.forEach(visit);
+      Object.values(node.properties || {}).forEach(visit);
+      if (typeof node.additionalProperties === 'object') {
+        visit(node.additionalProperties);
+      }
+    };
+
+    visit(schema);
+    return collected;
+  }
+
+  private toSchema(type: ts.Type, isDeclaration = false): JSONSchema {
+    const checker = this.registry.checker;
+
+    const exportedName = isDeclaration ? undefined : this.registry.nameOf(type);
+    if (exportedName) {
+      return this.reference(exportedName);
+    }
+
+    if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return {};
+    }
+    if (type.flags & ts.TypeFlags.Null) {
+      return { type: 'null' };
+    }
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return { const: type.value };
+    }
+    if (type.flags & ts.TypeFlags.BooleanLiteral) {
+      return { const: checker.typeToString(type) === 'true' };
+    }
+    if (type.flags & ts.TypeFlags.Boolean) {
+      return { type: 'boolean' };
+    }
+    if (type.isUnion()) {
+      return this.unionSchema(type.types.filter(member => !(member.flags & ts.TypeFlags.Undefined)));
+    }
+    if (type.flags & ts.TypeFlags.StringLike) {
+      return { type: 'string' };
+    }
+    if (type.flags & ts.TypeFlags.NumberLike) {
+      return { type: 'number' };
+    }
+
+    if (checker.isArrayType(type) || checker.isTupleType(type)) {
+      const [elementType] = checker.getTypeArguments(type as ts.TypeReference);
+      return { type: 'array', items: elementType ? this.toSchema(elementType) : {} };
+    }
+
+    if (type.flags & ts.TypeFlags.Object) {
+      if (type.getSymbol()?.getName() === 'Date') {
+        return { type: 'string', format: 'date-time' };
+      }
+      return this.objectSchema(type);
+    }
+
+    return {};
+  }
+
+  private unionSchema(members: ts.Type[]): JSONSchema {
+    if (members.length === 1) {
+      return this.toSchema(members[0]);
+    }
+
+    // `true | false` is how the checker spells boolean inside unions
+    const booleans = members.filter(member => member.flags & ts.TypeFlags.BooleanLiteral);
+    const rest = members.filter(member => !(member.flags & ts.TypeFlags.BooleanLiteral));
+    const schemas = rest.map(member => this.toSchema(member));
+    if (booleans.length === 2) {
+      schemas.push({ type: 'boolean' });
+    } else {
+      schemas.push(...booleans.map(member => this.toSchema(member)));
+    }
+
+    // Collapse literal unions (string enums, 'a' | 'b') into a single enum
+    if (schemas.every(schema => schema.const !== undefined && typeof schema.const !== 'boolean')) {
+      const values = schemas.map(schema => schema.const as string | number);
+      return { type: typeof values[0] === 'number' ? 'number' : 'string', enum: values };
+    }
+
+    return schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+  }
+
+  private objectSchema(type: ts.Type): JSONSchema {
+    const checker = this.registry.checker;
+    const properties: Record<string, JSONSchema> = {};
+    const required: string[] = [];
+
+    for (const property of checker.getPropertiesOfType(type)) {
+      const declaration = property.valueDeclaration ?? property.declarations?.[0];
+      const propertyType = declaration
+        ? checker.getTypeOfSymbolAtLocation(property, declaration)
+        : checker.getDeclaredTypeOfSymbol(property);
+      // Methods are not part of the wire format
+      if (propertyType.getCallSignatures().length) {
+        continue;
+      }
+
+      properties[property.getName()] = this.toSchema(propertyType);
+      if (!(property.flags & ts.SymbolFlags.Optional)) {
+        required.push(property.getName());
+      }
+    }
+
+    const indexType = checker.getIndexTypeOfType(type, ts.IndexKind.String);
+    return {
+      type: 'object',
+      properties,
+      ...(required.length ? { required } : {}),
+      additionalProperties: indexType ? this.toSchema(indexType) : false
+    };
+  }
+}
+
+// Export singleton instance
+export const schemaGenerator = new SchemaGenerator();
+export default schemaGenerator;
@@ -7,6 +7,8 @@
 
 import { expect } from '@playwright/test';
 import { APIResponseData } from '../BaseAPI';
+import { contractValidator, formatContractReport } from '../contracts/ContractValidator';
+import { JSONSchema } from '../contracts/SchemaGenerator';
 
 export class APIValidation {
   /**
@@ -73,10 +75,15 @@ export class APIValidation {
   }
 
   /**
-   * Validate response matches schema
+   * Validate response matches a contract type name (`Document`, `Project[]`)
+   * or a JSON Schema, reporting missing, extra and mistyped fields
    */
-  static expectSchema<T>(response: APIResponseData<T>, schema: Record<string, any>): void {
-    this.validateSchema(response.data, schema);
+  static expectSchema<T>(response: APIResponseData<T>, schema: string | JSONSchema): void {
+    const violations = typeof schema === 'string'
+      ? contractValidator.validate(schema, response.data)
+      : contractValidator.validateSchema(schema, response.data);
+    const label = typeof schema === 'string' ? schema : schema.title || 'response schema';
+    expect(violations, formatContractReport(label, violations)).toEqual([]);
   }
 
   /**
@@ -219,30 +226,6 @@ export class APIValidation {
     }
   }
 
-  /**
-   * Validate object schema recursively
-   */
-  private static validateSchema(data: any, schema: Record<string, any>, path = ''): void {
-    for (const [key, expectedType] of Object.entries(schema)) {
-      const currentPath = path ? `${path}.${key}` : key;
-      
-      if (expectedType === 'required') {
-        expect(data).toHaveProperty(key);
-        continue;
-      }
-
-      if (typeof expectedType === 'string') {
-        if (data[key] !== undefined) {
-          expect(typeof data[key]).toBe(expectedType);
-        }
-      } else if (typeof expectedType === 'object' && expectedType !== null) {
-        if (data[key] !== undefined) {
-          this.validateSchema(data[key], expectedType, currentPath);
-        }
-      }
-    }
-  }
-
   /**
    * Custom assertion for sorted array
    */
@@ -372,7 +355,7 @@ export class ChainableAPIAssertion<T = any> {
     return this;
   }
 
-  schema(schema: Record<string, any>): this {
+  schema(schema: string | JSONSchema): this {
     APIValidation.expectSchema(this.response, schema);
     return this;
   }
@@ -0,0 +1,101 @@
+/**
+ * API Type Registry
+ *
+ * Loads the shared API type definitions in `../types` through the TypeScript
+ * compiler and indexes every exported interface, type alias and enum by name.
+ * The mock sampler and the contract schema generator both read from here so
+ * they see exactly the same types the API clients are compiled against.
+ */
+
+import * as path from 'path';
+import ts from 'typescript';
+
+const TYPE_FILES = [
+  'common.types.ts',
+  'webapp.types.ts',
+  'adminapp.types.ts',
+  'mcp-platform.types.ts'
+];
+
+export class ApiTypeRegistry {
+  private program?: ts.Program;
+  private typeChecker?: ts.TypeChecker;
+  private exportedTypes = new Map<string, ts.Type>();
+  private typeNames = new Map<ts.Type, string>();
+
+  constructor(private readonly typesDir = path.resolve(__dirname, '..', 'types')) {}
+
+  get checker(): ts.TypeChecker {
+    this.load();
+    return this.typeChecker!;
+  }
+
+  has(typeName: string): boolean {
+    this.load();
+    return this.exportedTypes.has(typeName);
+  }
+
+  get(typeName: string): ts.Type {
+    this.load();
+    const type = this.exportedTypes.get(typeName);
+    if (!type) {
+      throw new Error(`Type '${typeName}' is not exported from ${this.typesDir}`);
+    }
+    return type;
+  }
+
+  /**
+   * Exported name of a type, if the type is one of the declared exports
+   */
+  nameOf(type: ts.Type): string | undefined {
+    this.load();
+    return this.typeNames.get(type);
+  }
+
+  names(): string[] {
+    this.load();
+    return [...this.exportedTypes.keys()];
+  }
+
+  private load(): void {
+    if (this.program) {
+      return;
+    }
+
+    const files = TYPE_FILES.map(file => path.join(this.typesDir, file));
+    this.program = ts.createProgram(files, {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true
+    });
+    this.typeChecker = this.program.getTypeChecker();
+
+    for (const file of files) {
+      const sourceFile = this.program.getSourceFile(file);
+      const moduleSymbol = sourceFile && this.typeChecker.getSymbolAtLocation(sourceFile);
+      if (!moduleSymbol) {
+        throw new Error(`Unable to load API type definitions from ${file}`);
+      }
+
+      for (const symbol of this.typeChecker.getExportsOfModule(moduleSymbol)) {
+        if (symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias | ts.SymbolFlags.Enum)) {
+          const type = this.typeChecker.getDeclaredTypeOfSymbol(symbol);
+          this.exportedTypes.set(symbol.getName(), type);
+          // Primitive aliases share the checker's intrinsic types, so only
+          // object, union and enum declarations are named
+          const named = type.flags & (ts.TypeFlags.Object | ts.TypeFlags.Union | ts.TypeFlags.EnumLike) &&
+            !(type.flags & ts.TypeFlags.Boolean);
+          if (named && !this.typeNames.has(type)) {
+            this.typeNames.set(type, symbol.getName());
+          }
+        }
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const apiTypeRegistry = new ApiTypeRegistry();
+export default apiTypeRegistry;
@@ -26,6 +26,14 @@ export {
   expectAPI 
 } from './helpers/APIValidation';
 
+// Contract testing
+export { SchemaGenerator, schemaGenerator } from './contracts/SchemaGenerator';
+export type { JSONSchema } from './contracts/SchemaGenerator';
+export { ContractValidator, contractValidator, formatContractReport } from './contracts/ContractValidator';
+export type { ContractViolation } from './contracts/ContractValidator';
+export { findContract } from './contracts/EndpointContracts';
+export type { ContractMode, EndpointContracts } from './contracts/EndpointContracts';
+
 // Test data builders
 export {
   // Document builders
@@ -0,0 +1,201 @@
+/**
+ * Mock API Server
+ *
+ * Local stub server implementing the WebappAPI, AdminAPI and McpAPI routes so
+ * API suites and workflows can run without the real applications. Payloads are
+ * sampled from the shared type definitions and CRUD resources are kept in an
+ * in-memory store for the duration of the run.
+ *
+ * Each application is mounted under its own prefix:
+ *   /webapp/api/*   WebappAPI
+ *   /admin/api/*    AdminAPI
+ *   /mcp/api/*      McpAPI
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { MockStore } from './MockStore';
+import { TypeSampler, typeSampler } from './TypeSampler';
+import { CompiledRoute, MockMethod, MockRequest, MockResponse, MockRoute, compileRoute, notFound } from './MockRoute';
+import { webappRoutes } from './webapp.routes';
+import { adminappRoutes } from './adminapp.routes';
+import { mcpPlatformRoutes } from './mcp-platform.routes';
+
+export interface MockApiUrls {
+  webapp: string;
+  admin: string;
+  mcp: string;
+}
+
+export class MockApiServer {
+  private static instance: MockApiServer;
+  private server?: http.Server;
+  private readonly store = new MockStore();
+  private readonly mounts = new Map<string, CompiledRoute[]>();
+
+  private constructor(private readonly sampler: TypeSampler = typeSampler) {
+    this.mount('/webapp/api', webappRoutes);
+    this.mount('/admin/api', adminappRoutes);
+    this.mount('/mcp/api', mcpPlatformRoutes);
+  }
+
+  public static getInstance(): MockApiServer {
+    if (!MockApiServer.instance) {
+      MockApiServer.instance = new MockApiServer();
+    }
+    return MockApiServer.instance;
+  }
+
+  /**
+   * Register routes under a path prefix
+   */
+  mount(prefix: string, routes: MockRoute[]): void {
+    this.mounts.set(prefix, routes.map(compileRoute));
+  }
+
+  /**
+   * Start listening; port 0 picks a free port
+   */
+  async start(port = parseInt(process.env.MOCK_API_PORT || '0', 10)): Promise<MockApiUrls> {
+    if (!this.server) {
+      const server = http.createServer((req, res) => {
+        this.handle(req, res).catch(error => {
+          this.send(res, { status: 500, body: { error: { type: 'MockServerError', message: error.message } } });
+        });
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => resolve());
+      });
+
+      this.server = server;
+    }
+
+    return this.getUrls();
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  isRunning(): boolean {
+    return !!this.server;
+  }
+
+  getUrls(): MockApiUrls {
+    if (!this.server) {
+      throw new Error('Mock API server is not running');
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    const origin = `http://127.0.0.1:${port}`;
+    return {
+      webapp: `${origin}/webapp/api`,
+      admin: `${origin}/admin/api`,
+      mcp: `${origin}/mcp/api`
+    };
+  }
+
+  /**
+   * Drop all stored resources
+   */
+  reset(): void {
+    this.store.clear();
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase() as MockMethod;
+    const body = await this.readBody(req);
+
+    for (const [prefix, routes] of this.mounts) {
+      if (!url.pathname.startsWith(prefix)) {
+        continue;
+      }
+
+      const path = url.pathname.slice(prefix.length) || '/';
+      for (const route of routes) {
+        const match = route.method === method ? route.pattern.exec(path) : null;
+        if (!match) {
+          continue;
+        }
+
+        const request: MockRequest = {
+          method,
+          path: url.pathname,
+          params: Object.fromEntries(route.paramNames.map((name, i) => [name, decodeURIComponent(match[i + 1])])),
+          query: Object.fromEntries(url.searchParams),
+          headers: req.headers,
+          body
+        };
+
+        this.send(res, route.handler(request, { store: this.store, sampler: this.sampler }));
+        return;
+      }
+    }
+
+    this.send(res, notFound({ method, path: url.pathname, params: {}, query: {}, headers: req.headers, body }, `No mock route for ${method} ${url.pathname}`));
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const raw = Buffer.concat(chunks).toString('utf-8');
+    if (!raw) {
+      return {};
+    }
+
+    const contentType = req.headers['content-type'] || '';
+    if (contentType.includes('application/json')) {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return {};
+      }
+    }
+
+    if (contentType.includes('multipart/form-data')) {
+      // Only text fields are needed; file parts are reduced to their size
+      const fields: Record<string, any> = {};
+      const partPattern = /name="([^"]+)"(?:; filename="[^"]*")?\r\n(?:[^\r\n]+\r\n)*\r\n([\s\S]*?)\r\n--/g;
+      let part: RegExpExecArray | null;
+      while ((part = partPattern.exec(raw)) !== null) {
+        fields[part[1]] = part[0].includes('filename=') ? { size: part[2].length } : part[2];
+      }
+      return fields;
+    }
+
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(raw));
+    }
+
+    return raw;
+  }
+
+  private send(res: http.ServerResponse, response: MockResponse): void {
+    const headers = { ...(response.headers || {}) };
+
+    if (response.body === undefined || response.status === 204) {
+      res.writeHead(response.status, headers);
+      res.end();
+      return;
+    }
+
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(response.body));
+  }
+}
+
+// Export singleton instance
+export const mockApiServer = MockApiServer.getInstance();
+export default mockApiServer;
@@ -0,0 +1,176 @@
+/**
+ * Mock Route
+ *
+ * Route, request and response types shared by the mock API server and the
+ * per-application route tables, plus small response helpers.
+ */
+
+import * as http from 'http';
+import { MockStore } from './MockStore';
+import { TypeSampler } from './TypeSampler';
+import { seedManager } from '../../../../core/data/SeedManager';
+
+export type MockMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface MockRequest {
+  method: MockMethod;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export interface MockContext {
+  store: MockStore;
+  sampler: TypeSampler;
+}
+
+export type MockHandler = (request: MockRequest, context: MockContext) => MockResponse;
+
+export interface MockRoute {
+  method: MockMethod;
+  path: string;
+  handler: MockHandler;
+}
+
+export interface CompiledRoute extends MockRoute {
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+export const ok = (body?: any): MockResponse => ({ status: 200, body });
+export const created = (body?: any): MockResponse => ({ status: 201, body });
+export const noContent = (): MockResponse => ({ status: 204 });
+
+export const notFound = (request: MockRequest, message = `No resource at ${request.path}`): MockResponse => ({
+  status: 404,
+  body: {
+    error: { type: 'NotFound', message, code: 'NOT_FOUND' },
+    timestamp: new Date().toISOString(),
+    path: request.path
+  }
+});
+
+export const badRequest = (request: MockRequest, message: string): MockResponse => ({
+  status: 400,
+  body: {
+    error: { type: 'ValidationError', message, code: 'BAD_REQUEST' },
+    timestamp: new Date().toISOString(),
+    path: request.path
+  }
+});
+
+/**
+ * Turn `/documents/:documentId` into a matcher with named params
+ */
+export function compileRoute(route: MockRoute): CompiledRoute {
+  const paramNames: string[] = [];
+  const source = route.path.replace(/:([A-Za-z]+)/g, (_, name: string) => {
+    paramNames.push(name);
+    return '([^/]+)';
+  });
+  return { ...route, pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+export interface ResourceOptions {
+  /** Collection path, e.g. `/projects`; item routes use `/projects/:id` */
+  path: string;
+  collection: string;
+  /** Exported type name the stored items are sampled from */
+  type: string;
+  idField?: string;
+  updateMethods?: MockMethod[];
+  /** Shape the list response; defaults to the plain array */
+  list?: (items: any[], request: MockRequest) => any;
+  /** Adjust a new item after sampling and before it is stored */
+  prepare?: (item: any, request: MockRequest, context: MockContext) => any;
+}
+
+/**
+ * Stateful list/get/create/update/delete routes for one resource
+ */
+export function resourceRoutes(options: ResourceOptions): MockRoute[] {
+  const idField = options.idField || 'id';
+  const itemPath = `${options.path}/:id`;
+
+  const routes: MockRoute[] = [
+    {
+      method: 'GET',
+      path: options.path,
+      handler: (request, { store }) => {
+        const items = store.list(options.collection);
+        return ok(options.list ? options.list(items, request) : items);
+      }
+    },
+    {
+      method: 'POST',
+      path: options.path,
+      handler: (request, context) => {
+        const now = new Date().toISOString();
+        let item = context.sampler.sample(options.type, { ...request.body, [idField]: seedManager.uuid() });
+        for (const field of ['createdAt', 'updatedAt']) {
+          if (field in item) {
+            item[field] = now;
+          }
+        }
+        item = options.prepare ? options.prepare(item, request, context) : item;
+        return created(context.store.insert(options.collection, item[idField], item));
+      }
+    },
+    {
+      method: 'GET',
+      path: itemPath,
+      handler: (request, { store }) => {
+        const item = store.get(options.collection, request.params.id);
+        return item ? ok(item) : notFound(request);
+      }
+    },
+    {
+      method: 'DELETE',
+      path: itemPath,
+      handler: (request, { store }) =>
+        store.remove(options.collection, request.params.id) ? noContent() : notFound(request)
+    }
+  ];
+
+  for (const method of options.updateMethods || ['PATCH']) {
+    routes.push({
+      method,
+      path: itemPath,
+      handler: (request, { store }) => {
+        const existing = store.get(options.collection, request.params.id);
+        if (!existing) {
+          return notFound(request);
+        }
+        const updates = { ...request.body, [idField]: request.params.id };
+        if ('updatedAt' in existing) {
+          updates.updatedAt = new Date().toISOString();
+        }
+        return ok(store.update(options.collection, request.params.id, updates));
+      }
+    });
+  }
+
+  return routes;
+}
+
+/**
+ * Wrap a page of items the way the list endpoints report them
+ */
+export function paginate<T>(items: T[], request: MockRequest): { items: T[]; total: number; page: number; pageSize: number } {
+  const page = Math.max(parseInt(request.query.page || '1', 10), 1);
+  const pageSize = Math.max(parseInt(request.query.pageSize || request.query.limit || '20', 10), 1);
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    total: items.length,
+    page,
+    pageSize
+  };
+}
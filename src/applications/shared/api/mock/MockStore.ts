@@ -0,0 +1,54 @@
+/**
+ * Mock Store
+ *
+ * In-memory collections backing the mock API server. State lives for the
+ * lifetime of the server (one test run) and is shared by every worker.
+ */
+
+export class MockStore {
+  private collections = new Map<string, Map<string, any>>();
+
+  list<T = any>(collection: string, predicate?: (item: T) => boolean): T[] {
+    const items = Array.from(this.getCollection(collection).values()) as T[];
+    return predicate ? items.filter(predicate) : items;
+  }
+
+  get<T = any>(collection: string, id: string): T | undefined {
+    return this.getCollection(collection).get(id);
+  }
+
+  insert<T = any>(collection: string, id: string, item: T): T {
+    this.getCollection(collection).set(id, item);
+    return item;
+  }
+
+  update<T = any>(collection: string, id: string, updates: Partial<T>): T | undefined {
+    const existing = this.get<T>(collection, id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated = { ...existing, ...updates };
+    this.getCollection(collection).set(id, updated);
+    return updated;
+  }
+
+  remove(collection: string, id: string): boolean {
+    return this.getCollection(collection).delete(id);
+  }
+
+  clear(collection?: string): void {
+    if (collection) {
+      this.collections.delete(collection);
+    } else {
+      this.collections.clear();
+    }
+  }
+
+  private getCollection(collection: string): Map<string, any> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, new Map());
+    }
+    return this.collections.get(collection)!;
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Type Sampler
+ *
+ * Builds sample payloads straight from the API type definitions in `../types`
+ * using the TypeScript compiler, so mock responses keep the same shape as the
+ * interfaces the API clients are written against. Values come from the seeded
+ * faker instance and are chosen from property names (ids, emails, dates, ...).
+ */
+
+import ts from 'typescript';
+import { faker } from '../../../../core/data/SeedManager';
+import { ApiTypeRegistry, apiTypeRegistry } from '../helpers/ApiTypeRegistry';
+
+const MAX_DEPTH = 5;
+
+export class TypeSampler {
+  constructor(private readonly registry: ApiTypeRegistry = apiTypeRegistry) {}
+
+  /**
+   * Build a sample value for an exported type and apply overrides on top
+   */
+  sample<T = any>(typeName: string, overrides: Partial<T> = {}): T {
+    const type = this.registry.get(typeName);
+    const value = this.sampleType(type, typeName, 0, new Set());
+    return { ...value, ...overrides } as T;
+  }
+
+  /**
+   * Build several samples of the same type
+   */
+  sampleMany<T = any>(typeName: string, count: number, overrides: Partial<T> = {}): T[] {
+    return Array.from({ length: count }, () => this.sample<T>(typeName, overrides));
+  }
+
+  /**
+   * Values of a string enum or string literal union, e.g. DocumentStatus
+   */
+  enumValues(typeName: string): string[] {
+    const type = this.registry.get(typeName);
+    const members = type.isUnion() ? type.types : [type];
+    return members
+      .filter(member => member.isStringLiteral())
+      .map(member => (member as ts.StringLiteralType).value);
+  }
+
+  hasType(typeName: string): boolean {
+    return this.registry.has(typeName);
+  }
+
+  private sampleType(type: ts.Type, name: string, depth: number, seen: Set<ts.Type>): any {
+    const checker = this.registry.checker;
+
+    if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return null;
+    }
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return type.value;
+    }
+    if (type.flags & ts.TypeFlags.BooleanLiteral) {
+      return (type as any).intrinsicName === 'true';
+    }
+    if (type.flags & ts.TypeFlags.Boolean) {
+      return faker.datatype.boolean();
+    }
+    if (type.isUnion()) {
+      const members = type.types.filter(member => !(member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Null)));
+      return this.sampleType(faker.helpers.arrayElement(members), name, depth, seen);
+    }
+    if (type.flags & ts.TypeFlags.StringLike) {
+      return this.sampleString(name);
+    }
+    if (type.flags & ts.TypeFlags.NumberLike) {
+      return this.sampleNumber(name);
+    }
+
+    if (checker.isArrayType(type)) {
+      if (depth >= MAX_DEPTH || seen.has(type)) {
+        return [];
+      }
+      const [elementType] = checker.getTypeArguments(type as ts.TypeReference);
+      return Array.from(
+        { length: faker.number.int({ min: 1, max: 2 }) },
+        () => this.sampleType(elementType, singular(name), depth + 1, seen)
+      );
+    }
+
+    if (type.flags & ts.TypeFlags.Object) {
+      if (type.getSymbol()?.getName() === 'Date') {
+        return faker.date.recent().toISOString();
+      }
+      if (depth >= MAX_DEPTH || seen.has(type)) {
+        return {};
+      }
+
+      const nextSeen = new Set(seen).add(type);
+      const result: Record<string, any> = {};
+      for (const property of checker.getPropertiesOfType(type)) {
+        const optional = (property.flags & ts.SymbolFlags.Optional) !== 0;
+        // Keep payloads compact: optional fields only on the top two levels
+        if (optional && depth > 1) {
+          continue;
+        }
+        const declaration = property.valueDeclaration ?? property.declarations?.[0];
+        const propertyType = declaration
+          ? checker.getTypeOfSymbolAtLocation(property, declaration)
+          : checker.getDeclaredTypeOfSymbol(property);
+        result[property.getName()] = this.sampleType(
+          optional ? checker.getNonNullableType(propertyType) : propertyType,
+          property.getName(),
+          depth + 1,
+          nextSeen
+        );
+      }
+      return result;
+    }
+
+    return null;
+  }
+
+  private sampleString(name: string): string {
+    const key = name.toLowerCase();
+
+    if (key === 'id' || key.endsWith('id') || key.endsWith('by') || key === 'owner') return faker.string.uuid();
+    if (key.includes('email')) return faker.internet.email().toLowerCase();
+    if (key.endsWith('at') || key.includes('date') || key.includes('time') || key === 'timestamp' || key.startsWith('last') || key === 'estimated') {
+      return faker.date.recent().toISOString();
+    }
+    if (key.includes('url') || key === 'endpoint' || key === 'location' || key === 'avatar') return faker.internet.url();
+    if (key.includes('token') || key === 'key' || key === 'secret') return faker.string.alphanumeric(32);
+    if (key === 'ip') return faker.internet.ipv4();
+    if (key === 'version') return faker.system.semver();
+    if (key === 'language') return 'en';
+    if (key.includes('gherkin')) return 'Feature: Sample\n  Scenario: Sample\n    Given a precondition\n    When an action\n    Then an outcome';
+    if (key === 'content' || key === 'code' || key === 'description' || key === 'summary' || key === 'excerpt' || key === 'message') {
+      return faker.lorem.sentence();
+    }
+    if (key.endsWith('name') || key === 'title') return faker.lorem.words(2);
+
+    return faker.lorem.word();
+  }
+
+  private sampleNumber(name: string): number {
+    const key = name.toLowerCase();
+
+    if (key.includes('percent') || key.includes('rate') || key.includes('usage') || key === 'coverage' || key === 'progress' || key === 'confidence' || key === 'score' || key === 'relevance') {
+      return faker.number.float({ min: 0, max: 100, fractionDigits: 2 });
+    }
+    if (key === 'page') return 1;
+    if (key === 'pagesize' || key === 'limit') return 20;
+    if (key === 'version') return 1;
+    if (key === 'size' || key.includes('bytes')) return faker.number.int({ min: 1000, max: 5000000 });
+
+    return faker.number.int({ min: 0, max: 100 });
+  }
+}
+
+function singular(name: string): string {
+  return name.endsWith('s') ? name.slice(0, -1) : name;
+}
+
+export const typeSampler = new TypeSampler();
+export default typeSampler;
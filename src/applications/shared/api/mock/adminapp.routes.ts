@@ -0,0 +1,362 @@
+/**
+ * Admin Mock Routes
+ *
+ * Routes served under /admin/api, mirroring AdminAPI. Users, configuration,
+ * backups and maintenance windows are stateful; backups and restores complete
+ * on the first status poll.
+ */
+
+import type { AuthResponse, HealthCheckResponse, ServiceHealth, UserProfile } from '../types/common.types';
+import type {
+  AdminUser,
+  BackupResponse,
+  LogExportResponse,
+  MaintenanceWindow,
+  RestoreResponse,
+  SystemConfig,
+  UserAction
+} from '../types/adminapp.types';
+import { seedManager } from '../../../../core/data/SeedManager';
+import {
+  MockContext,
+  MockRequest,
+  MockRoute,
+  badRequest,
+  created,
+  noContent,
+  notFound,
+  ok,
+  paginate,
+  resourceRoutes
+} from './MockRoute';
+
+const SERVICES = ['webapp', 'adminapp', 'mcp-server', 'database', 'chromadb'];
+
+const STATUS_BY_ACTION: Partial<Record<`${UserAction}`, AdminUser['status']>> = {
+  activate: 'active' as AdminUser['status'],
+  deactivate: 'inactive' as AdminUser['status'],
+  suspend: 'suspended' as AdminUser['status'],
+  delete: 'deleted' as AdminUser['status']
+};
+
+function healthReport({ sampler }: MockContext): HealthCheckResponse {
+  const services: ServiceHealth[] = SERVICES.map(name => sampler.sample<ServiceHealth>('ServiceHealth', {
+    name,
+    status: 'up',
+    lastCheck: new Date().toISOString()
+  }));
+
+  return sampler.sample<HealthCheckResponse>('HealthCheckResponse', {
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    services
+  });
+}
+
+/**
+ * Configurations are created per category on first access
+ */
+function getConfig(category: string, { store, sampler }: MockContext): SystemConfig | undefined {
+  if (!sampler.enumValues('ConfigCategory').includes(category)) {
+    return undefined;
+  }
+
+  return store.get<SystemConfig>('admin.config', category) ||
+    store.insert('admin.config', category, sampler.sample<SystemConfig>('SystemConfig', {
+      category: category as SystemConfig['category'],
+      settings: {},
+      version: 1
+    }));
+}
+
+function settleJob<T extends { status: string }>(
+  collection: string,
+  id: string,
+  request: MockRequest,
+  { store }: MockContext
+): ReturnType<typeof ok> {
+  const job = store.get<T>(collection, id);
+  if (!job) {
+    return notFound(request);
+  }
+  return ok(store.update(collection, id, { status: 'completed' } as Partial<T>));
+}
+
+export const adminappRoutes: MockRoute[] = [
+  // ============= Authentication =============
+  {
+    method: 'POST',
+    path: '/auth/login',
+    handler: (request, { store, sampler }) => {
+      if (!request.body.email || !request.body.password) {
+        return badRequest(request, 'email and password are required');
+      }
+      const response = sampler.sample<AuthResponse>('AuthResponse', {
+        token: seedManager.token(32),
+        expiresIn: 3600,
+        user: sampler.sample<UserProfile>('UserProfile', { email: request.body.email, role: 'admin' as UserProfile['role'] })
+      });
+      store.insert('admin.tokens', response.token, response.user);
+      return ok(response);
+    }
+  },
+  { method: 'GET', path: '/auth/verify', handler: () => ok({ valid: true }) },
+
+  // ============= User Management =============
+  {
+    method: 'POST',
+    path: '/users/:id/actions',
+    handler: (request, { store }) => {
+      const user = store.get<AdminUser>('admin.users', request.params.id);
+      if (!user) {
+        return notFound(request);
+      }
+
+      const action = request.body.action as `${UserAction}`;
+      const updates: Partial<AdminUser> = {};
+      if (STATUS_BY_ACTION[action]) updates.status = STATUS_BY_ACTION[action];
+      if (action === 'revoke_sessions') updates.sessions = [];
+      if (action === 'enable_2fa') updates.twoFactorEnabled = true;
+      if (action === 'disable_2fa') updates.twoFactorEnabled = false;
+      if (action === 'reset_password') updates.lastPasswordChange = new Date().toISOString();
+
+      return ok(store.update('admin.users', user.id, updates));
+    }
+  },
+  {
+    method: 'GET',
+    path: '/users/:id/sessions',
+    handler: (request, { store }) => {
+      const user = store.get<AdminUser>('admin.users', request.params.id);
+      return user ? ok(user.sessions) : notFound(request);
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/users/:id/sessions/:sessionId',
+    handler: (request, { store }) => {
+      const user = store.get<AdminUser>('admin.users', request.params.id);
+      if (!user || !user.sessions.some(session => session.id === request.params.sessionId)) {
+        return notFound(request);
+      }
+      store.update('admin.users', user.id, { sessions: user.sessions.filter(session => session.id !== request.params.sessionId) });
+      return noContent();
+    }
+  },
+  ...resourceRoutes({
+    path: '/users',
+    collection: 'admin.users',
+    type: 'AdminUser',
+    list: (users: AdminUser[], request) => {
+      const { items, ...page } = paginate(users, request);
+      return {
+        users: items,
+        ...page,
+        stats: {
+          total: users.length,
+          active: users.filter(user => user.status === 'active').length,
+          suspended: users.filter(user => user.status === 'suspended').length,
+          newThisMonth: users.length,
+          withApiKeys: users.filter(user => user.apiKeys?.length).length
+        }
+      };
+    }
+  }),
+
+  // ============= System Monitoring =============
+  {
+    method: 'GET',
+    path: '/system/metrics',
+    handler: (request, { sampler }) => ok(sampler.sample('SystemMetrics', { timestamp: new Date().toISOString() }))
+  },
+  { method: 'GET', path: '/system/health', handler: (request, context) => ok(healthReport(context)) },
+  { method: 'GET', path: '/system/status', handler: (request, context) => ok(healthReport(context)) },
+  {
+    method: 'POST',
+    path: '/system/services/:name/restart',
+    handler: request => (SERVICES.includes(request.params.name) ? noContent() : notFound(request))
+  },
+
+  // ============= Logs Management =============
+  {
+    method: 'POST',
+    path: '/logs/query',
+    handler: (request, { sampler }) => {
+      const logs = sampler.sampleMany('LogEntry', 5);
+      return ok(sampler.sample('LogsResponse', { logs, total: logs.length, page: 1, pageSize: request.body.pageSize || 20 }));
+    }
+  },
+  {
+    method: 'POST',
+    path: '/logs/stream',
+    handler: request => {
+      const token = seedManager.token(32);
+      return ok({ url: `ws://${request.headers.host}/admin/api/logs/stream/${token}`, token });
+    }
+  },
+  {
+    method: 'POST',
+    path: '/logs/export',
+    handler: (request, { store }) => {
+      const exportId = seedManager.uuid();
+      return created(store.insert<LogExportResponse>('admin.logExports', exportId, { exportId, status: 'preparing' }));
+    }
+  },
+  {
+    method: 'GET',
+    path: '/logs/export/:id',
+    handler: (request, { store, sampler }) => {
+      const job = store.get<LogExportResponse>('admin.logExports', request.params.id);
+      if (!job) {
+        return notFound(request);
+      }
+      return ok(store.update('admin.logExports', job.exportId, sampler.sample<LogExportResponse>('LogExportResponse', {
+        exportId: job.exportId,
+        status: 'ready'
+      })));
+    }
+  },
+  { method: 'DELETE', path: '/logs', handler: () => ok({ deleted: 0 }) },
+
+  // ============= Configuration Management =============
+  {
+    method: 'GET',
+    path: '/config',
+    handler: (request, context) =>
+      ok(context.sampler.enumValues('ConfigCategory').map(category => getConfig(category, context)))
+  },
+  {
+    method: 'POST',
+    path: '/config/validate',
+    handler: (request, { sampler }) => {
+      const valid = sampler.enumValues('ConfigCategory').includes(request.body.category);
+      return ok({
+        valid,
+        errors: valid ? [] : [{ field: 'category', message: `Unknown category '${request.body.category}'`, code: 'INVALID_CATEGORY' }],
+        warnings: []
+      });
+    }
+  },
+  {
+    method: 'GET',
+    path: '/config/:category',
+    handler: (request, context) => {
+      const config = getConfig(request.params.category, context);
+      return config ? ok(config) : notFound(request);
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/config/:category',
+    handler: (request, context) => {
+      const config = getConfig(request.params.category, context);
+      if (!config) {
+        return notFound(request);
+      }
+      return ok(context.store.update<SystemConfig>('admin.config', config.category, {
+        settings: { ...config.settings, ...request.body.settings },
+        version: config.version + 1,
+        updatedAt: new Date().toISOString()
+      }));
+    }
+  },
+  {
+    method: 'POST',
+    path: '/config/:category/reset',
+    handler: (request, context) => {
+      context.store.remove('admin.config', request.params.category);
+      const config = getConfig(request.params.category, context);
+      return config ? ok(config) : notFound(request);
+    }
+  },
+
+  // ============= Audit Trail =============
+  {
+    method: 'POST',
+    path: '/audit/query',
+    handler: (request, { sampler }) => {
+      const logs = sampler.sampleMany('AuditLog', 3);
+      return ok({ logs, total: logs.length });
+    }
+  },
+  {
+    method: 'GET',
+    path: '/audit/:id',
+    handler: (request, { sampler }) => ok(sampler.sample('AuditLog', { id: request.params.id }))
+  },
+
+  // ============= Backup & Restore =============
+  {
+    method: 'POST',
+    path: '/backup',
+    handler: (request, { store }) => {
+      const backupId = seedManager.uuid();
+      return created(store.insert<BackupResponse>('admin.backups', backupId, {
+        backupId,
+        status: 'queued' as BackupResponse['status']
+      }));
+    }
+  },
+  { method: 'GET', path: '/backup', handler: (request, { store }) => ok(store.list('admin.backups')) },
+  {
+    method: 'GET',
+    path: '/backup/:id',
+    handler: (request, context) => settleJob<BackupResponse>('admin.backups', request.params.id, request, context)
+  },
+  {
+    method: 'POST',
+    path: '/restore',
+    handler: (request, { store }) => {
+      if (!store.get('admin.backups', request.body.backupId)) {
+        return notFound(request, `Backup ${request.body.backupId} not found`);
+      }
+      const restoreId = seedManager.uuid();
+      return created(store.insert<RestoreResponse>('admin.restores', restoreId, {
+        restoreId,
+        status: 'validating' as RestoreResponse['status'],
+        progress: 0
+      }));
+    }
+  },
+  {
+    method: 'GET',
+    path: '/restore/:id',
+    handler: (request, context) => settleJob<RestoreResponse>('admin.restores', request.params.id, request, context)
+  },
+
+  // ============= Analytics =============
+  { method: 'POST', path: '/analytics', handler: (request, { sampler }) => ok(sampler.sample('AnalyticsResponse')) },
+  {
+    method: 'GET',
+    path: '/analytics/dashboard',
+    handler: (request, context) => ok({
+      users: { total: context.store.list('admin.users').length },
+      system: context.sampler.sample('SystemMetrics', { timestamp: new Date().toISOString() }),
+      activity: context.sampler.sample('AnalyticsResponse'),
+      alerts: []
+    })
+  },
+
+  // ============= Maintenance Mode =============
+  { method: 'POST', path: '/maintenance/enable', handler: () => noContent() },
+  { method: 'POST', path: '/maintenance/disable', handler: () => noContent() },
+  {
+    method: 'POST',
+    path: '/maintenance',
+    handler: (request, { store, sampler }) => {
+      const { duration, notifyUsers, ...window } = request.body;
+      const startTime = window.startTime || new Date().toISOString();
+      const maintenance = sampler.sample<MaintenanceWindow>('MaintenanceWindow', {
+        ...window,
+        id: seedManager.uuid(),
+        startTime,
+        // Duration is in minutes
+        endTime: new Date(new Date(startTime).getTime() + (duration || 60) * 60000).toISOString(),
+        status: 'scheduled' as MaintenanceWindow['status'],
+        createdAt: new Date().toISOString()
+      });
+      return created(store.insert('admin.maintenance', maintenance.id, maintenance));
+    }
+  },
+  ...resourceRoutes({ path: '/maintenance', collection: 'admin.maintenance', type: 'MaintenanceWindow' })
+];
@@ -0,0 +1,289 @@
+/**
+ * MCP Platform Mock Routes
+ *
+ * Routes served under /mcp/api, mirroring McpAPI. Sessions, executions,
+ * knowledge entries and webhooks are stateful; the tool and model catalogs are
+ * fixed so tests can look them up by name.
+ */
+
+import type {
+  AIModel,
+  KnowledgeEntry,
+  MCPSession,
+  MCPTool,
+  SessionResponse,
+  ToolExecutionResponse
+} from '../types/mcp-platform.types';
+import { seedManager } from '../../../../core/data/SeedManager';
+import { MockContext, MockRequest, MockRoute, created, noContent, notFound, ok, resourceRoutes } from './MockRoute';
+
+const TOOL_CATALOG: Array<Pick<MCPTool, 'name'> & { category: `${MCPTool['category']}` }> = [
+  { name: 'search_knowledge', category: 'search' },
+  { name: 'generate_gherkin', category: 'generation' },
+  { name: 'gherkin_to_playwright', category: 'transformation' },
+  { name: 'analyze_document', category: 'analysis' },
+  { name: 'validate_feature', category: 'validation' }
+];
+
+const MODEL_CATALOG: Array<Pick<AIModel, 'id'> & { provider: `${AIModel['provider']}`; type: `${AIModel['type']}` }> = [
+  { id: 'gpt-4', provider: 'openai', type: 'chat' },
+  { id: 'claude-3-sonnet', provider: 'anthropic', type: 'chat' },
+  { id: 'text-embedding-3-small', provider: 'openai', type: 'embedding' }
+];
+
+function tools({ store, sampler }: MockContext): MCPTool[] {
+  if (!store.list('mcp.tools').length) {
+    for (const tool of TOOL_CATALOG) {
+      store.insert('mcp.tools', tool.name, sampler.sample<MCPTool>('MCPTool', {
+        name: tool.name,
+        category: tool.category as MCPTool['category'],
+        enabled: true
+      }));
+    }
+  }
+  return store.list<MCPTool>('mcp.tools');
+}
+
+function models({ store, sampler }: MockContext): AIModel[] {
+  if (!store.list('mcp.models').length) {
+    for (const model of MODEL_CATALOG) {
+      store.insert('mcp.models', model.id, sampler.sample<AIModel>('AIModel', {
+        id: model.id,
+        name: model.id,
+        provider: model.provider as AIModel['provider'],
+        type: model.type as AIModel['type'],
+        status: 'available' as AIModel['status']
+      }));
+    }
+  }
+  return store.list<AIModel>('mcp.models');
+}
+
+function openSession(session: MCPSession, ttl: number, context: MockContext): SessionResponse {
+  // McpAPI reads the session id back from the token prefix
+  const token = `${session.id}.${seedManager.token(24)}`;
+  context.store.insert('mcp.sessions', session.id, session);
+  return {
+    session,
+    token,
+    expiresAt: new Date(Date.now() + ttl * 1000).toISOString(),
+    availableTools: tools(context).filter(tool => session.tools.includes(tool.name))
+  };
+}
+
+function findSession(request: MockRequest, { store }: MockContext): MCPSession | undefined {
+  return store.get<MCPSession>('mcp.sessions', request.params.id);
+}
+
+export const mcpPlatformRoutes: MockRoute[] = [
+  // ============= Session Management =============
+  {
+    method: 'POST',
+    path: '/sessions',
+    handler: (request, context) => {
+      const session = context.sampler.sample<MCPSession>('MCPSession', {
+        id: seedManager.uuid(),
+        startTime: new Date().toISOString(),
+        endTime: undefined,
+        status: 'active' as MCPSession['status'],
+        tools: request.body.tools || tools(context).map(tool => tool.name),
+        executions: 0,
+        totalTokens: 0,
+        metadata: request.body.metadata || {}
+      });
+      return created(openSession(session, request.body.ttl || 3600, context));
+    }
+  },
+  {
+    method: 'GET',
+    path: '/sessions/:id',
+    handler: (request, context) => {
+      const session = findSession(request, context);
+      return session ? ok(session) : notFound(request);
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/sessions/:id',
+    handler: (request, context) => {
+      const session = findSession(request, context);
+      if (!session) {
+        return notFound(request);
+      }
+      context.store.update('mcp.sessions', session.id, { status: 'terminated', endTime: new Date().toISOString() });
+      return noContent();
+    }
+  },
+  {
+    method: 'POST',
+    path: '/sessions/:id/refresh',
+    handler: (request, context) => {
+      const session = findSession(request, context);
+      return session ? ok(openSession(session, 3600, context)) : notFound(request);
+    }
+  },
+
+  // ============= Tool Management =============
+  {
+    method: 'GET',
+    path: '/tools',
+    handler: (request, context) =>
+      ok(tools(context).filter(tool => !request.query.category || tool.category === request.query.category))
+  },
+  {
+    method: 'POST',
+    path: '/tools/execute',
+    handler: (request, context) => {
+      const tool = tools(context).find(candidate => candidate.name === request.body.tool);
+      if (!tool) {
+        return notFound(request, `Tool ${request.body.tool} not found`);
+      }
+
+      const execution = context.sampler.sample<ToolExecutionResponse>('ToolExecutionResponse', {
+        executionId: seedManager.uuid(),
+        tool: tool.name,
+        status: (request.body.options?.async ? 'running' : 'completed') as ToolExecutionResponse['status'],
+        result: { tool: tool.name, parameters: request.body.parameters || {} },
+        error: undefined
+      });
+      context.store.insert('mcp.executions', execution.executionId, execution);
+
+      const sessionId = request.body.context?.sessionId;
+      const session = sessionId && context.store.get<MCPSession>('mcp.sessions', sessionId);
+      if (session) {
+        context.store.update('mcp.sessions', session.id, { executions: session.executions + 1 });
+      }
+
+      return ok(execution);
+    }
+  },
+  {
+    method: 'GET',
+    path: '/tools/:name',
+    handler: (request, context) => {
+      const tool = tools(context).find(candidate => candidate.name === request.params.name);
+      return tool ? ok(tool) : notFound(request);
+    }
+  },
+  {
+    method: 'GET',
+    path: '/executions',
+    handler: (request, { store }) => {
+      const { tool, status, limit } = request.query;
+      const executions = store.list<ToolExecutionResponse>('mcp.executions', execution =>
+        (!tool || execution.tool === tool) && (!status || execution.status === status)
+      );
+      return ok(executions.slice(0, parseInt(limit || '50', 10)));
+    }
+  },
+  {
+    method: 'GET',
+    path: '/executions/:id',
+    handler: (request, { store }) => {
+      const execution = store.get<ToolExecutionResponse>('mcp.executions', request.params.id);
+      if (!execution) {
+        return notFound(request);
+      }
+      // Async executions finish on the first poll
+      return ok(execution.status === 'running'
+        ? store.update('mcp.executions', execution.executionId, { status: 'completed' })
+        : execution);
+    }
+  },
+  {
+    method: 'POST',
+    path: '/executions/:id/cancel',
+    handler: (request, { store }) =>
+      store.update('mcp.executions', request.params.id, { status: 'cancelled' }) ? noContent() : notFound(request)
+  },
+
+  // ============= Knowledge Base =============
+  {
+    method: 'POST',
+    path: '/knowledge/search',
+    handler: (request, { store }) => {
+      const query = String(request.body.query || '').toLowerCase();
+      const types: string[] | undefined = request.body.type;
+      const frameworks: string[] | undefined = request.body.filters?.frameworks;
+
+      const results = store.list<KnowledgeEntry>('mcp.knowledge')
+        .filter(entry => !types || types.includes(entry.type))
+        .filter(entry => !frameworks || frameworks.includes(entry.metadata?.framework || ''))
+        .filter(entry =>
+          `${entry.title} ${entry.content}`.toLowerCase().includes(query) ||
+          (entry.type === 'best_practice' && query.includes('best practice'))
+        )
+        .slice(0, request.body.limit || 10)
+        .map(entry => ({ entry, score: 1 }));
+
+      return ok({ results, total: results.length, query: { original: request.body.query } });
+    }
+  },
+  ...resourceRoutes({
+    path: '/knowledge',
+    collection: 'mcp.knowledge',
+    type: 'KnowledgeEntry',
+    prepare: (entry: KnowledgeEntry) => ({ ...entry, version: 1 })
+  }),
+
+  // ============= Test Generation =============
+  { method: 'POST', path: '/generate/tests', handler: (request, { sampler }) => ok(sampler.sample('TestGenerationResponse')) },
+  { method: 'POST', path: '/generate/playwright', handler: (request, { sampler }) => ok(sampler.sample('PlaywrightGenerationResponse')) },
+  {
+    method: 'POST',
+    path: '/generate/validate',
+    handler: request => {
+      const valid = typeof request.body.code === 'string' && request.body.code.trim().length > 0;
+      return ok({ valid, errors: valid ? [] : ['Code is empty'], warnings: [] });
+    }
+  },
+
+  // ============= Model Management =============
+  {
+    method: 'GET',
+    path: '/models',
+    handler: (request, context) => ok(models(context).filter(model => !request.query.type || model.type === request.query.type))
+  },
+  {
+    method: 'GET',
+    path: '/models/:id',
+    handler: (request, context) => {
+      const model = models(context).find(candidate => candidate.id === request.params.id);
+      return model ? ok(model) : notFound(request);
+    }
+  },
+  {
+    method: 'GET',
+    path: '/models/:id/availability',
+    handler: (request, context) => {
+      const model = models(context).find(candidate => candidate.id === request.params.id);
+      return ok(model
+        ? { available: model.status === 'available' }
+        : { available: false, reason: 'Unknown model', alternatives: models(context).map(candidate => candidate.id) });
+    }
+  },
+
+  // ============= Webhooks =============
+  {
+    method: 'POST',
+    path: '/webhooks/:id/test',
+    handler: (request, { store }) =>
+      store.get('mcp.webhooks', request.params.id) ? ok({ success: true, response: { status: 200 } }) : notFound(request)
+  },
+  ...resourceRoutes({ path: '/webhooks', collection: 'mcp.webhooks', type: 'WebhookConfig' }),
+
+  // ============= Usage & Analytics =============
+  { method: 'GET', path: '/usage/stats', handler: (request, { sampler }) => ok(sampler.sample('UsageStats')) },
+
+  // ============= Health & Status =============
+  {
+    method: 'GET',
+    path: '/health',
+    handler: (request, context) => ok({
+      status: 'healthy',
+      version: '1.0.0',
+      tools: tools(context).length,
+      models: models(context).length
+    })
+  }
+];
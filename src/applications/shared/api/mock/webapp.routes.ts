@@ -0,0 +1,412 @@
+/**
+ * Webapp Mock Routes
+ *
+ * Routes served under /webapp/api, mirroring WebappAPI. Documents, projects,
+ * features and chat history are stateful; processing and generation complete
+ * on the first status poll.
+ */
+
+import type { AuthResponse, Document, UserProfile } from '../types/common.types';
+import type {
+  Activity,
+  ActivityType,
+  ChatResponse,
+  ExportResponse,
+  FeatureFile,
+  FeatureGenerationWebappResponse,
+  ImportResponse,
+  ImportSummary,
+  Project,
+  SearchResult,
+  UserSettings
+} from '../types/webapp.types';
+import { seedManager } from '../../../../core/data/SeedManager';
+import {
+  MockContext,
+  MockRequest,
+  MockRoute,
+  badRequest,
+  created,
+  noContent,
+  notFound,
+  ok,
+  paginate,
+  resourceRoutes
+} from './MockRoute';
+
+/**
+ * Resolve the user behind the bearer token, falling back to a default user
+ */
+function currentUser(request: MockRequest, { store, sampler }: MockContext): UserProfile {
+  const token = (request.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  const user = token ? store.get<UserProfile>('webapp.tokens', token) : undefined;
+  if (user) {
+    return user;
+  }
+
+  return store.get<UserProfile>('webapp.tokens', 'default') ||
+    store.insert('webapp.tokens', 'default', sampler.sample<UserProfile>('UserProfile', { email: 'test@example.com' }));
+}
+
+function issueToken(user: UserProfile, { store, sampler }: MockContext): AuthResponse {
+  const response = sampler.sample<AuthResponse>('AuthResponse', {
+    token: seedManager.token(32),
+    refreshToken: seedManager.token(32),
+    expiresIn: 3600,
+    user
+  });
+  store.insert('webapp.tokens', response.token, user);
+  return response;
+}
+
+function recordActivity(request: MockRequest, context: MockContext, type: `${ActivityType}`, target: Activity['target']): void {
+  const activity = context.sampler.sample<Activity>('Activity', {
+    id: seedManager.uuid(),
+    type: type as ActivityType,
+    actor: currentUser(request, context),
+    target,
+    timestamp: new Date().toISOString()
+  });
+  context.store.insert('webapp.activity', activity.id, activity);
+}
+
+/**
+ * Documents report `processing` until first read, then complete
+ */
+function settleDocument(document: Document, request: MockRequest, context: MockContext): Document {
+  if (document.status !== 'processing') {
+    return document;
+  }
+
+  recordActivity(request, context, 'document_processed', { type: 'document', id: document.id, name: document.name });
+  return context.store.update<Document>('webapp.documents', document.id, {
+    status: 'processed' as Document['status'],
+    processedAt: new Date().toISOString()
+  })!;
+}
+
+export const webappRoutes: MockRoute[] = [
+  // ============= Authentication =============
+  {
+    method: 'POST',
+    path: '/auth/login',
+    handler: (request, context) => {
+      if (!request.body.email || !request.body.password) {
+        return badRequest(request, 'email and password are required');
+      }
+      const user = context.sampler.sample<UserProfile>('UserProfile', {
+        email: request.body.email,
+        lastLogin: new Date().toISOString()
+      });
+      return ok(issueToken(user, context));
+    }
+  },
+  { method: 'POST', path: '/auth/logout', handler: () => noContent() },
+  {
+    method: 'POST',
+    path: '/auth/refresh',
+    handler: (request, context) => {
+      const user = context.store.get<UserProfile>('webapp.tokens', request.body.refreshToken) || currentUser(request, context);
+      return ok(issueToken(user, context));
+    }
+  },
+  { method: 'GET', path: '/auth/me', handler: (request, context) => ok(currentUser(request, context)) },
+
+  // ============= Documents =============
+  {
+    method: 'POST',
+    path: '/documents/upload',
+    handler: (request, context) => {
+      const { body } = request;
+      const document = context.sampler.sample<Document>('Document', {
+        id: seedManager.uuid(),
+        name: body.name || 'document.pdf',
+        status: 'processing' as Document['status'],
+        uploadedBy: currentUser(request, context).id,
+        uploadedAt: new Date().toISOString(),
+        processedAt: undefined,
+        tags: body.tags ? JSON.parse(body.tags) : []
+      });
+      if (body.file?.size) {
+        document.size = body.file.size;
+      }
+      context.store.insert('webapp.documents', document.id, { ...document, projectId: body.projectId });
+      recordActivity(request, context, 'document_uploaded', { type: 'document', id: document.id, name: document.name });
+      return created({ document, processingStarted: true });
+    }
+  },
+  {
+    method: 'GET',
+    path: '/documents/:id',
+    handler: (request, context) => {
+      const document = context.store.get<Document>('webapp.documents', request.params.id);
+      return document ? ok(settleDocument(document, request, context)) : notFound(request);
+    }
+  },
+  {
+    method: 'GET',
+    path: '/documents/:id/status',
+    handler: (request, context) => {
+      const document = context.store.get<Document>('webapp.documents', request.params.id);
+      return document ? ok({ status: settleDocument(document, request, context).status }) : notFound(request);
+    }
+  },
+  ...resourceRoutes({
+    path: '/documents',
+    collection: 'webapp.documents',
+    type: 'Document',
+    list: (documents: any[], request) => {
+      const { status, projectId, uploadedBy } = request.query;
+      const filtered = documents.filter(doc =>
+        (!status || status.split(',').includes(doc.status)) &&
+        (!projectId || doc.projectId === projectId) &&
+        (!uploadedBy || doc.uploadedBy === uploadedBy)
+      );
+      const { items, ...page } = paginate(filtered, request);
+      return { documents: items, ...page };
+    }
+  }),
+
+  // ============= Feature Generation =============
+  {
+    method: 'POST',
+    path: '/features/generate',
+    handler: (request, context) => {
+      const project = context.store.get<Project>('webapp.projects', request.body.projectId) ||
+        context.sampler.sample<Project>('Project', { id: request.body.projectId });
+      const generation = context.sampler.sample<FeatureGenerationWebappResponse>('FeatureGenerationWebappResponse', {
+        id: seedManager.uuid(),
+        status: 'queued' as FeatureGenerationWebappResponse['status'],
+        project,
+        savedFeatureIds: [],
+        generatedAt: new Date().toISOString()
+      });
+      context.store.insert('webapp.generations', generation.id, generation);
+      context.store.insert('webapp.generationRequests', generation.id, request.body);
+      return created(generation);
+    }
+  },
+  {
+    method: 'GET',
+    path: '/features/generation/:id',
+    handler: (request, context) => {
+      const generation = context.store.get('webapp.generations', request.params.id);
+      if (!generation) {
+        return notFound(request);
+      }
+      if (generation.status !== 'queued') {
+        return ok(generation);
+      }
+
+      const user = currentUser(request, context);
+      const savedFeatureIds = generation.features.map((feature: any) => {
+        const file = context.sampler.sample<FeatureFile>('FeatureFile', {
+          id: seedManager.uuid(),
+          name: `${feature.name}.feature`,
+          content: feature.gherkinContent,
+          projectId: generation.project.id,
+          documentIds: context.store.get('webapp.generationRequests', generation.id)?.documentIds || [],
+          createdBy: user.id,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          version: 1
+        });
+        context.store.insert('webapp.features', file.id, file);
+        return file.id;
+      });
+
+      recordActivity(request, context, 'feature_generated', { type: 'project', id: generation.project.id, name: generation.project.name });
+      return ok(context.store.update('webapp.generations', generation.id, { status: 'completed', savedFeatureIds }));
+    }
+  },
+  {
+    method: 'GET',
+    path: '/features',
+    handler: (request, { store }) =>
+      ok(store.list<FeatureFile>('webapp.features', file => !request.query.projectId || file.projectId === request.query.projectId))
+  },
+  {
+    method: 'PUT',
+    path: '/features/:id',
+    handler: (request, context) => {
+      const file = context.store.get<FeatureFile>('webapp.features', request.params.id);
+      if (!file) {
+        return notFound(request);
+      }
+      recordActivity(request, context, 'feature_edited', { type: 'feature', id: file.id, name: file.name });
+      return ok(context.store.update<FeatureFile>('webapp.features', file.id, {
+        content: request.body.content,
+        version: file.version + 1,
+        updatedAt: new Date().toISOString()
+      }));
+    }
+  },
+  ...resourceRoutes({ path: '/features', collection: 'webapp.features', type: 'FeatureFile' }),
+
+  // ============= Projects =============
+  ...resourceRoutes({
+    path: '/projects',
+    collection: 'webapp.projects',
+    type: 'Project',
+    prepare: (project: Project, request, context) => {
+      const owner = currentUser(request, context).id;
+      return {
+        ...project,
+        owner,
+        members: request.body.members || [{ userId: owner, role: 'owner', joinedAt: project.createdAt }]
+      };
+    }
+  }),
+
+  // ============= Chat/Q&A =============
+  {
+    method: 'POST',
+    path: '/chat',
+    handler: (request, context) => {
+      const response = context.sampler.sample<ChatResponse>('ChatResponse', {
+        relatedDocuments: context.store.list<Document>('webapp.documents').slice(0, 3)
+      });
+      response.message = { ...response.message, id: seedManager.uuid(), role: 'assistant', timestamp: new Date().toISOString() };
+      context.store.insert('webapp.chat', response.message.id, { ...response, projectId: request.body.context?.projectId });
+      return ok(response);
+    }
+  },
+  {
+    method: 'GET',
+    path: '/chat/history',
+    handler: (request, { store }) => {
+      const history = store.list('webapp.chat', entry => !request.query.projectId || entry.projectId === request.query.projectId);
+      return ok(history.slice(-parseInt(request.query.limit || '50', 10)));
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/chat/history',
+    handler: (request, { store }) => {
+      for (const entry of store.list('webapp.chat')) {
+        if (!request.query.projectId || entry.projectId === request.query.projectId) {
+          store.remove('webapp.chat', entry.message.id);
+        }
+      }
+      return noContent();
+    }
+  },
+
+  // ============= Search =============
+  {
+    method: 'POST',
+    path: '/search',
+    handler: (request, { store }) => {
+      const query = String(request.body.query || '').toLowerCase();
+      const types: string[] = request.body.types || ['document', 'feature', 'project'];
+      const candidates: Array<{ type: SearchResult['type']; collection: string }> = [
+        { type: 'document', collection: 'webapp.documents' },
+        { type: 'feature', collection: 'webapp.features' },
+        { type: 'project', collection: 'webapp.projects' }
+      ];
+
+      const results: SearchResult[] = candidates
+        .filter(candidate => types.includes(candidate.type))
+        .flatMap(candidate => store.list(candidate.collection).map(item => ({ candidate, item })))
+        .filter(({ item }) => item.name.toLowerCase().includes(query))
+        .map(({ candidate, item }) => ({
+          type: candidate.type,
+          id: item.id,
+          title: item.name,
+          excerpt: item.description || item.content || item.name,
+          score: 1,
+          metadata: {}
+        }));
+
+      const offset = request.body.offset || 0;
+      return ok({ results: results.slice(offset, offset + (request.body.limit || 20)), total: results.length });
+    }
+  },
+  {
+    method: 'GET',
+    path: '/search/suggestions',
+    handler: (request, { store }) => {
+      const query = (request.query.query || '').toLowerCase();
+      const names = ['webapp.documents', 'webapp.features', 'webapp.projects']
+        .flatMap(collection => store.list(collection).map(item => item.name as string));
+      return ok(names.filter(name => name.toLowerCase().startsWith(query)).slice(0, 10));
+    }
+  },
+
+  // ============= Settings =============
+  {
+    method: 'GET',
+    path: '/settings',
+    handler: (request, { store, sampler }) =>
+      ok(store.get('webapp.settings', 'current') || store.insert('webapp.settings', 'current', sampler.sample<UserSettings>('UserSettings')))
+  },
+  {
+    method: 'PATCH',
+    path: '/settings',
+    handler: (request, context) => {
+      const current = context.store.get('webapp.settings', 'current') || context.sampler.sample<UserSettings>('UserSettings');
+      recordActivity(request, context, 'settings_updated', { type: 'settings', id: 'current', name: 'User settings' });
+      return ok(context.store.insert('webapp.settings', 'current', { ...current, ...request.body }));
+    }
+  },
+
+  // ============= Export/Import =============
+  {
+    method: 'POST',
+    path: '/export',
+    handler: (request, { store }) => {
+      const exportId = seedManager.uuid();
+      return created(store.insert<ExportResponse>('webapp.exports', exportId, { exportId, status: 'preparing' }));
+    }
+  },
+  {
+    method: 'GET',
+    path: '/export/:id',
+    handler: (request, { store, sampler }) => {
+      const job = store.get<ExportResponse>('webapp.exports', request.params.id);
+      if (!job) {
+        return notFound(request);
+      }
+      return ok(store.update<ExportResponse>('webapp.exports', job.exportId, sampler.sample<ExportResponse>('ExportResponse', {
+        exportId: job.exportId,
+        status: 'ready'
+      })));
+    }
+  },
+  {
+    method: 'POST',
+    path: '/import',
+    handler: (request, { store }) => {
+      const importId = seedManager.uuid();
+      return created(store.insert<ImportResponse>('webapp.imports', importId, { importId, status: 'processing' }));
+    }
+  },
+  {
+    method: 'GET',
+    path: '/import/:id',
+    handler: (request, { store, sampler }) => {
+      const job = store.get<ImportResponse>('webapp.imports', request.params.id);
+      if (!job) {
+        return notFound(request);
+      }
+      return ok(store.update<ImportResponse>('webapp.imports', job.importId, {
+        status: 'completed',
+        summary: sampler.sample<ImportSummary>('ImportSummary', { failed: 0 }),
+        errors: []
+      }));
+    }
+  },
+
+  // ============= Activity =============
+  {
+    method: 'GET',
+    path: '/activity',
+    handler: (request, { store }) => {
+      const limit = parseInt(request.query.limit || '20', 10);
+      return ok(store.list<Activity>('webapp.activity').reverse().slice(0, limit));
+    }
+  },
+
+  // ============= Health Check =============
+  { method: 'GET', path: '/health', handler: () => ok({ status: 'healthy', timestamp: new Date().toISOString() }) }
+];
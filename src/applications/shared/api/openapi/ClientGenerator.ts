@@ -0,0 +1,395 @@
+/**
+ * OpenAPI Client Generator
+ *
+ * Turns an OpenAPI 3 document into a `BaseAPI` subclass plus a types module,
+ * laid out like the hand-written clients: one async method per operation that
+ * returns the response body, grouped by tag.
+ *
+ * Method signatures follow the operation: path parameters first, then the
+ * request body, then an object of query parameters, then `APIRequestOptions`.
+ */
+
+import * as path from 'path';
+import { OpenAPIDocument, OpenAPISchema, SpecOperation, listOperations, resolveRef } from './OpenAPISpec';
+
+export interface ClientGeneratorOptions {
+  /** Client name without suffix, e.g. `Billing` -> `BillingAPI` */
+  name: string;
+  /** Directory the files are written to */
+  outputDir: string;
+  /** Spec file path, recorded in the generated headers */
+  specFile: string;
+  /** Environment variable overriding the base URL */
+  baseURLEnv?: string;
+  /** Location of BaseAPI.ts */
+  baseAPIPath?: string;
+}
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+interface MethodParameter {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+const DEFAULT_BASE_API = path.resolve(__dirname, '..', 'BaseAPI.ts');
+
+// Members of BaseAPI that a generated method would override
+const BASE_API_MEMBERS = new Set([
+  'constructor', 'request', 'config', 'baseURL', 'defaultHeaders', 'authToken', 'contracts', 'contractMode',
+  'setAuthToken', 'clearAuthToken', 'setContractMode', 'buildURL', 'mergeHeaders', 'send',
+  'get', 'post', 'put', 'patch', 'delete', 'handleResponse', 'validateContract', 'waitForCondition',
+  'validateStatus', 'validateResponseContains', 'validateResponseTime', 'extractValue'
+]);
+
+const RESERVED_WORDS = new Set(['delete', 'default', 'function', 'class', 'new', 'in', 'for', 'var', 'const', 'let', 'return', 'import', 'export', 'type', 'interface']);
+
+export class ClientGenerator {
+  private namedTypes = new Map<string, string>();
+
+  constructor(private readonly spec: OpenAPIDocument, private readonly options: ClientGeneratorOptions) {}
+
+  /**
+   * Build the client and types modules
+   */
+  generate(): GeneratedFile[] {
+    this.namedTypes.clear();
+
+    for (const [name, schema] of Object.entries(this.spec.components?.schemas || {})) {
+      this.namedTypes.set(typeName(name), this.declaration(typeName(name), schema));
+    }
+
+    const taken = new Set<string>();
+    const methods = listOperations(this.spec).map(operation => {
+      const name = methodName(operation, taken);
+      taken.add(name);
+      return { operation, source: this.method(operation, name) };
+    });
+    const typesModule = `${kebabCase(this.options.name)}.types`;
+
+    return [
+      { path: path.join(this.options.outputDir, `${typesModule}.ts`), content: this.typesSource() },
+      {
+        path: path.join(this.options.outputDir, `${this.className}.ts`),
+        content: this.clientSource(typesModule, methods)
+      }
+    ];
+  }
+
+  get className(): string {
+    return `${typeName(this.options.name)}API`;
+  }
+
+  private get origin(): string {
+    const { title, version } = this.spec.info;
+    return `Generated from ${path.basename(this.options.specFile)} (${title} ${version}) by \`npm run api:generate\` - do not edit by hand.`;
+  }
+
+  private typesSource(): string {
+    return [
+      '/**',
+      ` * ${typeName(this.options.name)} API Types`,
+      ' *',
+      ` * ${this.origin}`,
+      ' */',
+      '',
+      [...this.namedTypes.values()].join('\n\n'),
+      ''
+    ].join('\n');
+  }
+
+  private clientSource(typesModule: string, methods: Array<{ operation: SpecOperation; source: string }>): string {
+    const baseAPIPath = this.options.baseAPIPath || DEFAULT_BASE_API;
+    let baseAPIImport = path.relative(this.options.outputDir, baseAPIPath).replace(/\\/g, '/').replace(/\.ts$/, '');
+    if (!baseAPIImport.startsWith('.')) {
+      baseAPIImport = `./${baseAPIImport}`;
+    }
+
+    const usedTypes = [...this.namedTypes.keys()].filter(name =>
+      methods.some(method => new RegExp(`\\b${name}\\b`).test(method.source))
+    );
+    const defaultURL = this.spec.servers?.[0]?.url || 'http://localhost:3000/api';
+    const baseURLEnv = this.options.baseURLEnv || `${constantCase(this.options.name)}_API_URL`;
+
+    const sections: string[] = [];
+    let currentTag: string | undefined;
+    for (const { operation, source } of methods) {
+      const tag = operation.tags[0] || 'General';
+      if (tag !== currentTag) {
+        sections.push(`  // ============= ${tag} =============\n`);
+        currentTag = tag;
+      }
+      sections.push(source);
+    }
+
+    return [
+      '/**',
+      ` * ${typeName(this.options.name)} API Class`,
+      ' *',
+      ` * ${this.origin}`,
+      ' */',
+      '',
+      "import { APIRequestContext } from '@playwright/test';",
+      `import { APIRequestOptions, BaseAPI } from '${baseAPIImport}';`,
+      ...(usedTypes.length ? [`import {\n${usedTypes.map(name => `  ${name}`).join(',\n')}\n} from './${typesModule}';`] : []),
+      '',
+      `export class ${this.className} extends BaseAPI {`,
+      '  constructor(request: APIRequestContext, config?: {',
+      '    baseURL?: string;',
+      '    authToken?: string;',
+      '  }) {',
+      '    super(request, {',
+      `      baseURL: config?.baseURL || process.env.${baseURLEnv} || '${defaultURL}',`,
+      '      defaultHeaders: {',
+      "        'Content-Type': 'application/json',",
+      "        'Accept': 'application/json'",
+      '      },',
+      '      authToken: config?.authToken',
+      '    });',
+      '  }',
+      '',
+      sections.join('\n').trimEnd(),
+      '}',
+      ''
+    ].join('\n');
+  }
+
+  private method(operation: SpecOperation, methodName: string): string {
+    const parameters: MethodParameter[] = [];
+    const requestOptions: string[] = ['...options'];
+
+    for (const parameter of operation.parameters.filter(candidate => candidate.in === 'path')) {
+      parameters.push({ name: identifier(parameter.name), type: this.typeOf(parameter.schema || { type: 'string' }), optional: false });
+    }
+
+    const body = this.requestBody(operation);
+    if (body) {
+      parameters.push({ name: 'data', type: body.type, optional: !body.required });
+      requestOptions.push(body.option === 'data' ? 'data' : `${body.option}: data`);
+    }
+
+    const query = operation.parameters.filter(candidate => candidate.in === 'query');
+    if (query.length) {
+      const fields = query.map(parameter =>
+        `${propertyName(parameter.name)}${parameter.required ? '' : '?'}: ${this.typeOf(parameter.schema || { type: 'string' })}`
+      );
+      const required = query.some(parameter => parameter.required);
+      parameters.push({ name: 'query', type: `{ ${fields.join('; ')} }`, optional: !required });
+      requestOptions.push('params: query');
+    }
+
+    // Optional arguments cannot precede required ones
+    const lastRequired = parameters.map(parameter => parameter.optional).lastIndexOf(false);
+    const signature = [
+      ...parameters.map((parameter, index) =>
+        `${parameter.name}${parameter.optional && index > lastRequired ? '?' : ''}: ${parameter.type}${parameter.optional && index <= lastRequired ? ' | undefined' : ''}`
+      ),
+      'options?: APIRequestOptions'
+    ].join(', ');
+
+    const responseType = this.responseType(operation);
+    const urlPath = operation.path.replace(/\{([^}]+)\}/g, (_, name) => `\${${identifier(name)}}`);
+    const url = urlPath.includes('${') ? `\`${urlPath}\`` : `'${urlPath}'`;
+    const callOptions = requestOptions.length > 1 ? `{ ${requestOptions.join(', ')} }` : 'options';
+    const call = `this.${operation.method}<${responseType}>(${url}, ${callOptions})`;
+
+    const doc = [
+      '  /**',
+      `   * ${operation.summary || `${operation.method.toUpperCase()} ${operation.path}`}`,
+      ...(operation.deprecated ? ['   * @deprecated'] : []),
+      '   */'
+    ];
+
+    const bodyLines = responseType === 'void'
+      ? [`    await ${call};`]
+      : [`    const response = await ${call};`, '    return response.data;'];
+
+    return [
+      ...doc,
+      `  async ${methodName}(${signature}): Promise<${responseType}> {`,
+      ...bodyLines,
+      '  }',
+      ''
+    ].join('\n');
+  }
+
+  private requestBody(operation: SpecOperation): { type: string; required: boolean; option: string } | undefined {
+    if (!operation.operation.requestBody) {
+      return undefined;
+    }
+
+    const requestBody = resolveRef(this.spec, operation.operation.requestBody);
+    const content = requestBody.content || {};
+    const [mediaType] = Object.keys(content);
+    if (!mediaType) {
+      return undefined;
+    }
+
+    const option = mediaType.startsWith('multipart/')
+      ? 'multipart'
+      : mediaType === 'application/x-www-form-urlencoded' ? 'form' : 'data';
+    const type = option === 'data'
+      ? this.namedOrInline(`${typeName(operation.operationId)}Request`, content[mediaType].schema)
+      : 'Record<string, any>';
+
+    return { type, required: !!requestBody.required, option };
+  }
+
+  private responseType(operation: SpecOperation): string {
+    const responses = operation.operation.responses || {};
+    const success = Object.keys(responses).filter(code => /^2/.test(code)).sort()[0];
+    if (!success) {
+      return 'any';
+    }
+
+    const response = resolveRef(this.spec, responses[success]);
+    const media = response.content && (response.content['application/json'] || Object.values(response.content)[0]);
+    if (!media) {
+      return 'void';
+    }
+    return this.namedOrInline(`${typeName(operation.operationId)}Response`, media.schema);
+  }
+
+  /**
+   * Inline object schemas get a named type so tests can import them
+   */
+  private namedOrInline(name: string, schema?: OpenAPISchema): string {
+    if (!schema) {
+      return 'any';
+    }
+    if (!schema.$ref && (schema.properties || schema.allOf)) {
+      this.namedTypes.set(name, this.declaration(name, schema));
+      return name;
+    }
+    return this.typeOf(schema);
+  }
+
+  private declaration(name: string, schema: OpenAPISchema): string {
+    const doc = schema.description ? `/**\n * ${schema.description}\n */\n` : '';
+
+    if (schema.type === 'object' || (schema.properties && !schema.type)) {
+      return `${doc}export interface ${name} ${this.objectBody(schema, '')}`;
+    }
+    return `${doc}export type ${name} = ${this.typeOf(schema)};`;
+  }
+
+  private typeOf(schema: OpenAPISchema, indent = '  '): string {
+    if (schema.$ref) {
+      return typeName(schema.$ref.split('/').pop()!);
+    }
+
+    const nullable = schema.nullable ? ' | null' : '';
+
+    if (schema.enum) {
+      return schema.enum.map(value => (typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : String(value))).join(' | ') + nullable;
+    }
+    if (schema.oneOf || schema.anyOf) {
+      return (schema.oneOf || schema.anyOf)!.map(member => this.typeOf(member, indent)).join(' | ') + nullable;
+    }
+    if (schema.allOf) {
+      return schema.allOf.map(member => this.typeOf(member, indent)).join(' & ') + nullable;
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return `string${nullable}`;
+      case 'integer':
+      case 'number':
+        return `number${nullable}`;
+      case 'boolean':
+        return `boolean${nullable}`;
+      case 'null':
+        return 'null';
+      case 'array': {
+        const item = this.typeOf(schema.items || {}, indent);
+        return (/[|&]/.test(item) ? `Array<${item}>` : `${item}[]`) + nullable;
+      }
+      case 'object':
+      case undefined:
+        if (schema.properties) {
+          return this.objectBody(schema, indent) + nullable;
+        }
+        if (schema.additionalProperties !== undefined || schema.type === 'object') {
+          const values = typeof schema.additionalProperties === 'object' ? this.typeOf(schema.additionalProperties, indent) : 'any';
+          return `Record<string, ${values}>${nullable}`;
+        }
+        return 'any';
+      default:
+        return 'any';
+    }
+  }
+
+  private objectBody(schema: OpenAPISchema, indent: string): string {
+    const required = new Set(schema.required || []);
+    const inner = `${indent}  `;
+    const lines = Object.entries(schema.properties || {}).map(([name, property]) =>
+      `${inner}${propertyName(name)}${required.has(name) ? '' : '?'}: ${this.typeOf(property, inner)};`
+    );
+
+    if (typeof schema.additionalProperties === 'object') {
+      lines.push(`${inner}[key: string]: ${this.typeOf(schema.additionalProperties, inner)};`);
+    }
+    return lines.length ? `{\n${lines.join('\n')}\n${indent}}` : '{}';
+  }
+}
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function typeName(value: string): string {
+  return words(value).map(word => word[0].toUpperCase() + word.slice(1)).join('');
+}
+
+function camelCase(value: string): string {
+  const name = typeName(value);
+  return name[0].toLowerCase() + name.slice(1);
+}
+
+function kebabCase(value: string): string {
+  return words(value).map(word => word.toLowerCase()).join('-');
+}
+
+function constantCase(value: string): string {
+  return words(value).map(word => word.toUpperCase()).join('_');
+}
+
+/**
+ * The operationId in camelCase, or the verb and path when that would
+ * override a BaseAPI member or repeat an earlier method, e.g. `delete` on
+ * `/projects/{projectId}` becomes `deleteProjectsByProjectId`
+ */
+function methodName(operation: SpecOperation, taken: Set<string>): string {
+  const resource = operation.path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => segment.replace(/^\{(.+)\}$/, 'by $1'))
+    .join(' ');
+  const candidates = [camelCase(operation.operationId), camelCase(`${operation.method} ${resource}`)];
+  const free = candidates.find(name => !BASE_API_MEMBERS.has(name) && !taken.has(name));
+  if (free) {
+    return free;
+  }
+
+  let suffix = 2;
+  while (taken.has(`${candidates[1]}${suffix}`)) {
+    suffix++;
+  }
+  return `${candidates[1]}${suffix}`;
+}
+
+function identifier(value: string): string {
+  const name = camelCase(value);
+  return RESERVED_WORDS.has(name) ? `${name}Param` : name;
+}
+
+function propertyName(value: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value) ? value : `'${value}'`;
+}
@@ -0,0 +1,170 @@
+/**
+ * OpenAPI Coverage Report
+ *
+ * Compares the operations in an OpenAPI document with the endpoints the
+ * hand-written clients call, so gaps show up before tests need them. Client
+ * endpoints are read from the source (`this.get('/documents')`,
+ * `this.patch(\`/documents/${id}\`)`) without compiling it.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+import { HTTP_METHODS, HttpMethod, OpenAPIDocument, listOperations } from './OpenAPISpec';
+
+export const HAND_WRITTEN_CLIENTS = [
+  'src/applications/webapp/api/webapp/WebappAPI.ts',
+  'src/applications/adminapp/api/adminapp/AdminAPI.ts',
+  'src/applications/mcp-server/api/mcp-platform/McpAPI.ts'
+];
+
+export interface ClientEndpoint {
+  client: string;
+  clientMethod: string;
+  method: HttpMethod;
+  path: string;
+  line: number;
+}
+
+export interface OperationCoverage {
+  method: HttpMethod;
+  path: string;
+  operationId: string;
+  deprecated: boolean;
+  coveredBy: string[];
+}
+
+export interface CoverageReport {
+  spec: { title: string; version: string };
+  generatedAt: string;
+  total: number;
+  covered: number;
+  percentage: number;
+  operations: OperationCoverage[];
+  /** Client endpoints with no matching operation in the spec */
+  unmatched: ClientEndpoint[];
+}
+
+/**
+ * Extract the endpoints a client class calls through BaseAPI
+ */
+export async function scanClient(file: string): Promise<ClientEndpoint[]> {
+  const source = ts.createSourceFile(file, await fs.readFile(file, 'utf-8'), ts.ScriptTarget.ES2020, true);
+  const client = path.basename(file, '.ts');
+  const endpoints: ClientEndpoint[] = [];
+
+  const visit = (node: ts.Node, clientMethod: string): void => {
+    if (ts.isMethodDeclaration(node) && node.name) {
+      clientMethod = node.name.getText(source);
+    }
+
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.expression.kind === ts.SyntaxKind.ThisKeyword &&
+      HTTP_METHODS.includes(node.expression.name.text as HttpMethod)
+    ) {
+      const endpointPath = node.arguments[0] && literalPath(node.arguments[0]);
+      if (endpointPath) {
+        endpoints.push({
+          client,
+          clientMethod,
+          method: node.expression.name.text as HttpMethod,
+          path: endpointPath,
+          line: source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1
+        });
+      }
+    }
+
+    ts.forEachChild(node, child => visit(child, clientMethod));
+  };
+
+  visit(source, '');
+  return endpoints;
+}
+
+/**
+ * Match spec operations against client endpoints; `basePath` is stripped from
+ * spec paths when the spec includes the prefix the clients keep in baseURL
+ */
+export function buildCoverageReport(spec: OpenAPIDocument, endpoints: ClientEndpoint[], basePath = ''): CoverageReport {
+  const matched = new Set<ClientEndpoint>();
+
+  const operations = listOperations(spec).map(operation => {
+    const specPath = operation.path.startsWith(basePath) ? operation.path.slice(basePath.length) || '/' : operation.path;
+    const key = endpointKey(operation.method, specPath);
+    const callers = endpoints.filter(endpoint => endpointKey(endpoint.method, endpoint.path) === key);
+    callers.forEach(endpoint => matched.add(endpoint));
+
+    return {
+      method: operation.method,
+      path: operation.path,
+      operationId: operation.operationId,
+      deprecated: operation.deprecated,
+      coveredBy: [...new Set(callers.map(endpoint => `${endpoint.client}.${endpoint.clientMethod}`))]
+    };
+  });
+
+  const covered = operations.filter(operation => operation.coveredBy.length).length;
+  return {
+    spec: { title: spec.info.title, version: spec.info.version },
+    generatedAt: new Date().toISOString(),
+    total: operations.length,
+    covered,
+    percentage: operations.length ? Math.round((covered / operations.length) * 1000) / 10 : 100,
+    operations,
+    unmatched: endpoints.filter(endpoint => !matched.has(endpoint))
+  };
+}
+
+/**
+ * Console summary listing uncovered operations
+ */
+export function formatCoverageReport(report: CoverageReport): string {
+  const lines = [
+    `📘 ${report.spec.title} ${report.spec.version}: ${report.covered}/${report.total} operations covered (${report.percentage}%)`
+  ];
+
+  const uncovered = report.operations.filter(operation => !operation.coveredBy.length);
+  if (uncovered.length) {
+    lines.push('', 'Not covered by hand-written clients:');
+    for (const operation of uncovered) {
+      lines.push(`  ${operation.method.toUpperCase().padEnd(6)} ${operation.path} (${operation.operationId})${operation.deprecated ? ' [deprecated]' : ''}`);
+    }
+  }
+
+  if (report.unmatched.length) {
+    lines.push('', 'Client endpoints missing from the spec:');
+    for (const endpoint of report.unmatched) {
+      lines.push(`  ${endpoint.method.toUpperCase().padEnd(6)} ${endpoint.path} (${endpoint.client}.${endpoint.clientMethod}:${endpoint.line})`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Path of a string or template literal argument, with interpolations as `{}`
+ */
+export function literalPath(node: ts.Expression): string | undefined {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isTemplateExpression(node)) {
+    return node.head.text + node.templateSpans.map(span => `{}${span.literal.text}`).join('');
+  }
+  return undefined;
+}
+
+/**
+ * `GET /documents/{id}`, `GET /documents/:id` and `GET /documents/${id}`
+ * all normalize to `get /documents/{}`
+ */
+export function endpointKey(method: string, endpointPath: string): string {
+  const normalized = endpointPath
+    .split('?')[0]
+    .replace(/\{[^}]*\}/g, '{}')
+    .replace(/:[A-Za-z_][A-Za-z0-9_]*/g, '{}')
+    .replace(/\/+$/, '');
+  return `${method.toLowerCase()} ${normalized || '/'}`;
+}
@@ -0,0 +1,168 @@
+/**
+ * OpenAPI Spec
+ *
+ * Minimal OpenAPI 3 document model plus loading from a local JSON or YAML
+ * file. Only the parts the client generator and coverage report read are typed.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYAML } from 'yaml';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+export interface OpenAPISchema {
+  $ref?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+  format?: string;
+  enum?: Array<string | number | boolean | null>;
+  nullable?: boolean;
+  items?: OpenAPISchema;
+  properties?: Record<string, OpenAPISchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenAPISchema;
+  oneOf?: OpenAPISchema[];
+  anyOf?: OpenAPISchema[];
+  allOf?: OpenAPISchema[];
+  description?: string;
+}
+
+export interface OpenAPIParameter {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: OpenAPISchema;
+  description?: string;
+}
+
+export interface OpenAPIMediaType {
+  schema?: OpenAPISchema;
+}
+
+export interface OpenAPIOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: OpenAPIParameter[];
+  requestBody?: {
+    $ref?: string;
+    required?: boolean;
+    content?: Record<string, OpenAPIMediaType>;
+  };
+  responses?: Record<string, { $ref?: string; description?: string; content?: Record<string, OpenAPIMediaType> }>;
+  deprecated?: boolean;
+}
+
+export type OpenAPIPathItem = Partial<Record<HttpMethod, OpenAPIOperation>> & {
+  parameters?: OpenAPIParameter[];
+};
+
+export interface OpenAPIDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string }>;
+  paths: Record<string, OpenAPIPathItem>;
+  components?: {
+    schemas?: Record<string, OpenAPISchema>;
+    parameters?: Record<string, OpenAPIParameter>;
+    requestBodies?: Record<string, NonNullable<OpenAPIOperation['requestBody']>>;
+    responses?: Record<string, NonNullable<OpenAPIOperation['responses']>[string]>;
+  };
+}
+
+/**
+ * An operation flattened out of `paths`, with path-level parameters merged in
+ */
+export interface SpecOperation {
+  method: HttpMethod;
+  path: string;
+  operationId: string;
+  summary?: string;
+  tags: string[];
+  deprecated: boolean;
+  parameters: OpenAPIParameter[];
+  operation: OpenAPIOperation;
+}
+
+/**
+ * Load an OpenAPI 3 document from a .json, .yaml or .yml file
+ */
+export async function loadSpec(file: string): Promise<OpenAPIDocument> {
+  const content = await fs.readFile(file, 'utf-8');
+  const document = path.extname(file) === '.json' ? JSON.parse(content) : parseYAML(content);
+
+  if (!document || typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    throw new Error(`${file} is not an OpenAPI 3 document`);
+  }
+  if (!document.paths) {
+    throw new Error(`${file} does not define any paths`);
+  }
+  return document as OpenAPIDocument;
+}
+
+/**
+ * Resolve a local `#/components/...` reference
+ */
+export function resolveRef<T>(spec: OpenAPIDocument, value: T & { $ref?: string }): T {
+  if (!value.$ref) {
+    return value;
+  }
+  if (!value.$ref.startsWith('#/')) {
+    throw new Error(`External reference ${value.$ref} is not supported`);
+  }
+
+  const target = value.$ref.slice(2).split('/').reduce<any>((node, key) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], spec);
+  if (!target) {
+    throw new Error(`Unresolved reference ${value.$ref}`);
+  }
+  return resolveRef(spec, target);
+}
+
+/**
+ * All operations in document order
+ */
+export function listOperations(spec: OpenAPIDocument): SpecOperation[] {
+  const operations: SpecOperation[] = [];
+
+  for (const [specPath, pathItem] of Object.entries(spec.paths)) {
+    const shared = (pathItem.parameters || []).map(parameter => resolveRef(spec, parameter));
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) {
+        continue;
+      }
+
+      const own = (operation.parameters || []).map(parameter => resolveRef(spec, parameter));
+      const parameters = [
+        ...shared.filter(parameter => !own.some(candidate => candidate.name === parameter.name && candidate.in === parameter.in)),
+        ...own
+      ];
+
+      operations.push({
+        method,
+        path: specPath,
+        operationId: operation.operationId || defaultOperationId(method, specPath),
+        summary: operation.summary,
+        tags: operation.tags || [],
+        deprecated: !!operation.deprecated,
+        parameters,
+        operation
+      });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * `get /documents/{id}/status` -> `getDocumentsIdStatus`
+ */
+function defaultOperationId(method: HttpMethod, specPath: string): string {
+  const words = specPath.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return method + words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+}
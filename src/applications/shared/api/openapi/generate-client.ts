@@ -0,0 +1,90 @@
+/**
+ * OpenAPI Client Generator CLI
+ *
+ * Usage:
+ *   npm run api:generate -- --spec specs/webapp.yaml --name Webapp [options]
+ *
+ * Options:
+ *   --spec <file>          OpenAPI 3 document (.json, .yaml, .yml)
+ *   --name <Name>          Client name; emits <Name>API.ts and <name>.types.ts
+ *   --out <dir>            Output directory (default: src/applications/shared/api/generated)
+ *   --base-url-env <VAR>   Environment variable for the base URL (default: <NAME>_API_URL)
+ *   --base-path <prefix>   Prefix to strip from spec paths when matching clients, e.g. /api
+ *   --clients <a,b>        Hand-written clients to compare against (default: the client named like
+ *                          --name, e.g. WebappAPI for Webapp, otherwise all hand-written clients)
+ *   --report <file>        Coverage JSON output (default: test-results/api-coverage/<name>.json)
+ *   --coverage-only        Only report coverage, do not write a client
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from '../../../../core/utils/cli';
+import { ClientGenerator } from './ClientGenerator';
+import { HAND_WRITTEN_CLIENTS, buildCoverageReport, formatCoverageReport, scanClient } from './CoverageReport';
+import { loadSpec } from './OpenAPISpec';
+
+const DEFAULT_OUTPUT_DIR = 'src/applications/shared/api/generated';
+
+/**
+ * Hand-written clients named like the generated one, e.g. `WebappAPI` for `Webapp`
+ */
+function matchingClients(name: string | boolean | undefined): string[] {
+  const prefix = typeof name === 'string' ? name.toLowerCase() : '';
+  const matches = HAND_WRITTEN_CLIENTS.filter(client =>
+    prefix.startsWith(path.basename(client, '.ts').replace(/API$/, '').toLowerCase())
+  );
+  return matches.length ? matches : HAND_WRITTEN_CLIENTS;
+}
+
+export async function main(argv = process.argv.slice(2)): Promise<void> {
+  const args = parseArgs(argv);
+  const specFile = args.spec;
+  const name = args.name;
+  const coverageOnly = args['coverage-only'] === true;
+
+  if (typeof specFile !== 'string' || (!coverageOnly && typeof name !== 'string')) {
+    throw new Error('Usage: npm run api:generate -- --spec <file> --name <Name> [--out <dir>] [--coverage-only]');
+  }
+
+  const spec = await loadSpec(specFile);
+
+  if (!coverageOnly) {
+    const generator = new ClientGenerator(spec, {
+      name: name as string,
+      specFile,
+      outputDir: path.resolve(typeof args.out === 'string' ? args.out : DEFAULT_OUTPUT_DIR),
+      baseURLEnv: typeof args['base-url-env'] === 'string' ? args['base-url-env'] : undefined
+    });
+
+    for (const file of generator.generate()) {
+      await fs.mkdir(path.dirname(file.path), { recursive: true });
+      await fs.writeFile(file.path, file.content);
+      console.log(`✅ Wrote ${path.relative(process.cwd(), file.path)}`);
+    }
+  }
+
+  const clients = typeof args.clients === 'string' ? args.clients.split(',') : matchingClients(name);
+  const endpoints = (await Promise.all(clients.map(client => scanClient(path.resolve(client))))).flat();
+  const report = buildCoverageReport(spec, endpoints, typeof args['base-path'] === 'string' ? args['base-path'] : '');
+  // Comparing against every client, other applications' endpoints are not drift
+  if (clients.length > 1 && typeof args.clients !== 'string') {
+    report.unmatched = [];
+  }
+
+  const reportName = typeof name === 'string' ? name : path.basename(specFile, path.extname(specFile));
+  const reportFile = typeof args.report === 'string'
+    ? args.report
+    : path.join('test-results', 'api-coverage', `${reportName.toLowerCase()}.json`);
+  await fs.mkdir(path.dirname(reportFile), { recursive: true });
+  await fs.writeFile(reportFile, JSON.stringify(report, null, 2));
+
+  console.log(`\n${formatCoverageReport(report)}`);
+  console.log(`\n📁 Coverage report saved to: ${reportFile}`);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
+}
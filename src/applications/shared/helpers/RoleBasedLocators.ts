@@ -247,6 +247,13 @@ export class RoleBasedLocators {
     return this.page.getByRole('region');
   }
 
+  /**
+   * Locate region elements, the same as section
+   */
+  region(name?: string): Locator {
+    return this.section(name);
+  }
+
   /**
    * Locate form elements
    */
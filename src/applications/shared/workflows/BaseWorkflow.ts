@@ -8,6 +8,15 @@
 import { Page, BrowserContext, APIRequestContext } from '@playwright/test';
 import { getConfigManager, ApplicationType } from '../config';
 import { TestDataManager } from '../data/TestDataManager';
+import { WorkflowStateManager } from './WorkflowStateManager';
+import {
+  StepErrorEvent,
+  StepEvent,
+  WorkflowMiddleware,
+  captureStepScreenshot,
+  consoleMiddleware,
+  screenshotMiddleware
+} from './WorkflowMiddleware';
 
 export interface WorkflowContext {
   id: string;
@@ -36,10 +45,14 @@ export interface StepResult {
   startTime: Date;
   endTime?: Date;
   duration?: number;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'timed_out' | 'skipped';
   data?: any;
   error?: WorkflowError;
   screenshots?: string[];
+  /** Step numbers this step waited for, in parallel runs */
+  dependsOn?: number[];
+  /** Step numbers that ran at the same time, in parallel runs */
+  concurrentWith?: number[];
 }
 
 export interface WorkflowError {
@@ -63,17 +76,40 @@ export interface WorkflowOptions {
   continueOnError?: boolean;
   captureScreenshots?: boolean;
   captureTrace?: boolean;
+  /** Deadline for the whole run in milliseconds; the step running when it passes is aborted */
   timeout?: number;
   retryFailedSteps?: number;
+  /** Wait before retrying a failed step in milliseconds, 2000 by default */
+  retryDelay?: number;
+  /** Added after the built-in console and screenshot middleware, replacing those of the same name */
+  middleware?: WorkflowMiddleware[];
+  /** Run steps as soon as their dependencies complete, one at a time per application */
   parallel?: boolean;
 }
 
+export interface WorkflowResumeOptions {
+  /** Id of the run to resume, as logged when it started */
+  workflowId: string;
+  /** Step number to continue from; by default the recovery point of the saved state */
+  fromStep?: number;
+}
+
+export interface WorkflowExecuteOptions {
+  /** Continue a run from its state saved after each step */
+  resume?: WorkflowResumeOptions;
+}
+
 export abstract class BaseWorkflow {
   protected context: WorkflowContext;
   protected options: WorkflowOptions;
   protected configManager = getConfigManager();
   protected dataManager?: TestDataManager;
+  protected stateManager: WorkflowStateManager;
   protected steps: WorkflowStep[] = [];
+  protected middleware: WorkflowMiddleware[] = [];
+  private saving: Promise<void> = Promise.resolve();
+  private deadline = Infinity;
+  private cancelReason?: string;
 
   constructor(
     protected browserContext: BrowserContext,
@@ -108,6 +144,14 @@ export abstract class BaseWorkflow {
       metadata: {}
     };
 
+    this.stateManager = new WorkflowStateManager(this.context.id);
+
+    this.middleware = [consoleMiddleware()];
+    if (this.options.captureScreenshots) {
+      this.middleware.push(screenshotMiddleware());
+    }
+    (this.options.middleware || []).forEach(middleware => this.use(middleware));
+
     this.defineSteps();
     this.context.state.totalSteps = this.steps.length;
   }
@@ -136,43 +180,335 @@ export abstract class BaseWorkflow {
   /**
    * Execute the workflow
    */
-  async execute(): Promise<WorkflowState> {
-    console.log(`Starting workflow: ${this.context.name} (${this.context.id})`);
+  async execute(options: WorkflowExecuteOptions = {}): Promise<WorkflowState> {
+    const startIndex = options.resume ? await this.restoreState(options.resume) : 0;
+    console.log(startIndex > 0
+      ? `Resuming workflow: ${this.context.name} (${this.context.id}) from step ${startIndex + 1}`
+      : `Starting workflow: ${this.context.name} (${this.context.id})`);
     this.context.state.status = WorkflowStatus.RUNNING;
+    this.deadline = Date.now() + (this.options.timeout || Infinity);
 
     try {
+      await this.stateManager.initialize();
+
       // Initialize pages for all applications
       await this.initializeApplications();
+      if (startIndex > 0) {
+        await this.reauthenticate();
+      }
 
       // Execute steps
-      for (let i = 0; i < this.steps.length; i++) {
-        const step = this.steps[i];
-        this.context.state.currentStep = i + 1;
-
-        const result = await this.executeStep(step, i + 1);
-        this.context.state.stepResults.push(result);
-
-        if (result.status === 'failed' && !this.options.continueOnError) {
-          throw new Error(`Step ${i + 1} failed: ${result.error?.message}`);
+      if (this.options.parallel) {
+        await this.executeGraph(startIndex);
+      } else {
+        for (let i = startIndex; i < this.steps.length && !this.cancelReason; i++) {
+          const step = this.steps[i];
+          this.context.state.currentStep = i + 1;
+          this.checkDeadline(i + 1);
+
+          const result = await this.executeStep(step, i + 1);
+          await this.recordResult(result);
+          this.checkDeadline(i + 1, result);
+
+          if (isFailure(result) && !this.options.continueOnError) {
+            throw new Error(`Step ${i + 1} failed: ${result.error?.message}`);
+          }
         }
       }
 
-      this.context.state.status = WorkflowStatus.COMPLETED;
+      if (this.cancelReason && this.context.state.stepResults.length < this.steps.length) {
+        this.context.state.status = WorkflowStatus.CANCELLED;
+        this.context.metadata.cancelReason = this.cancelReason;
+        console.log(`Workflow ${this.context.id} cancelled after step ${this.context.state.currentStep}: ${this.cancelReason}`);
+      } else {
+        this.context.state.status = WorkflowStatus.COMPLETED;
+      }
     } catch (error) {
+      const failedStep = this.context.state.stepResults.find(
+        result => result.stepNumber === this.context.state.currentStep && isFailure(result)
+      );
       this.context.state.status = WorkflowStatus.FAILED;
       this.context.state.errors.push({
         step: this.context.state.currentStep,
         message: error.message,
         stack: error.stack,
-        recoverable: false
+        // A run stopped by a failed step can be resumed from that step
+        recoverable: !!failedStep
       });
+      console.log(`Workflow ${this.context.id} failed at step ${this.context.state.currentStep}; resume with execute({ resume: { workflowId: '${this.context.id}' } })`);
     } finally {
+      await this.saveProgress();
+      await this.runMiddleware('onWorkflowEnd', this.context, this.context.state);
       await this.cleanup();
     }
 
     return this.context.state;
   }
 
+  /**
+   * Add a middleware, or replace the one of the same name
+   */
+  use(middleware: WorkflowMiddleware): this {
+    const index = this.middleware.findIndex(existing => existing.name === middleware.name);
+    if (index === -1) {
+      this.middleware.push(middleware);
+    } else {
+      this.middleware[index] = middleware;
+    }
+    return this;
+  }
+
+  /**
+   * Call a hook of every middleware in turn; a failing hook is only reported
+   */
+  private async runMiddleware<K extends keyof Omit<WorkflowMiddleware, 'name'>>(
+    hook: K,
+    ...args: Parameters<NonNullable<WorkflowMiddleware[K]>>
+  ): Promise<void> {
+    for (const middleware of this.middleware) {
+      const handler = middleware[hook] as ((...params: any[]) => Promise<void> | void) | undefined;
+      try {
+        await handler?.apply(middleware, args);
+      } catch (error: any) {
+        console.warn(`Workflow middleware ${middleware.name} failed in ${hook}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Stop the run after the step that is running; cleanup runs as usual and
+   * the workflow ends as cancelled
+   */
+  cancel(reason = 'Cancelled'): void {
+    this.cancelReason = reason;
+  }
+
+  /**
+   * Throws once the workflow deadline has passed, before a step starts or
+   * when the step running at the time was aborted by it
+   */
+  private checkDeadline(stepNumber: number, result?: StepResult): void {
+    if (Date.now() >= this.deadline && (!result || result.status === 'timed_out')) {
+      throw new Error(`Workflow timed out after ${this.options.timeout}ms at step ${stepNumber}`);
+    }
+  }
+
+  /**
+   * Run the steps from startIndex as a dependency graph. A step starts once
+   * the steps it depends on have completed; with continueOnError, steps
+   * depending on a failed step are skipped.
+   */
+  protected async executeGraph(startIndex: number): Promise<void> {
+    const { dependencies, errors } = this.buildStepGraph();
+    if (errors.length > 0) {
+      throw new Error(`Invalid step graph: ${errors.join('; ')}`);
+    }
+
+    // Steps before a resume point that completed in the earlier run are done,
+    // the others count as failed so the steps depending on them are skipped
+    const completed = new Set(this.context.state.stepResults
+      .filter(result => result.status === 'completed')
+      .map(result => result.stepNumber - 1));
+    const done = new Set(this.steps.map((_, index) => index).filter(index => index < startIndex && completed.has(index)));
+    const failed = new Set(this.steps.map((_, index) => index).filter(index => index < startIndex && !completed.has(index)));
+    const pending = new Set(this.steps.map((_, index) => index).filter(index => index >= startIndex));
+    const running = new Map<number, Promise<void>>();
+    let stopped: Error | undefined;
+
+    while (pending.size > 0 || running.size > 0) {
+      let progressed = false;
+      for (const index of stopped || this.cancelReason ? [] : Array.from(pending)) {
+        const stepNumber = index + 1;
+        const failedDependency = dependencies[index].find(dependency => failed.has(dependency));
+
+        if (failedDependency !== undefined) {
+          pending.delete(index);
+          failed.add(index);
+          progressed = true;
+          await this.recordResult({
+            stepNumber,
+            name: this.steps[index].name,
+            application: this.steps[index].application,
+            startTime: new Date(),
+            status: 'skipped',
+            dependsOn: dependencies[index].map(dependency => dependency + 1),
+            error: {
+              step: stepNumber,
+              message: `Skipped: step ${failedDependency + 1} failed`,
+              application: this.steps[index].application,
+              recoverable: true
+            }
+          });
+        } else if (dependencies[index].every(dependency => done.has(dependency))) {
+          this.checkDeadline(stepNumber);
+          pending.delete(index);
+          progressed = true;
+          this.context.state.currentStep = stepNumber;
+          running.set(index, this.executeStep(this.steps[index], stepNumber).then(async result => {
+            result.dependsOn = dependencies[index].map(dependency => dependency + 1);
+            await this.recordResult(result);
+
+            if (isFailure(result)) {
+              failed.add(index);
+              const timedOut = Date.now() >= this.deadline && result.status === 'timed_out';
+              if ((timedOut || !this.options.continueOnError) && !stopped) {
+                this.context.state.currentStep = stepNumber;
+                stopped = timedOut
+                  ? new Error(`Workflow timed out after ${this.options.timeout}ms at step ${stepNumber}`)
+                  : new Error(`Step ${stepNumber} failed: ${result.error?.message}`);
+              }
+            } else {
+              done.add(index);
+            }
+            running.delete(index);
+          }));
+        }
+      }
+
+      if (running.size === 0) {
+        if (stopped || this.cancelReason || !progressed) {
+          break;
+        }
+        continue;
+      }
+      await Promise.race(running.values());
+    }
+
+    this.markConcurrentSteps();
+    if (stopped) {
+      throw stopped;
+    }
+  }
+
+  /**
+   * Steps each step waits for, by index: the steps named in its dependsOn,
+   * directly or by their storeAs key, and the previous step on the same
+   * application, whose page it shares
+   */
+  protected buildStepGraph(): { dependencies: number[][]; errors: string[] } {
+    const errors: string[] = [];
+    const dependencies = this.steps.map((step, index) => {
+      const found = new Set<number>();
+
+      const previous = this.steps.slice(0, index).map(candidate => candidate.application).lastIndexOf(step.application);
+      if (previous !== -1) {
+        found.add(previous);
+      }
+
+      for (const dependency of step.dependsOn || []) {
+        const producers = this.steps
+          .map((candidate, candidateIndex) => candidate.name === dependency || candidate.storeAs === dependency ? candidateIndex : -1)
+          .filter(candidateIndex => candidateIndex !== -1 && candidateIndex !== index);
+        if (producers.length === 0) {
+          errors.push(`Step "${step.name}" depends on unknown step or data key "${dependency}"`);
+        }
+        producers.forEach(producer => found.add(producer));
+      }
+      return Array.from(found).sort((a, b) => a - b);
+    });
+
+    const cycle = findCycle(dependencies);
+    if (cycle) {
+      errors.push(`Dependency cycle: ${cycle.map(index => this.steps[index].name).join(' → ')}`);
+    }
+    return { dependencies, errors };
+  }
+
+  /**
+   * Add a step result in step order and save the state; saves of steps
+   * finishing together are written one after another
+   */
+  protected async recordResult(result: StepResult): Promise<void> {
+    const results = this.context.state.stepResults;
+    results.push(result);
+    results.sort((a, b) => a.stepNumber - b.stepNumber);
+    await this.saveProgress();
+  }
+
+  protected saveProgress(): Promise<void> {
+    this.saving = this.saving.then(() => this.stateManager.saveState(this.context.state, { name: this.context.name }));
+    return this.saving;
+  }
+
+  private markConcurrentSteps(): void {
+    const timed = this.context.state.stepResults.filter(result => result.status !== 'skipped' && result.endTime);
+    for (const result of timed) {
+      const concurrentWith = timed
+        .filter(other => other !== result && other.startTime < result.endTime! && result.startTime < other.endTime!)
+        .map(other => other.stepNumber);
+      if (concurrentWith.length > 0) {
+        result.concurrentWith = concurrentWith;
+      }
+    }
+  }
+
+  /**
+   * Load the saved state of an earlier run and keep the results and data of
+   * the steps before the resume point. Returns the index of the first step to run.
+   */
+  protected async restoreState(resume: WorkflowResumeOptions): Promise<number> {
+    const stateManager = new WorkflowStateManager(resume.workflowId);
+    const saved = await stateManager.loadState();
+    if (!saved) {
+      throw new Error(`No saved state for workflow ${resume.workflowId}`);
+    }
+    if (saved.totalSteps !== this.steps.length) {
+      throw new Error(`Saved state of workflow ${resume.workflowId} has ${saved.totalSteps} steps, ${this.context.name} defines ${this.steps.length}`);
+    }
+
+    // A run that completed despite failed steps resumes from the first of them.
+    // Parallel steps finish out of order, so a completed step may follow one
+    // that failed or never started; those runs resume from the first step
+    // that did not complete.
+    const firstIncomplete = this.steps.findIndex((_, index) =>
+      !saved.stepResults.some(result => result.stepNumber === index + 1 && result.status === 'completed')
+    );
+    const recoveryPoint = this.options.parallel
+      ? (stateManager.canRecover(saved) ? firstIncomplete : -1)
+      : stateManager.getRecoveryPoint(saved);
+    const firstFailed = saved.stepResults.find(isFailure);
+    const startIndex = resume.fromStep !== undefined
+      ? resume.fromStep - 1
+      : recoveryPoint >= 0 ? recoveryPoint : firstFailed ? firstFailed.stepNumber - 1 : -1;
+    if (startIndex < 0 || startIndex >= this.steps.length) {
+      throw new Error(resume.fromStep !== undefined
+        ? `Cannot resume workflow ${resume.workflowId} from step ${resume.fromStep} of ${this.steps.length}`
+        : `Workflow ${resume.workflowId} has nothing to resume (${saved.status}); pass fromStep to rerun from a step`);
+    }
+
+    // Outputs of the steps that run again are stored again
+    const stepResults = saved.stepResults.filter(result => result.stepNumber <= startIndex);
+    const data = { ...saved.data };
+    this.steps.slice(startIndex).forEach(step => step.storeAs && delete data[step.storeAs]);
+    for (const result of stepResults) {
+      const storeAs = this.steps[result.stepNumber - 1].storeAs;
+      if (storeAs && result.status === 'completed') {
+        data[storeAs] = result.data;
+      }
+    }
+
+    this.context.id = resume.workflowId;
+    this.context.metadata.resumedFrom = startIndex + 1;
+    this.context.state = {
+      ...saved,
+      currentStep: startIndex,
+      stepResults,
+      data,
+      errors: saved.errors.filter(error => error.step <= startIndex),
+      status: WorkflowStatus.NOT_STARTED
+    };
+    this.stateManager = stateManager;
+
+    return startIndex;
+  }
+
+  /**
+   * Sign the applications in again before resuming, as the skipped steps
+   * did. The base workflow has no sign-in of its own; workflows that
+   * authenticate in a step override this.
+   */
+  protected async reauthenticate(): Promise<void> {}
+
   /**
    * Initialize pages for all required applications
    */
@@ -216,18 +552,28 @@ export abstract class BaseWorkflow {
       status: 'running'
     };
 
-    console.log(`Executing step ${stepNumber}: ${step.name} (${step.application})`);
-
     // Switch to correct application
     await this.switchToApplication(step.application);
 
-    let attempts = 0;
-    const maxAttempts = 1 + (this.options.retryFailedSteps || 0);
-
-    while (attempts < maxAttempts) {
+    const maxAttempts = 1 + (step.retries ?? this.options.retryFailedSteps ?? 0);
+    let recovered = false;
+
+    for (let attempt = 1; ; attempt++) {
+      const event: StepEvent = {
+        workflow: this.context,
+        step,
+        stepNumber,
+        attempt,
+        maxAttempts,
+        page: this.context.pages.get(step.application),
+        result
+      };
+      await this.runMiddleware('beforeStep', event);
+
+      const controller = new AbortController();
       try {
         // Execute step
-        const stepData = await step.execute(this.context);
+        const stepData = await this.runStepAttempt(step, stepNumber, controller);
         
         result.endTime = new Date();
         result.duration = result.endTime.getTime() - result.startTime.getTime();
@@ -239,47 +585,77 @@ export abstract class BaseWorkflow {
           this.context.state.data[step.storeAs] = stepData;
         }
 
-        // Capture screenshot if enabled
-        if (this.options.captureScreenshots) {
-          const screenshot = await this.captureScreenshot(step);
-          if (screenshot) {
-            result.screenshots = [screenshot];
-          }
-        }
-
-        break; // Success, exit retry loop
+        await this.runMiddleware('afterStep', event);
+        return result;
       } catch (error) {
-        attempts++;
-        
-        if (attempts >= maxAttempts) {
-          result.status = 'failed';
-          result.error = {
-            step: stepNumber,
-            message: error.message,
-            application: step.application,
-            stack: error.stack,
-            recoverable: step.recoverable || false
-          };
-
-          // Capture error screenshot
-          if (this.options.captureScreenshots) {
-            const screenshot = await this.captureScreenshot(step, true);
-            if (screenshot) {
-              result.error.screenshot = screenshot;
-            }
-          }
+        result.endTime = new Date();
+        result.duration = result.endTime.getTime() - result.startTime.getTime();
+        result.status = controller.signal.aborted ? 'timed_out' : 'failed';
+        result.error = {
+          step: stepNumber,
+          message: error.message,
+          application: step.application,
+          stack: error.stack,
+          recoverable: step.recoverable || false
+        };
+
+        const errorEvent: StepErrorEvent = {
+          ...event,
+          error: error as Error,
+          retry: attempt < maxAttempts && Date.now() < this.deadline,
+          retryDelay: step.retryDelay ?? this.options.retryDelay ?? 2000
+        };
+        await this.runMiddleware('onStepError', errorEvent);
+
+        // No retry once the workflow deadline has passed, and at most one beyond the configured ones
+        const extraAttempt = attempt >= maxAttempts;
+        if (!errorEvent.retry || Date.now() >= this.deadline || (extraAttempt && recovered)) {
+          return result;
+        }
+        recovered = recovered || extraAttempt;
 
-          if (!this.options.continueOnError) {
-            throw error;
-          }
-        } else {
-          console.log(`Retrying step ${stepNumber} (attempt ${attempts + 1}/${maxAttempts})`);
-          await this.page.waitForTimeout(2000); // Wait before retry
+        // The wait ends at the workflow deadline, which leaves the step failed
+        await new Promise(resolve => setTimeout(resolve, Math.min(errorEvent.retryDelay, this.deadline - Date.now())));
+        if (Date.now() >= this.deadline) {
+          return result;
         }
+
+        result.status = 'running';
+        result.endTime = undefined;
+        result.duration = undefined;
+        result.error = undefined;
       }
     }
+  }
+
+  /**
+   * Race a step against its own timeout and the workflow deadline, whichever
+   * comes first. The step gets a signal that aborts when time runs out, so
+   * it can stop waiting; the attempt fails either way.
+   */
+  protected async runStepAttempt(step: WorkflowStep, stepNumber: number, controller: AbortController): Promise<any> {
+    const remaining = this.deadline - Date.now();
+    const limit = Math.min(step.timeout || Infinity, remaining);
+    if (limit === Infinity) {
+      return step.execute(this.context, controller.signal);
+    }
 
-    return result;
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(limit < (step.timeout || Infinity)
+          ? `Step ${stepNumber} aborted at the workflow deadline of ${this.options.timeout}ms`
+          : `Step ${stepNumber} timed out after ${step.timeout}ms`);
+        controller.abort(error);
+        reject(error);
+      }, Math.max(limit, 0));
+    });
+
+    try {
+      return await Promise.race([step.execute(this.context, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   /**
@@ -338,20 +714,12 @@ export abstract class BaseWorkflow {
    * Capture screenshot
    */
   protected async captureScreenshot(step: WorkflowStep, isError = false): Promise<string | undefined> {
-    try {
-      const page = this.getPage(step.application);
-      const filename = `${this.context.id}_step${step.name.replace(/\s+/g, '_')}${isError ? '_error' : ''}.png`;
-      
-      await page.screenshot({
-        path: `test-results/workflows/${filename}`,
-        fullPage: true
-      });
-
-      return filename;
-    } catch (error) {
-      console.warn(`Failed to capture screenshot: ${error.message}`);
+    const page = this.context.pages.get(step.application);
+    if (!page) {
+      console.warn(`Failed to capture screenshot: No page for application ${step.application}`);
       return undefined;
     }
+    return captureStepScreenshot(page, this.context.id, step, undefined, isError);
   }
 
   /**
@@ -422,6 +790,9 @@ export abstract class BaseWorkflow {
       errors.push('No steps defined in workflow');
     }
 
+    // Check dependencies resolve and form no cycle
+    errors.push(...this.buildStepGraph().errors);
+
     // Validate each step
     for (const step of this.steps) {
       if (step.validate) {
@@ -445,9 +816,60 @@ export abstract class BaseWorkflow {
 export interface WorkflowStep {
   name: string;
   application: ApplicationType;
-  execute: (context: WorkflowContext) => Promise<any>;
+  /** The signal aborts when the step's timeout or the workflow deadline passes */
+  execute: (context: WorkflowContext, signal: AbortSignal) => Promise<any>;
   validate?: (context: WorkflowContext) => Promise<{ valid: boolean; errors?: string[] }>;
   storeAs?: string;
+  /**
+   * Names of steps, or storeAs keys of the steps that produce them, that must
+   * complete before this step starts when the workflow runs in parallel
+   */
+  dependsOn?: string[];
   recoverable?: boolean;
   timeout?: number;
+  /** Retries of this step, instead of the workflow's retryFailedSteps */
+  retries?: number;
+  /** Wait before retrying this step in milliseconds, instead of the workflow's retryDelay */
+  retryDelay?: number;
+}
+
+function isFailure(result: StepResult): boolean {
+  return result.status === 'failed' || result.status === 'timed_out';
+}
+
+/**
+ * Step indexes forming a cycle, first index repeated at the end
+ */
+function findCycle(dependencies: number[][]): number[] | undefined {
+  const state = new Map<number, 'visiting' | 'done'>();
+  const path: number[] = [];
+
+  const visit = (index: number): number[] | undefined => {
+    if (state.get(index) === 'done') {
+      return undefined;
+    }
+    if (state.get(index) === 'visiting') {
+      return [...path.slice(path.indexOf(index)), index];
+    }
+
+    state.set(index, 'visiting');
+    path.push(index);
+    for (const dependency of dependencies[index]) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    state.set(index, 'done');
+    return undefined;
+  };
+
+  for (let index = 0; index < dependencies.length; index++) {
+    const cycle = visit(index);
+    if (cycle) {
+      return cycle.reverse();
+    }
+  }
+  return undefined;
 }
\ No newline at end of file
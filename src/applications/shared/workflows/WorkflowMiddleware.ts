@@ -0,0 +1,126 @@
+/**
+ * Workflow Middleware
+ *
+ * Hooks around every step of a workflow, for cross-cutting behaviour such as
+ * logging, screenshots, tracing, metrics or recovering a step before its
+ * retry. Middleware run in the order they were added; one that throws is
+ * reported and skipped, so it never changes the outcome of a step.
+ */
+
+import { Page } from '@playwright/test';
+import type { StepResult, WorkflowContext, WorkflowState, WorkflowStep } from './BaseWorkflow';
+
+export interface StepEvent {
+  workflow: WorkflowContext;
+  step: WorkflowStep;
+  stepNumber: number;
+  /** 1 for the first run of the step */
+  attempt: number;
+  maxAttempts: number;
+  /** Page of the step's application, if it has one */
+  page?: Page;
+  result: StepResult;
+}
+
+export interface StepErrorEvent extends StepEvent {
+  error: Error;
+  /**
+   * Whether the step runs again. Starts out true while retries are left;
+   * middleware that recovered from the error, e.g. by signing in again, may
+   * set it to give the step one more attempt than configured. Middleware
+   * added later see the changed value.
+   */
+  retry: boolean;
+  /** Wait before the retry in milliseconds */
+  retryDelay: number;
+}
+
+export interface WorkflowMiddleware {
+  /** A middleware added under the name of one already added replaces it */
+  name: string;
+  beforeStep?(event: StepEvent): Promise<void> | void;
+  /** After the step completed */
+  afterStep?(event: StepEvent): Promise<void> | void;
+  /** After a failed attempt, before the retry when there is one */
+  onStepError?(event: StepErrorEvent): Promise<void> | void;
+  onWorkflowEnd?(workflow: WorkflowContext, state: WorkflowState): Promise<void> | void;
+}
+
+export interface ConsoleMiddlewareOptions {
+  log?: (message: string) => void;
+}
+
+/**
+ * Logs each step as it starts and each retry; added to every workflow as
+ * `console`
+ */
+export function consoleMiddleware(options: ConsoleMiddlewareOptions = {}): WorkflowMiddleware {
+  const log = options.log || (message => console.log(message));
+
+  return {
+    name: 'console',
+    beforeStep({ step, stepNumber, attempt, maxAttempts }) {
+      log(attempt === 1
+        ? `Executing step ${stepNumber}: ${step.name} (${step.application})`
+        : `Retrying step ${stepNumber} (attempt ${attempt}/${Math.max(attempt, maxAttempts)})`);
+    }
+  };
+}
+
+export interface ScreenshotMiddlewareOptions {
+  /** Screenshot after each completed step */
+  onSuccess?: boolean;
+  /** Screenshot when a step fails for good */
+  onError?: boolean;
+  dir?: string;
+}
+
+/**
+ * Screenshots after completed and failed steps; added as `screenshots` when
+ * the workflow's captureScreenshots option is on
+ */
+export function screenshotMiddleware(options: ScreenshotMiddlewareOptions = {}): WorkflowMiddleware {
+  const settings = { onSuccess: true, onError: true, dir: 'test-results/workflows', ...options };
+
+  return {
+    name: 'screenshots',
+    async afterStep({ workflow, step, page, result }) {
+      if (settings.onSuccess && page) {
+        const screenshot = await captureStepScreenshot(page, workflow.id, step, settings.dir);
+        if (screenshot) {
+          result.screenshots = [...(result.screenshots || []), screenshot];
+        }
+      }
+    },
+    async onStepError({ workflow, step, page, result, retry }) {
+      if (settings.onError && page && !retry && result.error) {
+        result.error.screenshot = await captureStepScreenshot(page, workflow.id, step, settings.dir, true);
+      }
+    }
+  };
+}
+
+/**
+ * @returns the file name within dir, or undefined when the page could not be captured
+ */
+export async function captureStepScreenshot(
+  page: Page,
+  workflowId: string,
+  step: Pick<WorkflowStep, 'name'>,
+  dir = 'test-results/workflows',
+  isError = false
+): Promise<string | undefined> {
+  try {
+    const filename = `${workflowId}_step${step.name.replace(/\s+/g, '_')}${isError ? '_error' : ''}.png`;
+
+    await page.screenshot({
+      path: `${dir}/${filename}`,
+      fullPage: true
+    });
+
+    return filename;
+  } catch (error: any) {
+    console.warn(`Failed to capture screenshot: ${error.message}`);
+    return undefined;
+  }
+}
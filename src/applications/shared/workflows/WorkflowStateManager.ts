@@ -91,7 +91,7 @@ export class WorkflowStateManager {
       const filePath = path.join(this.stateDir, `${this.workflowId}_state.json`);
       const content = await fs.readFile(filePath, 'utf-8');
       const snapshot = JSON.parse(content) as StateSnapshot;
-      return snapshot.state;
+      return this.reviveDates(snapshot.state);
     } catch (error) {
       return null;
     }
@@ -337,7 +337,7 @@ ${this.getStateSummary(state)}
 - Application: ${step.application}
 - Status: ${step.status}
 - Duration: ${step.duration ? this.formatDuration(step.duration) : 'N/A'}
-${step.error ? `- Error: ${step.error.message}` : ''}
+${step.dependsOn?.length ? `- Depends on: steps ${step.dependsOn.join(', ')}\n` : ''}${step.concurrentWith?.length ? `- Ran alongside: steps ${step.concurrentWith.join(', ')}\n` : ''}${step.error ? `- Error: ${step.error.message}` : ''}
 `;
     });
 
@@ -378,7 +378,20 @@ ${step.error ? `- Error: ${step.error.message}` : ''}
    * Clone state
    */
   private cloneState(state: WorkflowState): WorkflowState {
-    return JSON.parse(JSON.stringify(state));
+    return this.reviveDates(JSON.parse(JSON.stringify(state)));
+  }
+
+  /**
+   * Step times come back from JSON as strings
+   */
+  private reviveDates(state: WorkflowState): WorkflowState {
+    state.stepResults.forEach(result => {
+      result.startTime = new Date(result.startTime);
+      if (result.endTime) {
+        result.endTime = new Date(result.endTime);
+      }
+    });
+    return state;
   }
 
   /**
@@ -0,0 +1,239 @@
+/**
+ * Action Registry
+ *
+ * Named actions that declarative workflow steps refer to. Built in are
+ * generic API calls and page interactions; page objects and API clients
+ * registered by name expose each of their methods as `<name>.<method>`.
+ * The default registry also holds the page objects and API clients of the
+ * applications, e.g. `loginPage.login` or `webappApi.listDocuments`.
+ */
+
+import { APIRequestContext, Page } from '@playwright/test';
+import type { ApplicationType } from '../../../../core/managers/config';
+import { AdminAPI } from '../../../adminapp/api/adminapp/AdminAPI';
+import { AdminDashboardPage } from '../../../adminapp/pages/adminapp/AdminDashboardPage';
+import { SystemLogsPage } from '../../../adminapp/pages/adminapp/SystemLogsPage';
+import { SystemMonitoringPage } from '../../../adminapp/pages/adminapp/SystemMonitoringPage';
+import { UserManagementPage } from '../../../adminapp/pages/adminapp/UserManagementPage';
+import { McpAPI } from '../../../mcp-server/api/mcp-platform/McpAPI';
+import { WebappAPI } from '../../../webapp/api/webapp/WebappAPI';
+import { DashboardPage } from '../../../webapp/pages/webapp/DashboardPage';
+import { DocumentHubPage } from '../../../webapp/pages/webapp/DocumentHubPage';
+import { FeatureGeneratorPage } from '../../../webapp/pages/webapp/FeatureGeneratorPage';
+import { LoginPage } from '../../../webapp/pages/webapp/LoginPage';
+import { SettingsPage } from '../../../webapp/pages/webapp/SettingsPage';
+import { BaseAPI } from '../../api/BaseAPI';
+import { RoleBasedLocators } from '../../helpers/RoleBasedLocators';
+import { WorkflowContext } from '../BaseWorkflow';
+
+export interface ActionContext {
+  workflow: WorkflowContext;
+  application: ApplicationType;
+  page: Page;
+  request: APIRequestContext;
+  /** Base URL of the application UI */
+  baseUrl: string;
+  /** Base URL of the application API */
+  apiUrl: string;
+  /** Aborts when the step times out */
+  signal: AbortSignal;
+}
+
+/**
+ * Receives the step input with its templates resolved; the returned value is
+ * what assertions check and what storeAs keeps
+ */
+export type ActionHandler = (input: any, context: ActionContext) => Promise<any>;
+
+type ObjectFactory = (context: ActionContext) => any;
+
+/**
+ * Registering the same handler or factory under its name again does nothing,
+ * so fixtures that run for every test may register; a different one under a
+ * taken name throws
+ */
+export class ActionRegistry {
+  private actions = new Map<string, ActionHandler>();
+  private objects = new Map<string, ObjectFactory>();
+  /** The factories objects were registered with, to recognise them again */
+  private sources = new Map<string, Function>();
+
+  register(name: string, handler: ActionHandler): this {
+    if (this.actions.get(name) === handler) {
+      return this;
+    }
+    if (this.has(name)) {
+      throw new Error(`Action ${name} is already registered`);
+    }
+    this.actions.set(name, handler);
+    return this;
+  }
+
+  /**
+   * Expose the methods of a page object as `<name>.<method>`
+   */
+  registerPageObject(name: string, create: (page: Page) => any): this {
+    return this.registerObject(name, create, context => create(context.page));
+  }
+
+  /**
+   * Expose the methods of an API client as `<name>.<method>`
+   */
+  registerApiClient(name: string, create: (request: APIRequestContext, baseURL: string) => any): this {
+    return this.registerObject(name, create, context => create(context.request, context.apiUrl));
+  }
+
+  has(name: string): boolean {
+    return this.actions.has(name) || this.objects.has(objectName(name));
+  }
+
+  /**
+   * Page object and API client methods are only known once the object is
+   * created; an unknown method fails when the step runs
+   */
+  resolve(name: string): ActionHandler {
+    const handler = this.actions.get(name);
+    if (handler) {
+      return handler;
+    }
+
+    const create = this.objects.get(objectName(name));
+    if (!create) {
+      throw new Error(`Unknown action ${name}; registered: ${this.list().join(', ')}`);
+    }
+    const method = name.slice(objectName(name).length + 1);
+    return async (input, context) => {
+      const target = create(context);
+      if (typeof target[method] !== 'function') {
+        throw new Error(`${objectName(name)} has no method ${method}`);
+      }
+      // An array input is the argument list, anything else the only argument
+      const args = input === undefined ? [] : Array.isArray(input) ? input : [input];
+      return target[method](...args);
+    };
+  }
+
+  list(): string[] {
+    return [...this.actions.keys(), ...[...this.objects.keys()].map(name => `${name}.*`)].sort();
+  }
+
+  private registerObject(name: string, source: Function, create: ObjectFactory): this {
+    if (this.sources.get(name) === source) {
+      return this;
+    }
+    if (this.objects.has(name) || [...this.actions.keys()].some(action => objectName(action) === name)) {
+      throw new Error(`Action ${name} is already registered`);
+    }
+    this.objects.set(name, create);
+    this.sources.set(name, source);
+    return this;
+  }
+}
+
+function objectName(action: string): string {
+  const dot = action.lastIndexOf('.');
+  return dot === -1 ? action : action.slice(0, dot);
+}
+
+/**
+ * `api.get`, `api.post`, `api.put`, `api.patch` and `api.delete` take
+ * `{ path, params?, data?, headers? }` and return the response with its
+ * status and parsed body. The page actions take a CSS selector, or a role
+ * and accessible name.
+ */
+export function registerBuiltInActions(registry: ActionRegistry): ActionRegistry {
+  for (const method of ['get', 'post', 'put', 'patch', 'delete'] as const) {
+    registry.register(`api.${method}`, async (input, context) => {
+      const api = new BaseAPI(context.request, { baseURL: context.apiUrl });
+      const { path, ...options } = input || {};
+      if (!path) {
+        throw new Error(`api.${method} needs a path`);
+      }
+      // Status checks are left to the step assertions
+      return api[method](path, { ...options, failOnStatusCode: false });
+    });
+  }
+
+  registry.register('page.goto', async (input, context) => {
+    const url = typeof input === 'string' ? input : input?.url;
+    await context.page.goto(new URL(url || '/', context.baseUrl).toString());
+    return { url: context.page.url(), title: await context.page.title() };
+  });
+
+  registry.register('page.click', async (input, context) => {
+    await locate(context.page, input).click();
+  });
+
+  registry.register('page.fill', async (input, context) => {
+    await locate(context.page, input).fill(String(input.value));
+  });
+
+  registry.register('page.text', async (input, context) => {
+    return locate(context.page, input).innerText();
+  });
+
+  registry.register('page.visible', async (input, context) => {
+    return locate(context.page, input).isVisible();
+  });
+
+  registry.register('wait', async (input, context) => {
+    const ms = typeof input === 'number' ? input : input?.ms || 0;
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      context.signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(context.signal.reason);
+      }, { once: true });
+    });
+  });
+
+  return registry;
+}
+
+function locate(page: Page, input: any) {
+  if (typeof input === 'string') {
+    return page.locator(input);
+  }
+  if (input?.selector) {
+    return page.locator(input.selector);
+  }
+  if (input?.role) {
+    return page.getByRole(input.role, input.name ? { name: input.name } : undefined);
+  }
+  if (input?.label) {
+    return page.getByLabel(input.label);
+  }
+  throw new Error('Page actions need a selector, a role or a label');
+}
+
+/**
+ * Page objects of the web and admin applications under their class names,
+ * e.g. `loginPage` and `userManagementPage`, and the `webappApi`, `adminApi`
+ * and `mcpApi` clients. Page objects act on the page of the step's application.
+ */
+export function registerApplicationObjects(registry: ActionRegistry): ActionRegistry {
+  const pageObjects = {
+    loginPage: LoginPage,
+    dashboardPage: DashboardPage,
+    documentHubPage: DocumentHubPage,
+    featureGeneratorPage: FeatureGeneratorPage,
+    settingsPage: SettingsPage,
+    adminDashboardPage: AdminDashboardPage,
+    userManagementPage: UserManagementPage,
+    systemLogsPage: SystemLogsPage,
+    systemMonitoringPage: SystemMonitoringPage
+  };
+  for (const [name, PageObject] of Object.entries(pageObjects)) {
+    registry.registerPageObject(name, page => new PageObject(page, new RoleBasedLocators(page)));
+  }
+
+  registry.registerApiClient('webappApi', (request, baseURL) => new WebappAPI(request, { baseURL }));
+  registry.registerApiClient('adminApi', (request, baseURL) => new AdminAPI(request, { baseURL }));
+  registry.registerApiClient('mcpApi', (request, baseURL) => new McpAPI(request, { baseURL }));
+
+  return registry;
+}
+
+export const actionRegistry = registerApplicationObjects(registerBuiltInActions(new ActionRegistry()));
+
+export default actionRegistry;
@@ -0,0 +1,123 @@
+/**
+ * Declarative Workflow
+ *
+ * A BaseWorkflow whose steps come from a workflow definition instead of a
+ * subclass, so cross-application scenarios can be composed in YAML or JSON
+ */
+
+import { BaseWorkflow, WorkflowContext, WorkflowOptions, WorkflowStep } from '../BaseWorkflow';
+import { ActionHandler, ActionRegistry, actionRegistry } from './ActionRegistry';
+import {
+  WorkflowStepDefinition,
+  WorkflowDefinition,
+  checkAssertions,
+  loadWorkflowDefinition,
+  referencedValues,
+  resolveTemplate,
+  validateWorkflowDefinition
+} from './WorkflowDefinition';
+
+export interface DeclarativeWorkflowOptions {
+  /** Actions the steps may use; the built-in registry by default */
+  registry?: ActionRegistry;
+  /** Override the options of the definition */
+  options?: WorkflowOptions;
+}
+
+export class DeclarativeWorkflow extends BaseWorkflow {
+  private registry: ActionRegistry;
+
+  constructor(
+    browserContext: any,
+    private definition: WorkflowDefinition,
+    options: DeclarativeWorkflowOptions = {}
+  ) {
+    super(browserContext, definition.name, { ...definition.options, ...options.options });
+    this.registry = options.registry || actionRegistry;
+
+    const errors = validateWorkflowDefinition(definition, this.registry);
+    if (errors.length > 0) {
+      throw new Error(`Invalid workflow definition ${definition.name}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    }
+
+    this.context.metadata.description = definition.description;
+    definition.steps.forEach(step => this.addStep(this.compileStep(step)));
+    this.context.state.totalSteps = this.steps.length;
+  }
+
+  /**
+   * The base constructor calls this before the definition is assigned; the
+   * steps are compiled in the constructor instead
+   */
+  protected defineSteps(): void {}
+
+  private compileStep(step: WorkflowStepDefinition): WorkflowStep {
+    // In parallel runs a step waits for the steps storing the values it uses
+    const dependsOn = [...new Set([...(step.dependsOn || []), ...referencedValues(step)])];
+
+    return {
+      name: step.name,
+      application: step.application,
+      storeAs: step.storeAs,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+      timeout: step.timeout,
+      recoverable: step.recoverable,
+      // Retried by the workflow, so retries go through its middleware
+      retries: step.retry ? step.retry.attempts - 1 : undefined,
+      retryDelay: step.retry ? step.retry.delayMs || 0 : undefined,
+      execute: (context: WorkflowContext, signal: AbortSignal) =>
+        this.runAction(step, this.registry.resolve(step.action), context, signal)
+    };
+  }
+
+  /**
+   * Templates resolve on every attempt, against the values stored so far
+   */
+  private async runAction(
+    step: WorkflowStepDefinition,
+    handler: ActionHandler,
+    context: WorkflowContext,
+    signal: AbortSignal
+  ): Promise<any> {
+    const data = context.state.data;
+    const config = this.configManager.getConfig(step.application);
+    const result = await handler(resolveTemplate(step.input, data), {
+      workflow: context,
+      application: step.application,
+      page: this.getPage(step.application),
+      request: this.getAPI(step.application),
+      baseUrl: config.getBaseUrl(),
+      apiUrl: config.getApiUrl(),
+      signal
+    });
+
+    const failures = checkAssertions(result, resolveTemplate(step.assert || [], data));
+    if (failures.length > 0) {
+      throw new Error(`Assertion failed in "${step.name}": ${failures.join('; ')}`);
+    }
+    return result;
+  }
+}
+
+/**
+ * Compile a workflow definition into a runnable workflow
+ */
+export function compileWorkflow(
+  definition: WorkflowDefinition,
+  browserContext: any,
+  options: DeclarativeWorkflowOptions = {}
+): DeclarativeWorkflow {
+  return new DeclarativeWorkflow(browserContext, definition, options);
+}
+
+/**
+ * Load a .yaml, .yml or .json workflow definition and compile it
+ */
+export async function loadWorkflow(
+  file: string,
+  browserContext: any,
+  options: DeclarativeWorkflowOptions = {}
+): Promise<DeclarativeWorkflow> {
+  const definition = await loadWorkflowDefinition(file, options.registry || actionRegistry);
+  return compileWorkflow(definition, browserContext, options);
+}
@@ -0,0 +1,268 @@
+/**
+ * Workflow Definition
+ *
+ * The YAML or JSON format of declarative workflows. Each step names its
+ * application and an action of the ActionRegistry; its input and assertion
+ * values may refer to what earlier steps stored with `${storeAs.path}`. A
+ * value that is only a reference keeps the referenced type; references
+ * inside a longer string are interpolated.
+ *
+ *   name: Upload and search
+ *   steps:
+ *     - name: Upload document
+ *       application: webapp
+ *       action: api.post
+ *       input: { path: /documents, data: { title: Spec } }
+ *       assert:
+ *         - { path: status, equals: 201 }
+ *       storeAs: upload
+ *     - name: Find document
+ *       application: webapp
+ *       action: api.get
+ *       input: { path: "/documents/${upload.data.id}" }
+ *       retry: { attempts: 3, delayMs: 1000 }
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYAML } from 'yaml';
+import type { ApplicationType } from '../../../../core/managers/config';
+import { WorkflowOptions } from '../BaseWorkflow';
+import { ActionRegistry } from './ActionRegistry';
+
+export interface WorkflowDefinition {
+  name: string;
+  description?: string;
+  options?: WorkflowOptions;
+  steps: WorkflowStepDefinition[];
+}
+
+export interface WorkflowStepDefinition {
+  name: string;
+  application: ApplicationType;
+  action: string;
+  input?: any;
+  storeAs?: string;
+  dependsOn?: string[];
+  timeout?: number;
+  recoverable?: boolean;
+  retry?: StepRetry;
+  assert?: StepAssertion[];
+}
+
+export interface StepRetry {
+  /** Attempts in total, the first included */
+  attempts: number;
+  delayMs?: number;
+}
+
+/**
+ * Every check given must hold for the value at `path` of the action result
+ */
+export interface StepAssertion {
+  /** Dot path into the action result, e.g. `status` or `data.items.length`; the whole result when empty */
+  path?: string;
+  equals?: any;
+  notEquals?: any;
+  contains?: any;
+  matches?: string;
+  exists?: boolean;
+  greaterThan?: number;
+  lessThan?: number;
+}
+
+const APPLICATIONS: ApplicationType[] = ['webapp', 'admin', 'mcp'];
+const CHECKS: (keyof StepAssertion)[] = ['equals', 'notEquals', 'contains', 'matches', 'exists', 'greaterThan', 'lessThan'];
+const REFERENCE = /\$\{([^}]+)\}/g;
+
+/**
+ * Load a workflow definition from a .json, .yaml or .yml file
+ */
+export async function loadWorkflowDefinition(file: string, registry?: ActionRegistry): Promise<WorkflowDefinition> {
+  const content = await fs.readFile(file, 'utf-8');
+  const definition = path.extname(file) === '.json' ? JSON.parse(content) : parseYAML(content);
+
+  const errors = validateWorkflowDefinition(definition, registry);
+  if (errors.length > 0) {
+    throw new Error(`Invalid workflow definition ${file}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return definition as WorkflowDefinition;
+}
+
+/**
+ * Structural errors, unknown actions when a registry is given, and
+ * references to values no earlier step stores
+ */
+export function validateWorkflowDefinition(definition: any, registry?: ActionRegistry): string[] {
+  if (!definition || typeof definition !== 'object') {
+    return ['the definition must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (typeof definition.name !== 'string' || !definition.name) {
+    errors.push('name is required');
+  }
+  if (!Array.isArray(definition.steps) || definition.steps.length === 0) {
+    errors.push('steps must list at least one step');
+    return errors;
+  }
+
+  const names = new Set<string>();
+  const stored = new Set<string>();
+  definition.steps.forEach((step: any, index: number) => {
+    const label = `step ${index + 1}${typeof step?.name === 'string' ? ` (${step.name})` : ''}`;
+    if (!step || typeof step !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    if (typeof step.name !== 'string' || !step.name) {
+      errors.push(`${label}: name is required`);
+    } else if (names.has(step.name)) {
+      errors.push(`${label}: name is used by an earlier step`);
+    }
+    if (!APPLICATIONS.includes(step.application)) {
+      errors.push(`${label}: application must be one of ${APPLICATIONS.join(', ')}`);
+    }
+    if (typeof step.action !== 'string' || !step.action) {
+      errors.push(`${label}: action is required`);
+    } else if (registry && !registry.has(step.action)) {
+      errors.push(`${label}: unknown action ${step.action}`);
+    }
+    if (step.storeAs !== undefined && (typeof step.storeAs !== 'string' || step.storeAs.includes('.'))) {
+      errors.push(`${label}: storeAs must be a name without dots`);
+    }
+    if (step.dependsOn !== undefined && (!Array.isArray(step.dependsOn) || step.dependsOn.some((name: any) => typeof name !== 'string'))) {
+      errors.push(`${label}: dependsOn must list step names or storeAs keys`);
+    }
+    if (step.timeout !== undefined && !(typeof step.timeout === 'number' && step.timeout > 0)) {
+      errors.push(`${label}: timeout must be a positive number of milliseconds`);
+    }
+    if (step.retry !== undefined && !(Number.isInteger(step.retry?.attempts) && step.retry.attempts >= 1)) {
+      errors.push(`${label}: retry.attempts must be a whole number of at least 1`);
+    }
+    if (step.assert !== undefined) {
+      if (!Array.isArray(step.assert)) {
+        errors.push(`${label}: assert must be a list`);
+      } else {
+        step.assert.forEach((assertion: any, position: number) => {
+          if (!assertion || !CHECKS.some(check => check in assertion)) {
+            errors.push(`${label}: assertion ${position + 1} needs one of ${CHECKS.join(', ')}`);
+          }
+        });
+      }
+    }
+
+    // Only values stored by earlier steps exist when this one runs
+    for (const key of referencedValues(step)) {
+      if (!stored.has(key)) {
+        errors.push(`${label}: \${${key}} refers to no value stored by an earlier step`);
+      }
+    }
+
+    names.add(step.name);
+    if (typeof step.storeAs === 'string') {
+      stored.add(step.storeAs);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * storeAs keys the input and assertions of a step refer to
+ */
+export function referencedValues(step: Pick<WorkflowStepDefinition, 'input' | 'assert'>): string[] {
+  return [...new Set(references([step.input, step.assert]).map(reference => reference.split('.')[0]))];
+}
+
+/**
+ * Replace `${storeAs.path}` references in strings, arrays and objects
+ */
+export function resolveTemplate(value: any, data: Record<string, any>): any {
+  if (typeof value === 'string') {
+    const whole = /^\$\{([^}]+)\}$/.exec(value);
+    if (whole) {
+      return lookup(data, whole[1]);
+    }
+    return value.replace(REFERENCE, (_, reference) => {
+      const resolved = lookup(data, reference);
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveTemplate(item, data));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveTemplate(item, data)]));
+  }
+  return value;
+}
+
+/**
+ * Messages of the assertions the result fails
+ */
+export function checkAssertions(result: any, assertions: StepAssertion[]): string[] {
+  const failures: string[] = [];
+
+  for (const assertion of assertions) {
+    const label = assertion.path || 'result';
+    const actual = assertion.path ? getPath(result, assertion.path) : result;
+    const shown = JSON.stringify(actual);
+
+    if ('equals' in assertion && !deepEqual(actual, assertion.equals)) {
+      failures.push(`${label} should equal ${JSON.stringify(assertion.equals)}, got ${shown}`);
+    }
+    if ('notEquals' in assertion && deepEqual(actual, assertion.notEquals)) {
+      failures.push(`${label} should not equal ${shown}`);
+    }
+    if ('contains' in assertion) {
+      const contained = typeof actual === 'string'
+        ? actual.includes(String(assertion.contains))
+        : Array.isArray(actual) && actual.some(item => deepEqual(item, assertion.contains));
+      if (!contained) {
+        failures.push(`${label} should contain ${JSON.stringify(assertion.contains)}, got ${shown}`);
+      }
+    }
+    if ('matches' in assertion && !new RegExp(assertion.matches!).test(String(actual))) {
+      failures.push(`${label} should match /${assertion.matches}/, got ${shown}`);
+    }
+    if ('exists' in assertion && (actual !== undefined && actual !== null) !== assertion.exists) {
+      failures.push(`${label} should ${assertion.exists ? '' : 'not '}exist, got ${shown}`);
+    }
+    if ('greaterThan' in assertion && !(actual > assertion.greaterThan!)) {
+      failures.push(`${label} should be greater than ${assertion.greaterThan}, got ${shown}`);
+    }
+    if ('lessThan' in assertion && !(actual < assertion.lessThan!)) {
+      failures.push(`${label} should be less than ${assertion.lessThan}, got ${shown}`);
+    }
+  }
+
+  return failures;
+}
+
+function references(value: any): string[] {
+  if (typeof value === 'string') {
+    return [...value.matchAll(REFERENCE)].map(match => match[1].trim());
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(references);
+  }
+  return [];
+}
+
+function lookup(data: Record<string, any>, reference: string): any {
+  const [key] = reference.trim().split('.');
+  if (!(key in data)) {
+    throw new Error(`No stored value ${key} for \${${reference}}`);
+  }
+  return getPath(data, reference.trim());
+}
+
+function getPath(value: any, dotPath: string): any {
+  return dotPath.split('.').reduce((node, key) => (node === undefined || node === null ? undefined : node[key]), value);
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
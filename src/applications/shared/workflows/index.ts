@@ -4,6 +4,8 @@
  * Central export point for all workflow components
  */
 
+import { DeclarativeWorkflow, loadWorkflow } from './declarative/DeclarativeWorkflow';
+
 // Base workflow classes
 export { BaseWorkflow } from './BaseWorkflow';
 export type { 
@@ -11,6 +13,8 @@ export type {
   WorkflowState,
   WorkflowStatus,
   WorkflowOptions,
+  WorkflowExecuteOptions,
+  WorkflowResumeOptions,
   WorkflowStep,
   StepResult,
   WorkflowError
@@ -41,6 +45,29 @@ export type { FullQAWorkflowOptions } from './scenarios/FullQAWorkflow';
 export { AdminMonitoringWorkflow } from './scenarios/AdminMonitoringWorkflow';
 export type { MonitoringWorkflowOptions } from './scenarios/AdminMonitoringWorkflow';
 
+// Workflow middleware
+export { consoleMiddleware, screenshotMiddleware, captureStepScreenshot } from './WorkflowMiddleware';
+export type {
+  WorkflowMiddleware,
+  StepEvent,
+  StepErrorEvent,
+  ConsoleMiddlewareOptions,
+  ScreenshotMiddlewareOptions
+} from './WorkflowMiddleware';
+
+// Declarative workflows
+export { DeclarativeWorkflow, compileWorkflow, loadWorkflow } from './declarative/DeclarativeWorkflow';
+export type { DeclarativeWorkflowOptions } from './declarative/DeclarativeWorkflow';
+export { ActionRegistry, actionRegistry, registerApplicationObjects, registerBuiltInActions } from './declarative/ActionRegistry';
+export type { ActionContext, ActionHandler } from './declarative/ActionRegistry';
+export { loadWorkflowDefinition, validateWorkflowDefinition } from './declarative/WorkflowDefinition';
+export type {
+  WorkflowDefinition,
+  WorkflowStepDefinition,
+  StepAssertion,
+  StepRetry
+} from './declarative/WorkflowDefinition';
+
 // Workflow factory
 export class WorkflowFactory {
   /**
@@ -72,6 +99,17 @@ export class WorkflowFactory {
   ): AdminMonitoringWorkflow {
     return new AdminMonitoringWorkflow(browserContext, options);
   }
+
+  /**
+   * Create a workflow from a YAML or JSON definition
+   */
+  static createFromFile(
+    browserContext: any,
+    file: string,
+    options?: import('./declarative/DeclarativeWorkflow').DeclarativeWorkflowOptions
+  ): Promise<DeclarativeWorkflow> {
+    return loadWorkflow(file, browserContext, options);
+  }
 }
 
 // Workflow runner utility
@@ -87,6 +125,7 @@ export class WorkflowRunner {
       screenshot?: boolean;
       report?: boolean;
       stateManager?: WorkflowStateManager;
+      resume?: import('./BaseWorkflow').WorkflowResumeOptions;
     } = {}
   ): Promise<{
     success: boolean;
@@ -99,7 +138,7 @@ export class WorkflowRunner {
     try {
       // Initialize state manager if requested
       if (!stateManager) {
-        stateManager = new WorkflowStateManager(workflow['context'].id);
+        stateManager = new WorkflowStateManager(options.resume?.workflowId || workflow['context'].id);
         await stateManager.initialize();
       }
       
@@ -110,7 +149,7 @@ export class WorkflowRunner {
       }
       
       // Execute workflow
-      const state = await workflow.execute();
+      const state = await workflow.execute({ resume: options.resume });
       
       // Save state
       if (stateManager) {
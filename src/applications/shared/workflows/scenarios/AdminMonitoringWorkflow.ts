@@ -58,19 +58,7 @@ export class AdminMonitoringWorkflow extends BaseWorkflow {
       name: 'Setup Monitoring Environment',
       application: 'admin',
       execute: async (context: WorkflowContext) => {
-        // Initialize applications
-        await this.appContext.initializeApp('admin');
-        await this.appContext.initializeApp('webapp');
-        
-        // Authenticate admin
-        const adminCreds = this.configManager.getConfig('admin').getDefaultCredentials();
-        await this.appContext.authenticate('admin', adminCreds!);
-        
-        // Authenticate webapp for activity generation
-        if (this.options.generateActivity) {
-          const webappCreds = this.configManager.getConfig('webapp').getDefaultCredentials();
-          await this.appContext.authenticate('webapp', webappCreds!);
-        }
+        await this.setupSessions();
         
         return {
           authenticated: true,
@@ -411,6 +399,32 @@ export class AdminMonitoringWorkflow extends BaseWorkflow {
     });
   }
 
+  /**
+   * Initialize the admin app and webapp and sign in
+   */
+  private async setupSessions(): Promise<void> {
+    // Initialize applications
+    await this.appContext.initializeApp('admin');
+    await this.appContext.initializeApp('webapp');
+    
+    // Authenticate admin
+    const adminCreds = this.configManager.getConfig('admin').getDefaultCredentials();
+    await this.appContext.authenticate('admin', adminCreds!);
+    
+    // Authenticate webapp for activity generation
+    if (this.options.generateActivity) {
+      const webappCreds = this.configManager.getConfig('webapp').getDefaultCredentials();
+      await this.appContext.authenticate('webapp', webappCreds!);
+    }
+  }
+
+  /**
+   * Restore the sessions of the setup step
+   */
+  protected async reauthenticate(): Promise<void> {
+    await this.setupSessions();
+  }
+
   /**
    * Calculate average metrics
    */
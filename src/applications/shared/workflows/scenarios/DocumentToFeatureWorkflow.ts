@@ -46,14 +46,7 @@ export class DocumentToFeatureWorkflow extends BaseWorkflow {
       name: 'Authenticate to Web Application',
       application: 'webapp',
       execute: async (context: WorkflowContext) => {
-        const config = this.configManager.getConfig('webapp');
-        const credentials = config.getDefaultCredentials();
-        
-        if (!credentials) {
-          throw new Error('No default credentials configured');
-        }
-
-        await this.appContext.authenticate('webapp', credentials);
+        await this.authenticateWebapp();
         
         return {
           authenticated: true,
@@ -373,6 +366,27 @@ export class DocumentToFeatureWorkflow extends BaseWorkflow {
     });
   }
 
+  /**
+   * Sign in to the webapp with the default credentials
+   */
+  private async authenticateWebapp(): Promise<void> {
+    const config = this.configManager.getConfig('webapp');
+    const credentials = config.getDefaultCredentials();
+    
+    if (!credentials) {
+      throw new Error('No default credentials configured');
+    }
+
+    await this.appContext.authenticate('webapp', credentials);
+  }
+
+  /**
+   * Restore the session of the authentication step
+   */
+  protected async reauthenticate(): Promise<void> {
+    await this.authenticateWebapp();
+  }
+
   /**
    * Get workflow results
    */
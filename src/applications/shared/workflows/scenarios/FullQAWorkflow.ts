@@ -80,19 +80,7 @@ export class FullQAWorkflow extends BaseWorkflow {
       name: 'Authenticate All Applications',
       application: 'webapp',
       execute: async (context: WorkflowContext) => {
-        const authResults = {};
-        
-        // Authenticate webapp
-        const webappCreds = this.configManager.getConfig('webapp').getDefaultCredentials();
-        await this.appContext.authenticate('webapp', webappCreds!);
-        authResults['webapp'] = this.appContext.getUser('webapp');
-        
-        // Authenticate admin
-        const adminCreds = this.configManager.getConfig('admin').getDefaultCredentials();
-        await this.appContext.authenticate('admin', adminCreds!);
-        authResults['admin'] = this.appContext.getUser('admin');
-        
-        return authResults;
+        return this.authenticateAll();
       },
       storeAs: 'authData'
     });
@@ -396,6 +384,36 @@ export class FullQAWorkflow extends BaseWorkflow {
     });
   }
 
+  /**
+   * Sign in to the webapp and admin app
+   */
+  private async authenticateAll(): Promise<Record<string, any>> {
+    const authResults = {};
+    
+    // Authenticate webapp
+    const webappCreds = this.configManager.getConfig('webapp').getDefaultCredentials();
+    await this.appContext.authenticate('webapp', webappCreds!);
+    authResults['webapp'] = this.appContext.getUser('webapp');
+    
+    // Authenticate admin
+    const adminCreds = this.configManager.getConfig('admin').getDefaultCredentials();
+    await this.appContext.authenticate('admin', adminCreds!);
+    authResults['admin'] = this.appContext.getUser('admin');
+    
+    return authResults;
+  }
+
+  /**
+   * Restore the sessions of the setup and authentication steps; the test
+   * data they created is in the saved state
+   */
+  protected async reauthenticate(): Promise<void> {
+    await this.appContext.initializeApp('webapp');
+    await this.appContext.initializeApp('admin');
+    await this.appContext.initializeApp('mcp');
+    await this.authenticateAll();
+  }
+
   /**
    * Capture screenshots from all applications
    */
@@ -6,15 +6,18 @@
  */
 
 import { APIRequestContext } from '@playwright/test';
-import { BaseAPI } from '../BaseAPI';
+import { BaseAPI } from '../../../shared/api/BaseAPI';
+import { EndpointContracts } from '../../../shared/api/contracts/EndpointContracts';
 import {
   AuthRequest,
   AuthResponse,
+  Document
+} from '../../../shared/api/types/common.types';
+import {
   DocumentUploadRequest,
   DocumentUploadResponse,
   DocumentListRequest,
   DocumentListResponse,
-  Document,
   DocumentUpdateRequest,
   FeatureGenerationWebappRequest,
   FeatureGenerationWebappResponse,
@@ -30,7 +33,39 @@ import {
   ImportRequest,
   ImportResponse,
   Activity
-} from '../types';
+} from '../../../shared/api/types/webapp.types';
+
+/**
+ * Response type per endpoint, checked when API_CONTRACT_VALIDATION is enabled
+ */
+export const WEBAPP_CONTRACTS: EndpointContracts = {
+  'POST /auth/login': 'AuthResponse',
+  'POST /auth/refresh': 'AuthResponse',
+  'GET /auth/me': 'UserProfile',
+  'POST /documents/upload': 'DocumentUploadResponse',
+  'GET /documents': 'DocumentListResponse',
+  'GET /documents/:id': 'Document',
+  'PATCH /documents/:id': 'Document',
+  'POST /features/generate': 'FeatureGenerationWebappResponse',
+  'GET /features/generation/:id': 'FeatureGenerationWebappResponse',
+  'GET /features': 'FeatureFile[]',
+  'GET /features/:id': 'FeatureFile',
+  'PUT /features/:id': 'FeatureFile',
+  'POST /projects': 'Project',
+  'GET /projects': 'Project[]',
+  'GET /projects/:id': 'Project',
+  'PATCH /projects/:id': 'Project',
+  'POST /chat': 'ChatResponse',
+  'GET /chat/history': 'ChatResponse[]',
+  'POST /search': 'SearchResponse',
+  'GET /settings': 'UserSettings',
+  'PATCH /settings': 'UserSettings',
+  'POST /export': 'ExportResponse',
+  'GET /export/:id': 'ExportResponse',
+  'POST /import': 'ImportResponse',
+  'GET /import/:id': 'ImportResponse',
+  'GET /activity': 'Activity[]'
+};
 
 export class WebappAPI extends BaseAPI {
   constructor(request: APIRequestContext, config?: {
@@ -43,7 +78,8 @@ export class WebappAPI extends BaseAPI {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
       },
-      authToken: config?.authToken
+      authToken: config?.authToken,
+      contracts: WEBAPP_CONTRACTS
     });
   }
 
@@ -103,7 +139,7 @@ export class WebappAPI extends BaseAPI {
    */
   async uploadDocument(request: DocumentUploadRequest): Promise<DocumentUploadResponse> {
     const formData = new FormData();
-    formData.append('file', request.file);
+    formData.append('file', Buffer.isBuffer(request.file) ? new Blob([new Uint8Array(request.file)]) : request.file);
     formData.append('name', request.name);
     
     if (request.description) {
@@ -180,7 +216,7 @@ export class WebappAPI extends BaseAPI {
   async waitForDocumentProcessing(documentId: string, timeout = 60000): Promise<Document> {
     return await this.waitForCondition(
       () => this.getDocument(documentId),
-      (doc) => doc.status === 'PROCESSED' || doc.status === 'FAILED',
+      (doc) => doc.status === 'processed' || doc.status === 'failed',
       {
         timeout,
         interval: 2000,
@@ -389,7 +425,7 @@ export class WebappAPI extends BaseAPI {
    */
   async importData(request: ImportRequest): Promise<ImportResponse> {
     const formData = new FormData();
-    formData.append('file', request.file);
+    formData.append('file', Buffer.isBuffer(request.file) ? new Blob([new Uint8Array(request.file)]) : request.file);
     formData.append('type', request.type);
     formData.append('format', request.format);
     
@@ -484,7 +520,7 @@ export class WebappAPI extends BaseAPI {
 
     return await this.waitForCondition(
       () => this.getGenerationStatus(generation.id),
-      (status) => status.status === 'COMPLETED' || status.status === 'FAILED',
+      (status) => status.status === 'completed' || status.status === 'failed',
       {
         timeout: 120000,
         interval: 3000,
@@ -5,7 +5,7 @@
  */
 
 import { Page } from '@playwright/test';
-import { RoleBasedLocators } from '../helpers/RoleBasedLocators';
+import { RoleBasedLocators } from '../../shared/helpers/RoleBasedLocators';
 import { LoginPage } from './webapp/LoginPage';
 import { DashboardPage } from './webapp/DashboardPage';
 import { DocumentHubPage } from './webapp/DocumentHubPage';
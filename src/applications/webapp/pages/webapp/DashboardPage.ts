@@ -5,8 +5,8 @@
  */
 
 import { Page, Locator, expect } from '@playwright/test';
-import { RoleBasedLocators } from '../../helpers/RoleBasedLocators';
-import { BasePage } from '../BasePage';
+import { RoleBasedLocators } from '../../../shared/helpers/RoleBasedLocators';
+import { BasePage } from '../../../shared/pages/BasePage';
 
 export class DashboardPage extends BasePage {
   public welcomeMessage: Locator;
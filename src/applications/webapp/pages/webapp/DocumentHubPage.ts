@@ -6,9 +6,9 @@
  */
 
 import { Page, Locator, expect } from '@playwright/test';
-import { RoleBasedLocators } from '../../helpers/RoleBasedLocators';
-import { UIPatternLocators } from '../../helpers/UIPatternLocators';
-import { BasePage } from '../BasePage';
+import { RoleBasedLocators } from '../../../shared/helpers/RoleBasedLocators';
+import { UIPatternLocators } from '../../../shared/helpers/UIPatternLocators';
+import { BasePage } from '../../../shared/pages/BasePage';
 
 export class DocumentHubPage extends BasePage {
   private uiPatterns: UIPatternLocators;
@@ -332,17 +332,17 @@ export class DocumentHubPage extends BasePage {
   // ============= Error Handling =============
 
   async getUploadError(): Promise<string> {
-    const errorAlert = this.page.locator(this.roleBasedLocators.alert()).filter({ hasText: /error/i });
+    const errorAlert = this.roleBasedLocators.alert().filter({ hasText: /error/i });
     return await errorAlert.textContent() || '';
   }
 
   async hasUploadError(): Promise<boolean> {
-    const errorAlert = this.page.locator(this.roleBasedLocators.alert()).filter({ hasText: /error/i });
+    const errorAlert = this.roleBasedLocators.alert().filter({ hasText: /error/i });
     return await errorAlert.isVisible();
   }
 
   async dismissError(): Promise<void> {
-    const errorAlert = this.page.locator(this.roleBasedLocators.alert()).filter({ hasText: /error/i });
+    const errorAlert = this.roleBasedLocators.alert().filter({ hasText: /error/i });
     const dismissButton = errorAlert.locator(this.roleBasedLocators.button('Dismiss'));
     if (await dismissButton.isVisible()) {
       await dismissButton.click();
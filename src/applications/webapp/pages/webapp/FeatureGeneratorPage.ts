@@ -6,8 +6,8 @@
  */
 
 import { Page, Locator, expect } from '@playwright/test';
-import { RoleBasedLocators } from '../../helpers/RoleBasedLocators';
-import { UIPatternLocators } from '../../helpers/UIPatternLocators';
+import { RoleBasedLocators } from '../../../shared/helpers/RoleBasedLocators';
+import { UIPatternLocators } from '../../../shared/helpers/UIPatternLocators';
 import { WebappBasePage } from './WebappBasePage';
 
 export class FeatureGeneratorPage extends WebappBasePage {
@@ -41,7 +41,7 @@ export class FeatureGeneratorPage extends WebappBasePage {
     shareButton: Locator;
   };
 
-  public sidebar: {
+  public featureSidebar: {
     container: Locator;
     documentPreview: Locator;
     aiSuggestions: Locator;
@@ -92,7 +92,7 @@ export class FeatureGeneratorPage extends WebappBasePage {
     };
 
     // Sidebar
-    this.sidebar = {
+    this.featureSidebar = {
       container: this.roleBasedLocators.complementary('Feature assistant'),
       documentPreview: this.roleBasedLocators.region('Document preview'),
       aiSuggestions: this.roleBasedLocators.region('AI suggestions'),
@@ -370,23 +370,23 @@ export class FeatureGeneratorPage extends WebappBasePage {
   }
 
   async isSidebarVisible(): Promise<boolean> {
-    return await this.sidebar.container.isVisible();
+    return await this.featureSidebar.container.isVisible();
   }
 
   async getDocumentPreview(): Promise<string> {
-    if (!await this.sidebar.documentPreview.isVisible()) {
+    if (!await this.featureSidebar.documentPreview.isVisible()) {
       await this.toggleSidebar();
     }
     
-    return await this.sidebar.documentPreview.textContent() || '';
+    return await this.featureSidebar.documentPreview.textContent() || '';
   }
 
   async getAISuggestions(): Promise<string[]> {
-    if (!await this.sidebar.aiSuggestions.isVisible()) {
+    if (!await this.featureSidebar.aiSuggestions.isVisible()) {
       await this.toggleSidebar();
     }
     
-    const suggestions = await this.sidebar.aiSuggestions.locator('.suggestion-item').all();
+    const suggestions = await this.featureSidebar.aiSuggestions.locator('.suggestion-item').all();
     const suggestionTexts: string[] = [];
     
     for (const suggestion of suggestions) {
@@ -398,7 +398,7 @@ export class FeatureGeneratorPage extends WebappBasePage {
   }
 
   async applyAISuggestion(suggestionIndex: number): Promise<void> {
-    const suggestions = await this.sidebar.aiSuggestions.locator('.suggestion-item').all();
+    const suggestions = await this.featureSidebar.aiSuggestions.locator('.suggestion-item').all();
     if (suggestionIndex < suggestions.length) {
       await suggestions[suggestionIndex].click();
     }
@@ -409,11 +409,11 @@ export class FeatureGeneratorPage extends WebappBasePage {
     steps: number;
     coverage: string;
   }> {
-    if (!await this.sidebar.testCoverage.isVisible()) {
+    if (!await this.featureSidebar.testCoverage.isVisible()) {
       await this.toggleSidebar();
     }
     
-    const metrics = await this.sidebar.testCoverage.textContent() || '';
+    const metrics = await this.featureSidebar.testCoverage.textContent() || '';
     
     return {
       scenarios: parseInt(metrics.match(/(\d+)\s*scenarios?/i)?.[1] || '0'),
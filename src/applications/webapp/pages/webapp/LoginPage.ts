@@ -6,7 +6,7 @@
  */
 
 import { Page, Locator, expect } from '@playwright/test';
-import { RoleBasedLocators } from '../../helpers/RoleBasedLocators';
+import { RoleBasedLocators } from '../../../shared/helpers/RoleBasedLocators';
 import { WebappBasePage } from './WebappBasePage';
 
 export class LoginPage extends WebappBasePage {
@@ -292,10 +292,6 @@ export class LoginPage extends WebappBasePage {
     }
   }
 
-  async getCurrentUrl(): Promise<string> {
-    return this.page.url();
-  }
-
   async isOnLoginPage(): Promise<boolean> {
     return this.page.url().includes('/login');
   }
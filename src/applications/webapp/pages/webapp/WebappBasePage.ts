@@ -6,9 +6,9 @@
  */
 
 import { Page, Locator, expect } from '@playwright/test';
-import { RoleBasedLocators } from '../../helpers/RoleBasedLocators';
-import { UIPatternLocators } from '../../helpers/UIPatternLocators';
-import { BasePage } from '../BasePage';
+import { RoleBasedLocators } from '../../../shared/helpers/RoleBasedLocators';
+import { UIPatternLocators } from '../../../shared/helpers/UIPatternLocators';
+import { BasePage } from '../../../shared/pages/BasePage';
 
 export abstract class WebappBasePage extends BasePage {
   protected uiPatterns: UIPatternLocators;
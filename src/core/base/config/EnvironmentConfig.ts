@@ -4,12 +4,22 @@
  * Centralized configuration management for different test environments
  */
 
+export type DatabaseDriver = 'postgres' | 'embedded';
+
+export interface DatabasePoolConfig {
+  max: number;
+  idleTimeoutMillis: number;
+  connectionTimeoutMillis: number;
+}
+
 export interface DatabaseConfig {
+  driver: DatabaseDriver;
   host: string;
   port: number;
   database: string;
   username: string;
   password: string;
+  pool: DatabasePoolConfig;
 }
 
 export interface ApiConfig {
@@ -77,11 +87,17 @@ class EnvironmentConfig {
     const baseConfig: EnvironmentConfiguration = {
       environment,
       database: {
+        driver: (process.env.DB_DRIVER as DatabaseDriver) || 'postgres',
         host: process.env.DB_HOST || 'localhost',
         port: parseInt(process.env.DB_PORT || '5432'),
         database: process.env.DB_NAME || 'testoria',
         username: process.env.DB_USER || 'postgres',
-        password: process.env.DB_PASSWORD || 'password'
+        password: process.env.DB_PASSWORD || 'password',
+        pool: {
+          max: parseInt(process.env.DB_POOL_MAX || '10'),
+          idleTimeoutMillis: parseInt(process.env.DB_POOL_IDLE_TIMEOUT || '30000'),
+          connectionTimeoutMillis: parseInt(process.env.DB_CONNECTION_TIMEOUT || '5000')
+        }
       },
       api: {
         baseUrl: this.getApiBaseUrl(environment),
@@ -223,7 +239,7 @@ class EnvironmentConfig {
   }
 
   public getDatabaseConfig(): DatabaseConfig {
-    return { ...this.config.database };
+    return { ...this.config.database, pool: { ...this.config.database.pool } };
   }
 
   public getApiConfig(): ApiConfig {
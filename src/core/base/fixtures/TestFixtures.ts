@@ -10,12 +10,17 @@ import { DocumentHubPage } from '../pages/DocumentHubPage';
 import { FeatureGeneratorPage } from '../pages/FeatureGeneratorPage';
 import { SettingsPage } from '../pages/SettingsPage';
 import { environmentConfig } from '../config/EnvironmentConfig';
-import { testDataManager, TestDataManager } from '../data/TestDataManager';
-import { APIHelper } from '../utils/APIHelper';
-import { DatabaseHelper } from '../utils/DatabaseHelper';
+import { testDataManager, TestDataManager } from '../../data/TestDataManager';
+import { APIHelper } from '../../utils/APIHelper';
+import { DatabaseHelper } from '../../utils/DatabaseHelper';
+import { seedManager } from '../../data/SeedManager';
+import { NetworkHarFixtures, networkHarFixtures } from '../../network/NetworkHarFixtures';
+import { QuarantineFixtures, quarantineFixtures } from '../../quarantine/QuarantineFixtures';
+import { RetryPolicyFixtures, retryPolicyFixtures } from '../../retry/RetryPolicyFixtures';
+import { TestTransactionFixtures, testTransactionFixtures } from '../../../data/TestDataIsolation';
 
 // Define fixture types
-export interface TestoriaFixtures {
+export interface TestoriaFixtures extends NetworkHarFixtures, QuarantineFixtures, RetryPolicyFixtures, TestTransactionFixtures {
   // Page Objects
   homePage: HomePage;
   documentHubPage: DocumentHubPage;
@@ -28,6 +33,7 @@ export interface TestoriaFixtures {
   dataManager: TestDataManager;
   
   // Test data
+  dataSeed: number;
   testDataSetId: string;
   
   // Environment helpers
@@ -77,6 +83,18 @@ class PerformanceTracker {
 
 // Base test with fixtures
 export const test = base.extend<TestoriaFixtures>({
+  // Retry only infrastructure failures; first, so a declined retry fails before a browser starts
+  ...retryPolicyFixtures,
+
+  // HAR record/replay of API and page traffic (HAR_MODE)
+  ...networkHarFixtures,
+
+  // Quarantine annotation for tests listed in the quarantine manifest
+  ...quarantineFixtures,
+
+  // API clients and the saga that undoes what a test created through them
+  ...testTransactionFixtures,
+
   // Environment configuration
   environment: async ({}, use) => {
     await use(environmentConfig);
@@ -122,8 +140,13 @@ export const test = base.extend<TestoriaFixtures>({
     await use(testDataManager);
   },
 
+  // Seed faker per test so a failing test rebuilds the same data under the same TEST_SEED
+  dataSeed: [async ({}, use, testInfo) => {
+    await use(seedManager.seedForTest(testInfo));
+  }, { auto: true }],
+
   // Test Data Set
-  testDataSetId: async ({ dataManager }, use, testInfo) => {
+  testDataSetId: async ({ dataManager, dataSeed }, use, testInfo) => {
     const testName = testInfo.title.replace(/[^a-zA-Z0-9]/g, '_');
     const dataSetId = await dataManager.createDataSet(
       `test_${testName}`,
@@ -320,6 +343,28 @@ export const databaseTest = test.extend({
   }
 });
 
+// Destructive database test fixture (snapshot once per worker, restore after every test)
+export const destructiveDatabaseTest = test.extend<{ restoreDatabaseSnapshot: void }, { databaseSnapshotId: string }>({
+  databaseSnapshotId: [async ({}, use) => {
+    const databaseHelper = new DatabaseHelper(environmentConfig.getDatabaseConfig());
+    await databaseHelper.connect();
+    
+    const snapshotId = await databaseHelper.createTestSnapshot();
+    
+    await use(snapshotId);
+    
+    await databaseHelper.deleteSnapshot(snapshotId);
+    await databaseHelper.disconnect();
+  }, { scope: 'worker' }],
+
+  restoreDatabaseSnapshot: [async ({ databaseHelper, databaseSnapshotId }, use) => {
+    await use();
+    
+    // Undo whatever the test wrote before the next one starts
+    await databaseHelper.restoreFromSnapshot(databaseSnapshotId);
+  }, { auto: true }]
+});
+
 // Cross-browser test fixture - configured via projects in playwright.config.ts
 
 // Mobile test fixture
@@ -6,9 +6,12 @@
 
 import { FullConfig } from '@playwright/test';
 import { environmentConfig } from './config/EnvironmentConfig';
-import { testDataManager } from './data/TestDataManager';
+import { testDataManager } from '../data/TestDataManager';
 import fs from 'fs/promises';
 import path from 'path';
+import { randomUUID } from 'crypto';
+import { seedManager } from '../data/SeedManager';
+import { mockApiServer } from '../../applications/shared/api/mock/MockApiServer';
 
 async function globalSetup(config: FullConfig) {
   console.log('🔧 Setting up Testoria E2E Test Framework...');
@@ -16,20 +19,26 @@ async function globalSetup(config: FullConfig) {
   const startTime = Date.now();
   const environment = environmentConfig.getEnvironment();
   
+  // Workers inherit this, so every TestDataIsolation context shares one run ID
+  process.env.TEST_RUN_ID = process.env.TEST_RUN_ID || randomUUID();
+  
   try {
-    // 1. Environment validation
+    // 1. Local mock APIs (MOCK_API=true)
+    await startMockApiServer();
+    
+    // 2. Environment validation
     await validateEnvironment();
     
-    // 2. Setup test directories
+    // 3. Setup test directories
     await setupTestDirectories();
     
-    // 3. Configure test data manager
+    // 4. Configure test data manager
     await configureTestDataManager();
     
-    // 4. Health checks
+    // 5. Health checks
     await performHealthChecks();
     
-    // 5. Environment-specific setup
+    // 6. Environment-specific setup
     await performEnvironmentSpecificSetup(environment);
     
     const setupTime = Date.now() - startTime;
@@ -44,6 +53,26 @@ async function globalSetup(config: FullConfig) {
   }
 }
 
+/**
+ * Start the mock API server and point the API clients at it
+ */
+async function startMockApiServer(): Promise<void> {
+  if (process.env.MOCK_API !== 'true') {
+    return;
+  }
+  
+  console.log('🧪 Starting mock API server...');
+  
+  const urls = await mockApiServer.start();
+  
+  // Workers inherit these, so WebappAPI, AdminAPI and McpAPI default to the mocks
+  process.env.WEBAPP_API_URL = urls.webapp;
+  process.env.ADMIN_API_URL = urls.admin;
+  process.env.MCP_API_URL = urls.mcp;
+  
+  console.log(`✅ Mock APIs: ${urls.webapp}, ${urls.admin}, ${urls.mcp}`);
+}
+
 /**
  * Validate environment configuration and required services
  */
@@ -85,6 +114,11 @@ async function validateTestEnvironment(): Promise<void> {
   // Validate test environment specific requirements
   const requiredPorts = [3001, 5432, 8000]; // Dev webapp, postgres, chromadb
   
+  // The webapp APIs are served by the mock server
+  if (mockApiServer.isRunning()) {
+    requiredPorts.splice(requiredPorts.indexOf(3001), 1);
+  }
+  
   for (const port of requiredPorts) {
     try {
       const response = await fetch(`http://localhost:${port}/health`, {
@@ -182,7 +216,7 @@ async function configureTestDataManager(): Promise<void> {
   testDataManager.configure({
     persist: environment !== 'production',
     cleanup: environment === 'test' || environment === 'development',
-    seedValue: environment === 'test' ? 12345 : undefined, // Fixed seed for test env
+    seedValue: seedManager.getRunSeed(), // Shared with workers through TEST_SEED
     outputPath: path.resolve('test-data')
   });
   
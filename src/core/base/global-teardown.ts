@@ -6,7 +6,13 @@
 
 import type { FullConfig, FullResult } from '@playwright/test';
 import { environmentConfig } from './config/EnvironmentConfig';
-import { testDataManager } from './data/TestDataManager';
+import { testDataManager } from '../data/TestDataManager';
+import { DatabaseHelper } from '../utils/DatabaseHelper';
+import { databaseSnapshotRegistry } from '../utils/DatabaseSnapshotRegistry';
+import type { TestDataCleaner } from '../../data/DatabaseCleaner';
+import { NamespaceManager } from '../../data/TestDataIsolation';
+import { mockApiServer } from '../../applications/shared/api/mock/MockApiServer';
+import { livingDocumentation } from '../reporters/LivingDocumentation';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -25,16 +31,19 @@ async function globalTeardown(config: FullConfig, result: FullResult) {
     // 2. Cleanup test data
     await cleanupTestData(environment);
     
-    // 3. Archive test artifacts
+    // 3. Drop database snapshots registered by any worker
+    await cleanupDatabaseSnapshots();
+    
+    // 4. Archive test artifacts
     await archiveTestArtifacts(environment);
     
-    // 4. Generate reports
+    // 5. Generate reports
     await generateTeardownReports();
     
-    // 5. Environment-specific cleanup
+    // 6. Environment-specific cleanup
     await performEnvironmentSpecificCleanup(environment);
     
-    // 6. Final health check
+    // 7. Final health check
     await performFinalHealthCheck();
     
     const teardownTime = Date.now() - startTime;
@@ -46,6 +55,9 @@ async function globalTeardown(config: FullConfig, result: FullResult) {
   } catch (error) {
     console.error('❌ Global teardown failed:', error);
     // Don't throw error to avoid masking test results
+  } finally {
+    // Always release the mock API port, even if teardown failed
+    await stopMockApiServer();
   }
 }
 
@@ -126,6 +138,10 @@ async function cleanupTestData(environment: string): Promise<void> {
         console.log('ℹ️  Unknown environment - minimal cleanup performed');
     }
     
+    if (environment !== 'production') {
+      await cleanupRegisteredEntities();
+    }
+    
     // Generate storage usage report
     const storageUsage = await testDataManager.getStorageUsage();
     console.log(`📊 Test data storage: ${storageUsage.totalDataSets} datasets, ${(storageUsage.totalSizeBytes / 1024 / 1024).toFixed(2)} MB`);
@@ -135,6 +151,68 @@ async function cleanupTestData(environment: string): Promise<void> {
   }
 }
 
+/**
+ * Delete entities recorded in the namespace registry by any worker, including crashed ones
+ */
+async function cleanupRegisteredEntities(): Promise<void> {
+  const runIds = NamespaceManager.listRuns();
+  if (runIds.length === 0) {
+    return;
+  }
+  
+  // Loaded here so a missing Prisma client skips this cleanup instead of the whole teardown
+  let cleaner: TestDataCleaner;
+  try {
+    cleaner = new (require('../../data/DatabaseCleaner').TestDataCleaner)();
+  } catch (error: any) {
+    console.warn(`⚠️  Registry cleanup skipped: ${error.message.split('\n')[0]}`);
+    return;
+  }
+  
+  try {
+    for (const runId of runIds) {
+      const result = await cleaner.cleanRegistered(runId);
+      const deleted = Object.values(result.database.recordsDeleted).reduce((sum, count) => sum + count, 0);
+      
+      if (result.database.errors?.length) {
+        console.warn(`⚠️  Registry cleanup for run ${runId} incomplete: ${result.database.errors.join('; ')}`);
+      } else {
+        console.log(`✅ Removed ${deleted} registered entities from run ${runId}`);
+      }
+    }
+  } finally {
+    await cleaner.disconnect();
+  }
+}
+
+/**
+ * Drop database snapshots left in the shared registry
+ */
+async function cleanupDatabaseSnapshots(): Promise<void> {
+  console.log('📸 Cleaning up database snapshots...');
+  
+  try {
+    const snapshots = await databaseSnapshotRegistry.list();
+    if (snapshots.length === 0) {
+      console.log('ℹ️  No database snapshots registered');
+      return;
+    }
+    
+    const databaseHelper = new DatabaseHelper(environmentConfig.getDatabaseConfig());
+    await databaseHelper.connect();
+    
+    try {
+      const removed = await databaseHelper.cleanupSnapshots();
+      console.log(`✅ Removed ${removed} of ${snapshots.length} database snapshots`);
+    } finally {
+      await databaseHelper.disconnect();
+    }
+    
+  } catch (error) {
+    console.warn('⚠️  Database snapshot cleanup failed:', error);
+  }
+}
+
 /**
  * Archive test artifacts for long-term storage
  */
@@ -220,6 +298,9 @@ async function generateTeardownReports(): Promise<void> {
     
     // Generate performance summary
     await generatePerformanceSummary();
+
+    // Render features/ with this run's scenario results
+    await generateLivingDocumentation();
     
     console.log('✅ Teardown reports generated');
     
@@ -228,6 +309,15 @@ async function generateTeardownReports(): Promise<void> {
   }
 }
 
+async function generateLivingDocumentation(): Promise<void> {
+  if (process.env.LIVING_DOCS === 'false') {
+    return;
+  }
+
+  const indexPath = await livingDocumentation.generate();
+  console.log(`📚 Living documentation: ${indexPath}`);
+}
+
 async function generateTestDataReport(): Promise<void> {
   const dataSets = testDataManager.listDataSets();
   const storageUsage = await testDataManager.getStorageUsage();
@@ -408,6 +498,22 @@ async function performFinalHealthCheck(): Promise<void> {
   }
 }
 
+/**
+ * Stop the mock API server started in global setup
+ */
+async function stopMockApiServer(): Promise<void> {
+  if (!mockApiServer.isRunning()) {
+    return;
+  }
+  
+  try {
+    await mockApiServer.stop();
+    console.log('🧪 Mock API server stopped');
+  } catch (error) {
+    console.warn('⚠️  Failed to stop mock API server:', error);
+  }
+}
+
 /**
  * Print final summary to console
  */
@@ -5,6 +5,7 @@
  */
 
 import { LogEntry } from '../pages/adminapp/AdminApiPage';
+import { faker } from './SeedManager';
 
 export class AdminTestDataFactory {
   private static logCounter = 0;
@@ -269,7 +270,7 @@ export class AdminTestDataFactory {
       'Invalid user input',
       'Service unavailable'
     ];
-    return messages[Math.floor(Math.random() * messages.length)];
+    return faker.helpers.arrayElement(messages);
   }
 
   private static getRandomWarningMessage(): string {
@@ -281,7 +282,7 @@ export class AdminTestDataFactory {
       'Rate limit approaching',
       'SSL certificate expires soon'
     ];
-    return messages[Math.floor(Math.random() * messages.length)];
+    return faker.helpers.arrayElement(messages);
   }
 
   private static getRandomInfoMessage(): string {
@@ -294,7 +295,7 @@ export class AdminTestDataFactory {
       'Configuration updated',
       'Feature toggle activated'
     ];
-    return messages[Math.floor(Math.random() * messages.length)];
+    return faker.helpers.arrayElement(messages);
   }
 
   private static getRandomAction(): string {
@@ -307,7 +308,7 @@ export class AdminTestDataFactory {
       'health_check',
       'feature_toggle'
     ];
-    return actions[Math.floor(Math.random() * actions.length)];
+    return faker.helpers.arrayElement(actions);
   }
 
   private static getRandomStackTrace(): string {
@@ -0,0 +1,92 @@
+/**
+ * Seed Manager
+ *
+ * Single source of randomness for test data. The run seed comes from TEST_SEED or
+ * `npm test --seed=<n>` (otherwise it is generated once), and is exported to
+ * TEST_SEED so workers inherit it. Every test reseeds faker from that run seed
+ * plus its own identity, so re-running with the same seed rebuilds the same data
+ * for a failing test.
+ */
+
+import { faker } from '@faker-js/faker';
+import type { TestInfo } from '@playwright/test';
+
+export { faker };
+
+export class SeedManager {
+  private static instance: SeedManager;
+  private runSeed: number;
+
+  private constructor() {
+    this.runSeed = this.resolveRunSeed();
+    faker.seed(this.runSeed);
+  }
+
+  public static getInstance(): SeedManager {
+    if (!SeedManager.instance) {
+      SeedManager.instance = new SeedManager();
+    }
+    return SeedManager.instance;
+  }
+
+  /**
+   * Seed shared by every worker in this run
+   */
+  public getRunSeed(): number {
+    return this.runSeed;
+  }
+
+  /**
+   * Derive a stable seed from the run seed and any identifying parts
+   */
+  public deriveSeed(...parts: string[]): number {
+    // FNV-1a over the run seed and parts, kept to a positive 31-bit integer
+    let hash = 0x811c9dc5;
+    for (const char of [this.runSeed, ...parts].join('::')) {
+      hash ^= char.charCodeAt(0);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) & 0x7fffffff;
+  }
+
+  /**
+   * Reseed faker for a test; the seed depends on the test, not on scheduling or retries
+   */
+  public seedForTest(testInfo: TestInfo): number {
+    const seed = this.deriveSeed(testInfo.project.name, ...testInfo.titlePath);
+    faker.seed(seed);
+    testInfo.annotations.push({ type: 'seed', description: `TEST_SEED=${this.runSeed} (test seed ${seed})` });
+    return seed;
+  }
+
+  /**
+   * Seeded identifiers
+   */
+  public uuid(): string {
+    return faker.string.uuid();
+  }
+
+  public token(length = 9): string {
+    return faker.string.alphanumeric({ length, casing: 'lower' });
+  }
+
+  /**
+   * Stable base36 token for the given parts (does not advance faker)
+   */
+  public stableToken(...parts: string[]): string {
+    return this.deriveSeed(...parts).toString(36);
+  }
+
+  private resolveRunSeed(): number {
+    // npm exposes `npm test --seed=<n>` as npm_config_seed
+    const configured = parseInt(process.env.TEST_SEED || process.env.npm_config_seed || '', 10);
+    const seed = Number.isNaN(configured) ? Math.floor(Math.random() * 0x7fffffff) : configured;
+
+    process.env.TEST_SEED = seed.toString();
+    return seed;
+  }
+}
+
+// Export singleton instance
+export const seedManager = SeedManager.getInstance();
+export default seedManager;
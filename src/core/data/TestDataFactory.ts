@@ -5,6 +5,7 @@
  */
 
 import { faker } from '@faker-js/faker';
+import { seedManager } from './SeedManager';
 
 export interface UserData {
   id: string;
@@ -77,7 +78,7 @@ export class TestDataFactory {
   private seedValue: number;
 
   private constructor() {
-    this.seedValue = Date.now();
+    this.seedValue = seedManager.getRunSeed();
     faker.seed(this.seedValue);
   }
 
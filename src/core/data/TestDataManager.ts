@@ -7,6 +7,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { testDataFactory, DocumentData, FeatureFileData, UserData, ChatMessageData } from './TestDataFactory';
+import { seedManager } from './SeedManager';
 
 export interface TestDataSet {
   id: string;
@@ -78,7 +79,7 @@ export class TestDataManager {
    * Test data set management
    */
   public async createDataSet(name: string, description: string = ''): Promise<string> {
-    const id = `dataset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const id = `dataset_${seedManager.token(9)}`;
     const dataSet: TestDataSet = {
       id,
       name,
@@ -347,7 +348,7 @@ export class TestDataManager {
     const dataSet: TestDataSet = JSON.parse(content);
     
     // Generate new ID to avoid conflicts
-    const newId = `dataset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const newId = `dataset_${seedManager.token(9)}`;
     dataSet.id = newId;
     dataSet.created = new Date();
 
@@ -0,0 +1,226 @@
+/**
+ * Dependency Graph
+ *
+ * Relative imports between the TypeScript modules of the framework, read from
+ * the source without compiling it, plus what each module touches outside the
+ * import graph:
+ *
+ * - routes:     pages it opens with `goto('/path')` or `navigateTo...('/path')`
+ * - endpoints:  API calls through BaseAPI (`this.get('/documents')`)
+ * - declares:   endpoints it declares, such as `{ method: 'GET', path: '/auth/me' }` mock routes
+ * - steps:      Given/When/Then step patterns it defines
+ * - tags:       `@tags` in its string literals, such as test titles and tag options
+ */
+
+import { Dirent, statSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+import { endpointKey, literalPath } from '../../applications/shared/api/openapi/CoverageReport';
+import { HTTP_METHODS, HttpMethod } from '../../applications/shared/api/openapi/OpenAPISpec';
+
+export interface StepPattern {
+  keyword: string;
+  /** Cucumber expression, or a regular expression source when `regexp` is set */
+  pattern: string;
+  regexp?: string;
+  line: number;
+}
+
+export interface ModuleInfo {
+  /** Relative to the working directory */
+  file: string;
+  imports: string[];
+  routes: string[];
+  endpoints: string[];
+  declares: string[];
+  steps: StepPattern[];
+  tags: string[];
+}
+
+export const DEFAULT_SOURCE_ROOTS = ['src', 'support', 'tests', 'features', 'config'];
+
+const IGNORED_DIRS = new Set(['node_modules', '.features-gen', 'dist']);
+const EXTENSIONS = ['.ts', '.tsx', '.js'];
+const STEP_KEYWORDS = ['Given', 'When', 'Then', 'Step'];
+const NAVIGATION = /^(goto|navigateTo\w*)$/;
+const TAG = /(?:^|\s)(@[\w:-]+)/g;
+
+export class DependencyGraph {
+  private importers = new Map<string, Set<string>>();
+
+  private constructor(readonly modules: Map<string, ModuleInfo>) {
+    for (const info of modules.values()) {
+      for (const imported of info.imports) {
+        const set = this.importers.get(imported) || new Set<string>();
+        set.add(info.file);
+        this.importers.set(imported, set);
+      }
+    }
+  }
+
+  static async build(roots = DEFAULT_SOURCE_ROOTS, cwd = process.cwd()): Promise<DependencyGraph> {
+    const files = (await Promise.all(roots.map(root => listSources(path.join(cwd, root))))).flat();
+    const modules = new Map<string, ModuleInfo>();
+
+    for (const file of files) {
+      const relative = path.relative(cwd, file);
+      modules.set(relative, scanModule(relative, await fs.readFile(file, 'utf-8'), cwd));
+    }
+    return new DependencyGraph(modules);
+  }
+
+  importersOf(file: string): string[] {
+    return Array.from(this.importers.get(file) || []);
+  }
+
+  /**
+   * The given modules and every module that imports them, directly or not,
+   * each mapped to the given module it depends on
+   */
+  dependentsOf(files: string[]): Map<string, string> {
+    const causes = new Map<string, string>();
+    for (const file of files) {
+      const queue = [file];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (causes.has(current)) {
+          continue;
+        }
+        causes.set(current, file);
+        queue.push(...this.importersOf(current));
+      }
+    }
+    return causes;
+  }
+}
+
+async function listSources(dir: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const nested = await Promise.all(entries.map(async entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return IGNORED_DIRS.has(entry.name) ? [] : listSources(full);
+    }
+    return EXTENSIONS.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts') ? [full] : [];
+  }));
+  return nested.flat();
+}
+
+export function scanModule(file: string, content: string, cwd = process.cwd()): ModuleInfo {
+  const source = ts.createSourceFile(file, content, ts.ScriptTarget.ES2020, true);
+  const info: ModuleInfo = { file, imports: [], routes: [], endpoints: [], declares: [], steps: [], tags: [] };
+
+  for (const imported of ts.preProcessFile(content, true, true).importedFiles) {
+    if (imported.fileName.startsWith('.')) {
+      info.imports.push(resolveImport(file, imported.fileName, cwd));
+    }
+  }
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)) {
+      scanCall(node, source, info);
+    }
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      info.tags.push(...Array.from(node.text.matchAll(TAG), match => match[1]));
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+      const declared = declaredEndpoint(node);
+      if (declared) {
+        info.declares.push(declared);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  info.routes = [...new Set(info.routes)];
+  info.endpoints = [...new Set(info.endpoints)];
+  info.declares = [...new Set(info.declares)];
+  info.tags = [...new Set(info.tags)];
+  return info;
+}
+
+function scanCall(node: ts.CallExpression, source: ts.SourceFile, info: ModuleInfo): void {
+  const callee = ts.isPropertyAccessExpression(node.expression)
+    ? node.expression.name.text
+    : ts.isIdentifier(node.expression) ? node.expression.text : undefined;
+  const [first] = node.arguments;
+  if (!callee || !first) {
+    return;
+  }
+
+  if (ts.isIdentifier(node.expression) && STEP_KEYWORDS.includes(callee)) {
+    const line = source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+    if (ts.isStringLiteral(first) || ts.isNoSubstitutionTemplateLiteral(first)) {
+      info.steps.push({ keyword: callee, pattern: first.text, line });
+    } else if (ts.isRegularExpressionLiteral(first)) {
+      const literal = first.text;
+      const end = literal.lastIndexOf('/');
+      info.steps.push({ keyword: callee, pattern: literal, regexp: literal.slice(1, end), line });
+    }
+    return;
+  }
+
+  const target = literalPath(first);
+  if (!target) {
+    return;
+  }
+
+  if (NAVIGATION.test(callee) && target.startsWith('/')) {
+    info.routes.push(target.split('?')[0]);
+  } else if (
+    ts.isPropertyAccessExpression(node.expression) &&
+    node.expression.expression.kind === ts.SyntaxKind.ThisKeyword &&
+    HTTP_METHODS.includes(callee as HttpMethod)
+  ) {
+    info.endpoints.push(endpointKey(callee, target));
+  }
+}
+
+/**
+ * `{ method: 'GET', path: '/documents/:id', ... }`
+ */
+function declaredEndpoint(node: ts.ObjectLiteralExpression): string | undefined {
+  const property = (name: string) => node.properties.find(
+    (candidate): candidate is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(candidate) && ts.isIdentifier(candidate.name) && candidate.name.text === name
+  )?.initializer;
+
+  const method = property('method');
+  const endpointPath = property('path');
+  if (!method || !endpointPath || !ts.isStringLiteral(method) || !ts.isStringLiteral(endpointPath)) {
+    return undefined;
+  }
+  if (!HTTP_METHODS.includes(method.text.toLowerCase() as HttpMethod) || !endpointPath.text.startsWith('/')) {
+    return undefined;
+  }
+  return endpointKey(method.text, endpointPath.text);
+}
+
+/**
+ * Resolved like Node does for TypeScript sources. Imports of files that no
+ * longer exist resolve to `<path>.ts`, so deleted modules keep their importers.
+ */
+function resolveImport(from: string, specifier: string, cwd: string): string {
+  const base = path.join(path.dirname(from), specifier);
+  const candidates = [
+    base,
+    ...EXTENSIONS.map(extension => base + extension),
+    ...EXTENSIONS.map(extension => path.join(base, `index${extension}`))
+  ];
+  const found = candidates.find(candidate => {
+    try {
+      return statSync(path.join(cwd, candidate)).isFile();
+    } catch {
+      return false;
+    }
+  });
+  return found || `${base}.ts`;
+}
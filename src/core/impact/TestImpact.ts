@@ -0,0 +1,299 @@
+/**
+ * Test Impact Analysis
+ *
+ * Selects the specs and feature scenarios a change set can affect:
+ *
+ * - modules that import a changed module, directly or not; specs among them
+ *   are selected, step files among them select every scenario using one of
+ *   their steps
+ * - modules calling an endpoint that a changed mock route table or OpenAPI
+ *   document declares, and their importers
+ * - scenarios of changed .feature files
+ * - scenarios and specs carrying an always-run tag such as `@critical`
+ *
+ * Changes reaching the Playwright config or the package setup select every
+ * test.
+ */
+
+import { existsSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AstBuilder, GherkinClassicTokenMatcher, Parser } from '@cucumber/gherkin';
+import { Background, Feature, IdGenerator, Rule, Scenario, Tag } from '@cucumber/messages';
+import { CucumberExpression, ParameterTypeRegistry } from '@cucumber/cucumber-expressions';
+import { endpointKey } from '../../applications/shared/api/openapi/CoverageReport';
+import { listOperations, loadSpec } from '../../applications/shared/api/openapi/OpenAPISpec';
+import { findFeatureFiles } from '../reporters/LivingDocumentation';
+import { readGeneratedSpec } from '../reporters/GherkinMapper';
+import { DependencyGraph, StepPattern } from './DependencyGraph';
+
+export interface TestImpactOptions {
+  alwaysRunTags: string[];
+  featuresDir: string;
+  /** Where playwright-bdd generates specs, mirroring featuresDir */
+  bddOutputDir: string;
+}
+
+export interface ImpactedSpec {
+  file: string;
+  reason: string;
+}
+
+export interface ImpactedScenario {
+  feature: string;
+  name: string;
+  line: number;
+  tags: string[];
+  reason: string;
+  /** Playwright filters for the generated spec, `file:line` once it has been generated */
+  filters: string[];
+}
+
+export interface ImpactReport {
+  generatedAt: string;
+  changedFiles: string[];
+  fullRun: boolean;
+  fullRunReason?: string;
+  /** Routes and endpoints of the changed modules and of the modules linked to them by endpoint */
+  touches: { routes: string[]; endpoints: string[] };
+  specs: ImpactedSpec[];
+  scenarios: ImpactedScenario[];
+  /** Changed files that select no test */
+  unmapped: string[];
+  /** File filters for `playwright test`; empty for a full run */
+  playwrightArgs: string[];
+}
+
+export const DEFAULT_IMPACT_OPTIONS: TestImpactOptions = {
+  alwaysRunTags: ['@critical'],
+  featuresDir: 'features',
+  bddOutputDir: path.join('config', '.features-gen')
+};
+
+const FULL_RUN_FILES = ['package.json', 'package-lock.json', 'tsconfig.json'];
+// Config modules; JSON data there, such as the quarantine manifest, does not select tests
+const CONFIG_MODULE = /^config[\\/].*\.[jt]s$/;
+const SPEC = /\.(spec|test)\.[jt]s$/;
+const SPEC_DOCUMENT = /\.(ya?ml|json)$/;
+
+interface ParsedScenario {
+  feature: string;
+  scenario: Scenario;
+  tags: string[];
+  steps: string[];
+  pickleLines: number[];
+}
+
+export async function analyzeImpact(
+  changedFiles: string[],
+  graph: DependencyGraph,
+  options: Partial<TestImpactOptions> = {}
+): Promise<ImpactReport> {
+  const settings = { ...DEFAULT_IMPACT_OPTIONS, ...options };
+  const changed = [...new Set(changedFiles.map(file => path.normalize(file)))];
+
+  // Endpoints declared by changed mock routes and OpenAPI documents link to their callers
+  const declared = new Map<string, string>();
+  for (const file of changed) {
+    for (const endpoint of await declaredEndpoints(file, graph)) {
+      declared.set(endpoint, declared.get(endpoint) || file);
+    }
+  }
+  const seeds = new Map<string, string>();
+  for (const file of changed) {
+    seeds.set(file, file);
+  }
+  for (const info of graph.modules.values()) {
+    const endpoint = info.endpoints.find(candidate => declared.has(candidate));
+    if (endpoint && !seeds.has(info.file)) {
+      seeds.set(info.file, declared.get(endpoint)!);
+    }
+  }
+
+  const dependents = new Map<string, string>();
+  for (const [module, seedCause] of graph.dependentsOf([...seeds.keys()])) {
+    dependents.set(module, seeds.get(seedCause) || seedCause);
+  }
+
+  const touched = [...seeds.keys()].map(file => graph.modules.get(file)).filter(info => info !== undefined);
+  const touches = {
+    routes: [...new Set(touched.flatMap(info => info.routes))].sort(),
+    endpoints: [...new Set([...touched.flatMap(info => [...info.endpoints, ...info.declares]), ...declared.keys()])].sort()
+  };
+
+  const setupChange = changed.find(file => FULL_RUN_FILES.includes(file));
+  const configModule = [...dependents.keys()].find(file => CONFIG_MODULE.test(file));
+  if (setupChange || configModule) {
+    const cause = setupChange || dependents.get(configModule!)!;
+    return {
+      generatedAt: new Date().toISOString(),
+      changedFiles: changed,
+      fullRun: true,
+      fullRunReason: setupChange || cause === configModule ? `${cause} changed` : `${configModule} depends on ${cause}`,
+      touches,
+      specs: [],
+      scenarios: [],
+      unmapped: [],
+      playwrightArgs: []
+    };
+  }
+
+  const causes = new Set<string>();
+  const specs: ImpactedSpec[] = [];
+  for (const info of graph.modules.values()) {
+    if (!SPEC.test(info.file)) {
+      continue;
+    }
+    const cause = dependents.get(info.file);
+    const alwaysRun = info.tags.find(tag => settings.alwaysRunTags.includes(tag));
+    if (cause) {
+      causes.add(cause);
+      specs.push({ file: info.file, reason: cause === info.file ? 'changed' : `depends on ${cause}` });
+    } else if (alwaysRun) {
+      specs.push({ file: info.file, reason: `always runs (${alwaysRun})` });
+    }
+  }
+
+  const affectedSteps = [...dependents.entries()]
+    .flatMap(([file, cause]) => (graph.modules.get(file)?.steps || []).map(step => ({ file, cause, matcher: stepMatcher(step) })));
+
+  const scenarios: ImpactedScenario[] = [];
+  for (const parsed of await loadScenarios(settings.featuresDir)) {
+    const alwaysRun = parsed.tags.find(tag => settings.alwaysRunTags.includes(tag));
+    const step = affectedSteps.find(candidate => parsed.steps.some(text => candidate.matcher(text)));
+    let reason: string | undefined;
+    if (changed.includes(parsed.feature)) {
+      reason = 'feature changed';
+      causes.add(parsed.feature);
+    } else if (step) {
+      reason = `uses steps from ${step.file}${step.cause === step.file ? '' : ` (depends on ${step.cause})`}`;
+      causes.add(step.cause);
+    } else if (alwaysRun) {
+      reason = `always runs (${alwaysRun})`;
+    }
+
+    if (reason) {
+      scenarios.push({
+        feature: parsed.feature,
+        name: parsed.scenario.name,
+        line: parsed.scenario.location.line,
+        tags: parsed.tags,
+        reason,
+        filters: generatedFilters(parsed, settings)
+      });
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    changedFiles: changed,
+    fullRun: false,
+    touches,
+    specs,
+    scenarios,
+    unmapped: changed.filter(file => !causes.has(file)),
+    playwrightArgs: [...new Set([...specs.map(spec => spec.file), ...scenarios.flatMap(scenario => scenario.filters)])]
+  };
+}
+
+/**
+ * Mock route declarations of a changed module, or the operations of a
+ * changed OpenAPI document
+ */
+async function declaredEndpoints(file: string, graph: DependencyGraph): Promise<string[]> {
+  const info = graph.modules.get(file);
+  if (info) {
+    return info.declares;
+  }
+  if (!SPEC_DOCUMENT.test(file) || !existsSync(file)) {
+    return [];
+  }
+
+  try {
+    return listOperations(await loadSpec(file)).map(operation => endpointKey(operation.method, operation.path));
+  } catch {
+    // Not an OpenAPI document
+    return [];
+  }
+}
+
+function stepMatcher(step: StepPattern): (text: string) => boolean {
+  if (step.regexp !== undefined) {
+    const regexp = new RegExp(step.regexp);
+    return text => regexp.test(text);
+  }
+  try {
+    const expression = new CucumberExpression(step.pattern, new ParameterTypeRegistry());
+    return text => expression.match(text) !== null;
+  } catch {
+    // Custom parameter types are not known here; match the literal parts
+    const literal = step.pattern.replace(/\{[^}]*\}/g, '\u0000').split('\u0000').map(escapeRegExp).join('.*');
+    const regexp = new RegExp(`^${literal}$`);
+    return text => regexp.test(text);
+  }
+}
+
+async function loadScenarios(featuresDir: string): Promise<ParsedScenario[]> {
+  const parser = new Parser(new AstBuilder(IdGenerator.incrementing()), new GherkinClassicTokenMatcher());
+  const scenarios: ParsedScenario[] = [];
+  const tagNames = (tags: readonly Tag[]) => tags.map(tag => tag.name);
+
+  for (const file of await findFeatureFiles(featuresDir)) {
+    const uri = path.relative(process.cwd(), file);
+    let feature: Feature | undefined;
+    try {
+      feature = parser.parse(await fs.readFile(file, 'utf-8')).feature;
+    } catch (error: any) {
+      console.warn(`⚠️  Skipping ${uri} in impact analysis: ${error.message}`);
+      continue;
+    }
+    if (!feature) {
+      continue;
+    }
+
+    type Child = { rule?: Rule; background?: Background; scenario?: Scenario };
+    const collect = (children: readonly Child[], inherited: string[], background: Background[]) => {
+      const backgrounds = [...background, ...children.flatMap(child => child.background ? [child.background] : [])];
+      for (const child of children) {
+        if (child.rule) {
+          collect(child.rule.children, [...inherited, ...tagNames(child.rule.tags)], backgrounds);
+        }
+        if (child.scenario) {
+          const { scenario } = child;
+          const rows = scenario.examples.flatMap(examples => examples.tableBody.map(row => row.location.line));
+          scenarios.push({
+            feature: uri,
+            scenario,
+            tags: [...new Set([...inherited, ...tagNames(scenario.tags), ...scenario.examples.flatMap(examples => tagNames(examples.tags))])],
+            steps: [...backgrounds.flatMap(item => item.steps), ...scenario.steps].map(step => step.text),
+            pickleLines: rows.length > 0 ? rows : [scenario.location.line]
+          });
+        }
+      }
+    };
+    collect(feature.children, tagNames(feature.tags), []);
+  }
+
+  return scenarios;
+}
+
+/**
+ * `file:line` of each generated test of the scenario, or the whole generated
+ * file when playwright-bdd has not generated it yet. A generated file without
+ * the scenario is stale and gets no filter; run bddgen again.
+ */
+function generatedFilters(parsed: ParsedScenario, options: TestImpactOptions): string[] {
+  const generated = path.join(options.bddOutputDir, `${path.relative(options.featuresDir, parsed.feature)}.spec.js`);
+  const spec = readGeneratedSpec(generated);
+  if (!spec) {
+    return [generated];
+  }
+
+  return spec.tests
+    .filter(test => parsed.pickleLines.includes(test.pickleLine))
+    .map(test => `${generated}:${test.pwTestLine}`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,113 @@
+/**
+ * Test Impact CLI
+ *
+ * Usage:
+ *   npm run test:impact -- [--base origin/main | --files a.ts,b.ts] [options]
+ *   npx playwright test --config=config/playwright.config.ts $(npm run -s test:impact -- --base origin/main --format args)
+ *
+ * Options:
+ *   --base <ref>          Changes since the merge base with <ref>, plus uncommitted
+ *                         and untracked files (default: HEAD, i.e. only local changes)
+ *   --files <a,b>         Changed files instead of a git diff
+ *   --always-run <tags>   Tags selected on every change (default: ALWAYS_RUN_TAGS or @critical)
+ *   --format <format>     text (default), json, or args: the Playwright file filters on
+ *                         one line; nothing when the change needs a full run, and
+ *                         arguments that select no test when it affects none
+ *   --output <file>       Report JSON (default: test-results/impact/impact.json)
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from '../utils/cli';
+import { DependencyGraph } from './DependencyGraph';
+import { ImpactReport, analyzeImpact } from './TestImpact';
+
+function git(args: string[]): string[] {
+  return execFileSync('git', args, { encoding: 'utf-8' }).split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * Renames are listed as a deletion and an addition so importers of the old
+ * path are found too
+ */
+function changedFiles(base: string): string[] {
+  const committed = base === 'HEAD' ? [] : git(['diff', '--name-only', '--no-renames', `${base}...HEAD`]);
+  return [
+    ...committed,
+    ...git(['diff', '--name-only', '--no-renames', 'HEAD']),
+    ...git(['ls-files', '--others', '--exclude-standard'])
+  ];
+}
+
+function formatReport(report: ImpactReport): string {
+  const lines = [`🎯 Test impact of ${report.changedFiles.length} changed file(s)`];
+
+  if (report.fullRun) {
+    lines.push(`   Full run required: ${report.fullRunReason}`);
+    return lines.join('\n');
+  }
+
+  lines.push(`   Specs: ${report.specs.length} | Scenarios: ${report.scenarios.length}`);
+  if (report.touches.routes.length > 0 || report.touches.endpoints.length > 0) {
+    lines.push('', 'Routes and endpoints touched:');
+    report.touches.routes.forEach(route => lines.push(`   ${route}`));
+    report.touches.endpoints.forEach(endpoint => {
+      const [method, endpointPath] = endpoint.split(' ');
+      lines.push(`   ${method.toUpperCase()} ${endpointPath}`);
+    });
+  }
+  if (report.specs.length > 0) {
+    lines.push('', 'Specs:');
+    report.specs.forEach(spec => lines.push(`   ${spec.file} (${spec.reason})`));
+  }
+  if (report.scenarios.length > 0) {
+    lines.push('', 'Scenarios:');
+    report.scenarios.forEach(scenario => lines.push(`   ${scenario.feature}:${scenario.line} ${scenario.name} (${scenario.reason})`));
+  }
+  if (report.unmapped.length > 0) {
+    lines.push('', 'Changed files that affect no test:');
+    report.unmapped.forEach(file => lines.push(`   ${file}`));
+  }
+  return lines.join('\n');
+}
+
+export async function main(argv = process.argv.slice(2)): Promise<void> {
+  const args = parseArgs(argv);
+  const files = typeof args.files === 'string'
+    ? args.files.split(',')
+    : changedFiles(typeof args.base === 'string' ? args.base : 'HEAD');
+  const alwaysRun = typeof args['always-run'] === 'string' ? args['always-run'] : process.env.ALWAYS_RUN_TAGS || '@critical';
+  const format = typeof args.format === 'string' ? args.format : 'text';
+  const output = typeof args.output === 'string' ? args.output : path.join('test-results', 'impact', 'impact.json');
+
+  const graph = await DependencyGraph.build();
+  const report = await analyzeImpact(files, graph, {
+    alwaysRunTags: alwaysRun.split(',').map(tag => tag.trim()).filter(Boolean)
+  });
+
+  await fs.mkdir(path.dirname(output), { recursive: true });
+  await fs.writeFile(output, JSON.stringify(report, null, 2));
+
+  switch (format) {
+    case 'json':
+      console.log(JSON.stringify(report, null, 2));
+      break;
+    case 'args':
+      // Without filters Playwright would run everything
+      console.log(report.fullRun || report.playwrightArgs.length > 0
+        ? report.playwrightArgs.join(' ')
+        : '--grep-invert=. --pass-with-no-tests');
+      break;
+    default:
+      console.log(formatReport(report));
+      console.log(`\n📁 Impact report saved to: ${output}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
+}
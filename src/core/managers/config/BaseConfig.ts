@@ -29,7 +29,7 @@ export interface ValidationResult {
 }
 
 export abstract class BaseConfig<T extends z.ZodType> {
-  protected config: z.infer<T>;
+  protected config!: z.infer<T>;
   protected schema: T;
   protected sources: ConfigSource[] = [];
   protected environment: string;
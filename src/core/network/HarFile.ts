@@ -0,0 +1,174 @@
+/**
+ * HAR File
+ *
+ * HAR 1.2 structures and file helpers for network recordings. Entries carry a
+ * `_source` field recording whether they came from a BaseAPI call or from page
+ * traffic, so one file can hold everything a test sent.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  headers: HarHeader[];
+  queryString: HarHeader[];
+  cookies: HarHeader[];
+  postData?: {
+    mimeType: string;
+    text: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  headers: HarHeader[];
+  cookies: HarHeader[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: 'base64';
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export type HarSource = 'api' | 'page';
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _source: HarSource;
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: never[];
+    entries: HarEntry[];
+  };
+}
+
+// Never persist credentials into recordings
+const REDACTED_HEADERS = ['authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+const TEXT_CONTENT = /^(text\/|application\/(json|xml|javascript|x-www-form-urlencoded)|[^;]*\+json)/;
+
+export function createHarLog(entries: HarEntry[] = []): HarLog {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'testoria-e2e', version: '1.0.0' },
+      pages: [],
+      entries
+    }
+  };
+}
+
+export async function readHar(file: string): Promise<HarLog | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as HarLog;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw new Error(`Failed to read HAR file ${file}: ${error.message}`);
+  }
+}
+
+export async function writeHar(file: string, har: HarLog): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(har, null, 2));
+}
+
+export function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({
+    name,
+    value: REDACTED_HEADERS.includes(name.toLowerCase()) ? '[redacted]' : value
+  }));
+}
+
+export function fromHarHeaders(headers: HarHeader[]): Record<string, string> {
+  return Object.fromEntries(
+    headers
+      .filter(header => !REDACTED_HEADERS.includes(header.name.toLowerCase()))
+      .map(header => [header.name.toLowerCase(), header.value])
+  );
+}
+
+/**
+ * Build an entry from the parts both BaseAPI and page routes can provide
+ */
+export function createHarEntry(details: {
+  source: HarSource;
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  postData?: { mimeType: string; text: string };
+  status: number;
+  statusText: string;
+  responseHeaders: Record<string, string>;
+  body: Buffer;
+  startTime: number;
+}): HarEntry {
+  const url = new URL(details.url);
+  const mimeType = details.responseHeaders['content-type'] || 'application/octet-stream';
+  const isText = TEXT_CONTENT.test(mimeType);
+
+  return {
+    startedDateTime: new Date(details.startTime).toISOString(),
+    time: Date.now() - details.startTime,
+    request: {
+      method: details.method.toUpperCase(),
+      url: details.url,
+      httpVersion: 'HTTP/1.1',
+      headers: toHarHeaders(details.requestHeaders),
+      queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+      cookies: [],
+      postData: details.postData,
+      headersSize: -1,
+      bodySize: details.postData ? Buffer.byteLength(details.postData.text) : 0
+    },
+    response: {
+      status: details.status,
+      statusText: details.statusText,
+      httpVersion: 'HTTP/1.1',
+      headers: toHarHeaders(details.responseHeaders),
+      cookies: [],
+      content: {
+        size: details.body.length,
+        mimeType,
+        ...(isText ? { text: details.body.toString('utf-8') } : { text: details.body.toString('base64'), encoding: 'base64' as const })
+      },
+      redirectURL: details.responseHeaders['location'] || '',
+      headersSize: -1,
+      bodySize: details.body.length
+    },
+    cache: {},
+    timings: { send: 0, wait: Date.now() - details.startTime, receive: 0 },
+    _source: details.source
+  };
+}
+
+export function harResponseBody(entry: HarEntry): Buffer {
+  const { text = '', encoding } = entry.response.content;
+  return Buffer.from(text, encoding === 'base64' ? 'base64' : 'utf-8');
+}
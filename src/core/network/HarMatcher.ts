@@ -0,0 +1,115 @@
+/**
+ * HAR Matcher
+ *
+ * Builds the lookup key a request is replayed by. Which parts take part is
+ * configurable; bodies are normalized so key order, volatile fields and
+ * multipart boundaries do not break a match.
+ */
+
+export interface HarMatchOptions {
+  method: boolean;
+  /** Compare path and query string */
+  url: boolean;
+  /** Also compare scheme, host and port */
+  origin: boolean;
+  body: boolean;
+  ignoreQueryParams: string[];
+  ignoreBodyFields: string[];
+}
+
+export interface HarRequestDescription {
+  method: string;
+  url: string;
+  postData?: { mimeType: string; text: string };
+}
+
+const DEFAULT_IGNORED_FIELDS = ['timestamp', 'requestId', 'nonce'];
+
+function list(value: string | undefined, fallback: string[]): string[] {
+  return value === undefined ? fallback : value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * HAR_MATCH           parts to match on: method,url,origin,body (default method,url,body)
+ * HAR_IGNORE_QUERY    query parameters left out of the URL
+ * HAR_IGNORE_FIELDS   JSON body fields left out at any depth
+ */
+export function harMatchOptionsFromEnv(): HarMatchOptions {
+  const parts = list(process.env.HAR_MATCH, ['method', 'url', 'body']);
+  return {
+    method: parts.includes('method'),
+    url: parts.includes('url') || parts.includes('origin'),
+    origin: parts.includes('origin'),
+    body: parts.includes('body'),
+    ignoreQueryParams: list(process.env.HAR_IGNORE_QUERY, []),
+    ignoreBodyFields: list(process.env.HAR_IGNORE_FIELDS, DEFAULT_IGNORED_FIELDS)
+  };
+}
+
+export function requestKey(request: HarRequestDescription, options: HarMatchOptions): string {
+  const parts: string[] = [];
+
+  if (options.method) {
+    parts.push(request.method.toUpperCase());
+  }
+  if (options.url) {
+    parts.push(normalizeURL(request.url, options));
+  }
+  if (options.body && request.postData?.text) {
+    parts.push(normalizeBody(request.postData.text, request.postData.mimeType, options.ignoreBodyFields));
+  }
+
+  return parts.join(' ');
+}
+
+export function normalizeURL(rawURL: string, options: Pick<HarMatchOptions, 'origin' | 'ignoreQueryParams'>): string {
+  const url = new URL(rawURL);
+  const query = [...url.searchParams]
+    .filter(([name]) => !options.ignoreQueryParams.includes(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  return `${options.origin ? url.origin : ''}${url.pathname}${query ? `?${query}` : ''}`;
+}
+
+export function normalizeBody(text: string, mimeType: string, ignoreFields: string[]): string {
+  if (mimeType.includes('json')) {
+    try {
+      return JSON.stringify(canonical(JSON.parse(text), ignoreFields));
+    } catch {
+      return text;
+    }
+  }
+
+  if (mimeType.includes('x-www-form-urlencoded')) {
+    return [...new URLSearchParams(text)]
+      .filter(([name]) => !ignoreFields.includes(name))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+  }
+
+  if (mimeType.includes('multipart/')) {
+    const boundary = /boundary=([^;]+)/.exec(mimeType)?.[1];
+    return boundary ? text.split(boundary).join('') : text;
+  }
+
+  return text;
+}
+
+function canonical(value: any, ignoreFields: string[]): any {
+  if (Array.isArray(value)) {
+    return value.map(item => canonical(item, ignoreFields));
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .filter(key => !ignoreFields.includes(key))
+      .sort()
+      .reduce<Record<string, any>>((result, key) => {
+        result[key] = canonical(value[key], ignoreFields);
+        return result;
+      }, {});
+  }
+  return value;
+}
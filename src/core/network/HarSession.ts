@@ -0,0 +1,329 @@
+/**
+ * HAR Session
+ *
+ * Records or replays the network traffic of a single test. BaseAPI calls and
+ * page traffic routed through the browser context share one HAR file, so a
+ * replayed test needs neither the live AI generation nor Chroma search.
+ *
+ * HAR_MODE       off | record | replay (default off)
+ * HAR_DIR        where recordings are kept (default test-data/har)
+ * HAR_URL_FILTER regex of page URLs to record/replay (default /api/)
+ * HAR_UNMATCHED  abort | fallback - what replay does with unrecorded requests
+ *
+ * Matching is configured through HarMatcher (HAR_MATCH, HAR_IGNORE_QUERY,
+ * HAR_IGNORE_FIELDS).
+ */
+
+import * as path from 'path';
+import { APIRequestContext, APIResponse, BrowserContext, Request, Route, TestInfo } from '@playwright/test';
+import {
+  HarEntry,
+  HarSource,
+  createHarEntry,
+  createHarLog,
+  fromHarHeaders,
+  harResponseBody,
+  readHar,
+  writeHar
+} from './HarFile';
+import { HarMatchOptions, HarRequestDescription, harMatchOptionsFromEnv, requestKey } from './HarMatcher';
+
+export type HarMode = 'off' | 'record' | 'replay';
+
+type FetchOptions = NonNullable<Parameters<APIRequestContext['fetch']>[1]>;
+
+export interface HarRequestSummary {
+  source: HarSource;
+  method: string;
+  url: string;
+}
+
+export interface HarSessionSummary {
+  mode: Exclude<HarMode, 'off'>;
+  file: string;
+  recorded: number;
+  replayed: number;
+  unmatched: HarRequestSummary[];
+  stale: HarRequestSummary[];
+}
+
+export class HarSession {
+  private static current?: HarSession;
+
+  private entries: HarEntry[] = [];
+  private index = new Map<string, number[]>();
+  private served = new Map<string, number>();
+  private used = new Set<number>();
+  private unmatched: HarRequestSummary[] = [];
+  private replayed = 0;
+
+  constructor(
+    readonly mode: Exclude<HarMode, 'off'>,
+    readonly file: string,
+    private readonly options: HarMatchOptions = harMatchOptionsFromEnv(),
+    private readonly urlFilter = new RegExp(process.env.HAR_URL_FILTER || '/api/'),
+    private readonly fallback = process.env.HAR_UNMATCHED === 'fallback'
+  ) {}
+
+  static modeFromEnv(): HarMode {
+    const mode = process.env.HAR_MODE;
+    return mode === 'record' || mode === 'replay' ? mode : 'off';
+  }
+
+  /**
+   * The session of the test running in this worker, if any
+   */
+  static active(): HarSession | undefined {
+    return HarSession.current;
+  }
+
+  /**
+   * One file per test: <HAR_DIR>/<project>/<spec file>/<test title>.har
+   */
+  static fileFor(testInfo: TestInfo): string {
+    const slug = (value: string) => value.replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^_+|_+$/g, '');
+    const specFile = path.relative(testInfo.project.testDir, testInfo.file).replace(/\.[jt]s$/, '');
+    const title = testInfo.titlePath.slice(1).map(slug).join('__');
+
+    return path.join(
+      process.env.HAR_DIR || path.join('test-data', 'har'),
+      slug(testInfo.project.name || 'default'),
+      ...specFile.split(path.sep).map(slug),
+      `${title}.har`
+    );
+  }
+
+  async start(): Promise<void> {
+    if (this.mode === 'replay') {
+      const har = await readHar(this.file);
+      if (!har) {
+        throw new Error(`No HAR recording at ${this.file}; run the test with HAR_MODE=record first`);
+      }
+      this.entries = har.log.entries;
+      this.entries.forEach((entry, position) => {
+        const key = requestKey(entry.request, this.options);
+        this.index.set(key, [...(this.index.get(key) || []), position]);
+      });
+    }
+
+    HarSession.current = this;
+  }
+
+  async stop(): Promise<HarSessionSummary> {
+    if (HarSession.current === this) {
+      HarSession.current = undefined;
+    }
+
+    if (this.mode === 'record') {
+      await writeHar(this.file, createHarLog(this.entries));
+    }
+
+    return {
+      mode: this.mode,
+      file: this.file,
+      recorded: this.mode === 'record' ? this.entries.length : 0,
+      replayed: this.replayed,
+      unmatched: this.unmatched,
+      stale: this.mode === 'replay'
+        ? this.entries.filter((_, position) => !this.used.has(position)).map(describe)
+        : []
+    };
+  }
+
+  // ============= BaseAPI =============
+
+  /**
+   * Recorded response for a BaseAPI call; undefined means send it for real
+   */
+  replayAPI(method: string, url: string, options: FetchOptions): APIResponse | undefined {
+    if (this.mode !== 'replay') {
+      return undefined;
+    }
+
+    const request = { method, url, postData: apiPostData(options) };
+    const entry = this.lookup(request);
+    if (entry) {
+      return new ReplayedAPIResponse(entry) as unknown as APIResponse;
+    }
+
+    this.unmatched.push({ source: 'api', method: method.toUpperCase(), url });
+    if (!this.fallback) {
+      throw new Error(`No recorded response for ${method.toUpperCase()} ${url} in ${this.file}`);
+    }
+    return undefined;
+  }
+
+  async recordAPI(method: string, url: string, options: FetchOptions, response: APIResponse, startTime: number): Promise<void> {
+    if (this.mode !== 'record') {
+      return;
+    }
+
+    this.entries.push(createHarEntry({
+      source: 'api',
+      method,
+      url,
+      requestHeaders: (options.headers || {}) as Record<string, string>,
+      postData: apiPostData(options),
+      status: response.status(),
+      statusText: response.statusText(),
+      responseHeaders: response.headers(),
+      body: await response.body(),
+      startTime
+    }));
+  }
+
+  // ============= Page traffic =============
+
+  /**
+   * Route matching requests of every page in the context through the session
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    await context.route(url => this.urlFilter.test(url.toString()), route => this.handleRoute(route));
+  }
+
+  private async handleRoute(route: Route): Promise<void> {
+    const request = route.request();
+    const description = { method: request.method(), url: request.url(), postData: pagePostData(request) };
+
+    if (this.mode === 'replay') {
+      const entry = this.lookup(description);
+      if (entry) {
+        await route.fulfill({
+          status: entry.response.status,
+          headers: fromHarHeaders(entry.response.headers),
+          body: harResponseBody(entry)
+        });
+        return;
+      }
+
+      this.unmatched.push({ source: 'page', method: description.method, url: description.url });
+      await (this.fallback ? route.fallback() : route.abort('failed'));
+      return;
+    }
+
+    const startTime = Date.now();
+    const response = await route.fetch();
+    const body = await response.body();
+    this.entries.push(createHarEntry({
+      source: 'page',
+      ...description,
+      requestHeaders: await request.allHeaders(),
+      status: response.status(),
+      statusText: response.statusText(),
+      responseHeaders: response.headers(),
+      body,
+      startTime
+    }));
+    await route.fulfill({ response, body });
+  }
+
+  /**
+   * Repeated requests (e.g. status polling) are served in recorded order; the
+   * last recording keeps answering once they run out
+   */
+  private lookup(request: HarRequestDescription): HarEntry | undefined {
+    const key = requestKey(request, this.options);
+    const positions = this.index.get(key);
+    if (!positions) {
+      return undefined;
+    }
+
+    const count = this.served.get(key) || 0;
+    const position = positions[Math.min(count, positions.length - 1)];
+    this.served.set(key, count + 1);
+    this.used.add(position);
+    this.replayed++;
+    return this.entries[position];
+  }
+}
+
+/**
+ * Minimal APIResponse backed by a HAR entry, enough for BaseAPI.handleResponse
+ */
+class ReplayedAPIResponse {
+  private readonly headerMap: Record<string, string>;
+
+  constructor(private readonly entry: HarEntry) {
+    this.headerMap = fromHarHeaders(entry.response.headers);
+  }
+
+  url(): string {
+    return this.entry.request.url;
+  }
+
+  status(): number {
+    return this.entry.response.status;
+  }
+
+  statusText(): string {
+    return this.entry.response.statusText;
+  }
+
+  ok(): boolean {
+    return this.status() >= 200 && this.status() < 300;
+  }
+
+  headers(): Record<string, string> {
+    return { ...this.headerMap };
+  }
+
+  headersArray(): Array<{ name: string; value: string }> {
+    return Object.entries(this.headerMap).map(([name, value]) => ({ name, value }));
+  }
+
+  async body(): Promise<Buffer> {
+    return harResponseBody(this.entry);
+  }
+
+  async text(): Promise<string> {
+    return harResponseBody(this.entry).toString('utf-8');
+  }
+
+  async json(): Promise<any> {
+    return JSON.parse(await this.text());
+  }
+
+  async dispose(): Promise<void> {}
+}
+
+function describe(entry: HarEntry): HarRequestSummary {
+  return { source: entry._source, method: entry.request.method, url: entry.request.url };
+}
+
+function apiPostData(options: FetchOptions): HarEntry['request']['postData'] {
+  const headers = (options.headers || {}) as Record<string, string>;
+  const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+
+  if (options.multipart) {
+    // Files are reduced to their names; boundaries differ on every request
+    const fields = Object.fromEntries(Object.entries(options.multipart).map(([name, value]) => [
+      name,
+      value && typeof value === 'object' && 'name' in value ? `file:${value.name}` : String(value)
+    ]));
+    return { mimeType: 'multipart/form-data', text: JSON.stringify(fields) };
+  }
+  if (options.form) {
+    const form = options.form instanceof URLSearchParams
+      ? options.form
+      : new URLSearchParams(Object.entries(options.form as Record<string, any>).map(([name, value]) => [name, String(value)]));
+    return { mimeType: 'application/x-www-form-urlencoded', text: form.toString() };
+  }
+  if (options.data === undefined) {
+    return undefined;
+  }
+  if (typeof options.data === 'string') {
+    return { mimeType: contentType || 'text/plain', text: options.data };
+  }
+  if (Buffer.isBuffer(options.data)) {
+    return { mimeType: contentType || 'application/octet-stream', text: options.data.toString('base64') };
+  }
+  return { mimeType: 'application/json', text: JSON.stringify(options.data) };
+}
+
+function pagePostData(request: Request): HarEntry['request']['postData'] {
+  const text = request.postData();
+  if (text === null) {
+    return undefined;
+  }
+  return { mimeType: request.headers()['content-type'] || 'text/plain', text };
+}
@@ -0,0 +1,47 @@
+/**
+ * Network HAR Fixtures
+ *
+ * Opens a HarSession per test when HAR_MODE is record or replay, routes the
+ * browser context through it and attaches a summary the reporter picks up.
+ */
+
+import { Fixtures, PlaywrightTestArgs, PlaywrightTestOptions } from '@playwright/test';
+import { HarSession } from './HarSession';
+
+export const HAR_ATTACHMENT = 'network-har';
+
+export interface NetworkHarFixtures {
+  networkHar: HarSession | undefined;
+}
+
+export const networkHarFixtures: Fixtures<
+  NetworkHarFixtures,
+  {},
+  PlaywrightTestArgs & PlaywrightTestOptions
+> = {
+  networkHar: [async ({}, use, testInfo) => {
+    const mode = HarSession.modeFromEnv();
+    if (mode === 'off') {
+      await use(undefined);
+      return;
+    }
+
+    const session = new HarSession(mode, HarSession.fileFor(testInfo));
+    await session.start();
+
+    try {
+      await use(session);
+    } finally {
+      const summary = await session.stop();
+      await testInfo.attach(HAR_ATTACHMENT, {
+        body: JSON.stringify(summary, null, 2),
+        contentType: 'application/json'
+      });
+    }
+  }, { auto: true }],
+
+  context: async ({ context, networkHar }, use) => {
+    await networkHar?.attach(context);
+    await use(context);
+  }
+};
@@ -0,0 +1,53 @@
+/**
+ * Flakiness Score
+ *
+ * Scores every test over a rolling window of the run history. A run counts
+ * against a test when it only passed on retry, or when its result flipped
+ * between passing and failing compared with the previous run. A test that is
+ * simply broken fails every run and keeps a low score.
+ */
+
+import { HistoryRunRecord, HistoryTestRecord } from '../reporters/RunHistory';
+
+export interface FlakinessScore {
+  id: string;
+  title: string;
+  project: string;
+  file?: string;
+  /** Runs in the window the test executed in (skips excluded) */
+  runs: number;
+  flakyRuns: number;
+  flips: number;
+  /** (flaky runs + flips) / runs, between 0 and 1 */
+  score: number;
+}
+
+export function scoreFlakiness(history: HistoryRunRecord[], window = 20): FlakinessScore[] {
+  const executions = new Map<string, HistoryTestRecord[]>();
+  for (const run of history.slice(-window)) {
+    for (const test of run.tests) {
+      if (test.status !== 'skipped') {
+        executions.set(test.id, [...(executions.get(test.id) || []), test]);
+      }
+    }
+  }
+
+  return Array.from(executions.values()).map(tests => {
+    const latest = tests[tests.length - 1];
+    const flakyRuns = tests.filter(test => test.status === 'flaky').length;
+    const flips = tests.slice(1).filter((test, index) =>
+      (test.status === 'failed') !== (tests[index].status === 'failed')
+    ).length;
+
+    return {
+      id: latest.id,
+      title: latest.title,
+      project: latest.project,
+      file: latest.file,
+      runs: tests.length,
+      flakyRuns,
+      flips,
+      score: Math.min(1, Math.round(((flakyRuns + flips) / tests.length) * 100) / 100)
+    };
+  });
+}
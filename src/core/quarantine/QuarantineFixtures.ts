@@ -0,0 +1,36 @@
+/**
+ * Quarantine Fixtures
+ *
+ * Annotates tests listed in the quarantine manifest the Playwright config put
+ * into its metadata, so reports show them as quarantined. The custom reporter
+ * keeps their failures from failing the run.
+ */
+
+import { Fixtures, PlaywrightTestArgs, PlaywrightTestOptions } from '@playwright/test';
+import type { QuarantineEntry } from './QuarantineManifest';
+
+export const QUARANTINE_ANNOTATION = 'quarantined';
+
+export interface QuarantineFixtures {
+  quarantine: QuarantineEntry | undefined;
+}
+
+export const quarantineFixtures: Fixtures<
+  QuarantineFixtures,
+  {},
+  PlaywrightTestArgs & PlaywrightTestOptions
+> = {
+  quarantine: [async ({}, use, testInfo) => {
+    const entries: QuarantineEntry[] = testInfo.config.metadata?.quarantine || [];
+    const entry = entries.find(candidate => candidate.id === testInfo.testId);
+
+    if (entry) {
+      testInfo.annotations.push({
+        type: QUARANTINE_ANNOTATION,
+        description: `Non-blocking since ${entry.since}${entry.owner ? `, owner ${entry.owner}` : ''} (score ${entry.score})`
+      });
+    }
+
+    await use(entry);
+  }, { auto: true }]
+};
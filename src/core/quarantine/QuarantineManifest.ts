@@ -0,0 +1,154 @@
+/**
+ * Quarantine Manifest
+ *
+ * JSON list of tests whose flakiness score crossed the threshold. The
+ * Playwright config reads it so quarantined tests are annotated and their
+ * failures do not fail the run; the custom reporter adds tests to it and
+ * releases them again once they stay green.
+ *
+ * QUARANTINE               off disables annotation, non-blocking runs and updates
+ * QUARANTINE_FILE          manifest location (default config/quarantine.json)
+ * FLAKY_THRESHOLD          score at which a test is quarantined (default 0.2)
+ * FLAKY_WINDOW             runs the score is computed over (default 20)
+ * FLAKY_MIN_RUNS           runs needed before a test can be quarantined (default 5)
+ * QUARANTINE_RELEASE_RUNS  consecutive clean passes that release a test (default 5)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { HistoryRunRecord } from '../reporters/RunHistory';
+import { scoreFlakiness } from './FlakinessScore';
+
+export interface QuarantineEntry {
+  id: string;
+  title: string;
+  project: string;
+  file?: string;
+  owner?: string;
+  score: number;
+  reason: string;
+  since: string;
+}
+
+export interface QuarantineManifest {
+  updatedAt?: string;
+  tests: QuarantineEntry[];
+  /**
+   * When each released test left quarantine; only its runs after that count
+   * towards quarantining it again
+   */
+  released?: Record<string, string>;
+}
+
+export interface QuarantineOptions {
+  enabled: boolean;
+  file: string;
+  threshold: number;
+  window: number;
+  minRuns: number;
+  releaseAfter: number;
+}
+
+export interface QuarantineUpdate {
+  manifest: QuarantineManifest;
+  added: QuarantineEntry[];
+  released: QuarantineEntry[];
+}
+
+export function quarantineOptionsFromEnv(): QuarantineOptions {
+  return {
+    enabled: process.env.QUARANTINE !== 'off',
+    file: process.env.QUARANTINE_FILE || path.join('config', 'quarantine.json'),
+    threshold: parseFloat(process.env.FLAKY_THRESHOLD || '0.2'),
+    window: parseInt(process.env.FLAKY_WINDOW || '20', 10),
+    minRuns: parseInt(process.env.FLAKY_MIN_RUNS || '5', 10),
+    releaseAfter: parseInt(process.env.QUARANTINE_RELEASE_RUNS || '5', 10)
+  };
+}
+
+/**
+ * Synchronous so the Playwright config can read it while it is evaluated
+ */
+export function loadQuarantine(file = quarantineOptionsFromEnv().file): QuarantineManifest {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { tests: [] };
+    }
+    throw error;
+  }
+
+  try {
+    const manifest = JSON.parse(content);
+    return { ...manifest, tests: manifest.tests || [] };
+  } catch (error: any) {
+    throw new Error(`Invalid quarantine manifest ${file}: ${error.message}`);
+  }
+}
+
+export async function writeQuarantine(file: string, manifest: QuarantineManifest): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/**
+ * Quarantine tests scoring at or above the threshold and release those whose
+ * latest runs since quarantine all passed first time. A released test is
+ * scored on the runs after its release only, so the flaky runs that got it
+ * quarantined do not put it straight back.
+ */
+export function updateQuarantine(
+  manifest: QuarantineManifest,
+  history: HistoryRunRecord[],
+  options: QuarantineOptions,
+  owners: Record<string, string> = {}
+): QuarantineUpdate {
+  const now = new Date().toISOString();
+  const quarantined = new Set(manifest.tests.map(entry => entry.id));
+
+  const released = manifest.tests.filter(entry => {
+    const since = history
+      .filter(run => run.startedAt >= entry.since)
+      .flatMap(run => run.tests.filter(test => test.id === entry.id && test.status !== 'skipped'));
+    const latest = since.slice(-options.releaseAfter);
+    return latest.length >= options.releaseAfter && latest.every(test => test.status === 'passed');
+  });
+
+  const releasedAt: Record<string, string> = { ...manifest.released };
+  released.forEach(entry => { releasedAt[entry.id] = now; });
+  const scored = history.map(run => ({
+    ...run,
+    tests: run.tests.filter(test => !releasedAt[test.id] || run.startedAt > releasedAt[test.id])
+  }));
+
+  const added = scoreFlakiness(scored, options.window)
+    .filter(score => !quarantined.has(score.id))
+    .filter(score => score.runs >= options.minRuns && score.score >= options.threshold)
+    .map(score => ({
+      id: score.id,
+      title: score.title,
+      project: score.project,
+      file: score.file,
+      owner: owners[score.id],
+      score: score.score,
+      reason: `${score.flakyRuns} flaky run(s) and ${score.flips} pass/fail flip(s) in the last ${score.runs} runs`,
+      since: now
+    }));
+
+  // Releases older than the scoring window no longer exclude any run
+  const windowStart = history.slice(-options.window)[0]?.startedAt;
+  const stillReleased = Object.fromEntries(Object.entries(releasedAt).filter(([id, at]) =>
+    !added.some(entry => entry.id === id) && (!windowStart || at > windowStart)
+  ));
+
+  const kept = manifest.tests.filter(entry => !released.includes(entry));
+  return {
+    manifest: added.length > 0 || released.length > 0
+      ? { updatedAt: now, tests: [...kept, ...added], released: stillReleased }
+      : manifest,
+    added,
+    released
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * Allure Results Reporter
+ *
+ * Writes every test attempt to an allure-results directory for `allure
+ * generate`: one `<uuid>-result.json` per attempt with its `test.step` and
+ * BDD steps, attachments copied next to it, Scenario Outline example values
+ * as parameters, and an `environment.properties` from the ConfigManager.
+ *
+ * Labels:
+ *
+ * - epic:     `@epic:<name>` tag, or the application (ApplicationType) of the
+ *             feature tags or project, such as `@webapp` in `bdd-webapp-smoke`
+ * - feature:  `@feature:<name>` tag, or the Gherkin feature, or the outer describe
+ * - story:    `@story:<name>` tag, or the scenario (outline) name, or the inner describe
+ * - severity: `@severity:<level>` tag, or `critical` for `@critical` tests
+ * - owner:    `owner` annotation or `@owner:<name>` tag
+ * - tag:      the other tags, without `@`
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FullConfig, FullResult, Reporter, Suite, TestCase, TestResult, TestStep } from '@playwright/test/reporter';
+import type { ApplicationType, ConfigManager } from '../managers/config';
+import { fingerprintFailure } from './FailureFingerprint';
+import { GherkinMapper } from './GherkinMapper';
+import { RETRY_SKIPPED_ANNOTATION } from '../retry/RetryPolicyFixtures';
+
+type AllureStatus = 'passed' | 'failed' | 'broken' | 'skipped' | 'unknown';
+
+interface AllureStatusDetails {
+  message?: string;
+  trace?: string;
+  flaky?: boolean;
+}
+
+interface AllureAttachment {
+  name: string;
+  source: string;
+  type: string;
+}
+
+interface AllureParameter {
+  name: string;
+  value: string;
+}
+
+interface AllureStep {
+  name: string;
+  status: AllureStatus;
+  statusDetails: AllureStatusDetails;
+  stage: 'finished';
+  start: number;
+  stop: number;
+  steps: AllureStep[];
+  attachments: AllureAttachment[];
+  parameters: AllureParameter[];
+}
+
+export interface AllureResult extends Omit<AllureStep, 'steps'> {
+  uuid: string;
+  historyId: string;
+  testCaseId: string;
+  fullName: string;
+  description?: string;
+  labels: Array<{ name: string; value: string }>;
+  links: Array<{ name?: string; url: string; type?: string }>;
+  steps: AllureStep[];
+}
+
+export interface AllureReporterOptions {
+  /** Relative to the Playwright config directory */
+  resultsDir?: string;
+}
+
+type Attachment = TestResult['attachments'][number];
+
+const ANSI = /\x1b\[[0-9;]*m/g;
+const APPLICATION_TAGS: Record<string, ApplicationType> = {
+  webapp: 'webapp',
+  adminapp: 'admin',
+  admin: 'admin',
+  mcp: 'mcp',
+  'mcp-server': 'mcp'
+};
+const LABEL_TAG = /^@(epic|feature|story|severity|owner):(.+)$/;
+const EXTENSIONS: Record<string, string> = {
+  'application/json': '.json',
+  'application/zip': '.zip',
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'text/html': '.html',
+  'text/plain': '.txt',
+  'video/webm': '.webm'
+};
+
+export default class AllureReporter implements Reporter {
+  private resultsDir: string;
+  private gherkin = new GherkinMapper();
+  private configManager?: ConfigManager;
+  private written = 0;
+
+  constructor(private readonly options: AllureReporterOptions = {}) {
+    this.resultsDir = path.resolve(options.resultsDir || 'allure-results');
+  }
+
+  onBegin(config: FullConfig, suite: Suite): void {
+    const configDir = config.configFile ? path.dirname(config.configFile) : process.cwd();
+    this.resultsDir = path.resolve(configDir, this.options.resultsDir || 'allure-results');
+    this.gherkin = new GherkinMapper(configDir);
+
+    // Results of an earlier run would show up as retries of this one
+    fs.rmSync(this.resultsDir, { recursive: true, force: true });
+    fs.mkdirSync(this.resultsDir, { recursive: true });
+
+    // Loaded here so application settings that fail to load do not stop the run
+    try {
+      this.configManager = require('../managers/config').getConfigManager();
+    } catch (error: any) {
+      console.warn(`⚠️  Allure results without application settings: ${error.message.split('\n')[0]}`);
+    }
+    this.writeEnvironment(config, suite);
+  }
+
+  /**
+   * Written synchronously, as Playwright does not wait for reporters here
+   */
+  onTestEnd(test: TestCase, result: TestResult): void {
+    // A retry the retry policy declined did not run the test
+    if (result.annotations.some(annotation => annotation.type === RETRY_SKIPPED_ANNOTATION)) {
+      return;
+    }
+
+    try {
+      const allure = this.buildResult(test, result);
+      fs.writeFileSync(path.join(this.resultsDir, `${allure.uuid}-result.json`), JSON.stringify(allure));
+      this.written++;
+    } catch (error: any) {
+      console.warn(`⚠️  Could not write Allure result for ${test.title}: ${error.message}`);
+    }
+  }
+
+  onEnd(_result: FullResult): void {
+    if (this.written > 0) {
+      console.log(`📊 Allure results (${this.written}) saved to: ${path.relative(process.cwd(), this.resultsDir)}`);
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  private buildResult(test: TestCase, result: TestResult): AllureResult {
+    const project = test.parent?.project()?.name || 'unknown';
+    const file = path.relative(process.cwd(), test.location.file);
+    const describes = test.titlePath().slice(3, -1);
+    const scenario = this.gherkin.map(test, result);
+
+    // Attachments added inside a step are shown on that step
+    const attached = new Set<Attachment>();
+    const steps = this.convertSteps(result.steps, attached);
+    const attachments = result.attachments
+      .filter(attachment => !attached.has(attachment))
+      .map(attachment => this.writeAttachment(attachment))
+      .filter((attachment): attachment is AllureAttachment => attachment !== undefined);
+
+    const start = result.startTime.getTime();
+    const parameters: AllureParameter[] = [
+      { name: 'Project', value: project },
+      ...Object.entries(scenario?.examples?.values || {}).map(([name, value]) => ({ name, value }))
+    ];
+
+    return {
+      uuid: randomUUID(),
+      historyId: test.id,
+      testCaseId: hash(`${file}:${test.titlePath().slice(3).join(' › ')}`),
+      fullName: `${file}:${test.location.line}:${test.location.column}`,
+      name: test.title,
+      description: scenario ? `${scenario.feature.uri}:${scenario.examples?.line || scenario.scenario.line}` : undefined,
+      status: statusOf(result),
+      statusDetails: {
+        message: result.error?.message?.replace(ANSI, ''),
+        trace: result.error?.stack?.replace(ANSI, ''),
+        flaky: result.retry > 0 && result.status === 'passed' ? true : undefined
+      },
+      stage: 'finished',
+      start,
+      stop: start + result.duration,
+      steps,
+      attachments,
+      parameters,
+      labels: this.labels(test, result, {
+        project,
+        file,
+        describes,
+        feature: scenario?.feature.name,
+        story: scenario?.scenario.name,
+        tags: [...new Set([...test.tags, ...(scenario?.tags || [])])]
+      }),
+      links: []
+    };
+  }
+
+  /**
+   * `test.step` calls, BDD steps among them, keep their nesting; steps of
+   * other categories only contribute the test steps inside them
+   */
+  private convertSteps(steps: TestStep[], attached: Set<Attachment>): AllureStep[] {
+    return steps.flatMap(step => {
+      if (step.category !== 'test.step') {
+        return this.convertSteps(step.steps, attached);
+      }
+
+      const stepAttachments = attachSteps(step.steps).flatMap(child => child.attachments);
+      stepAttachments.forEach(attachment => attached.add(attachment));
+
+      const start = step.startTime.getTime();
+      return [{
+        name: step.title,
+        status: step.error ? statusOfError(step.error) : 'passed',
+        statusDetails: step.error ? { message: step.error.message?.replace(ANSI, ''), trace: step.error.stack?.replace(ANSI, '') } : {},
+        stage: 'finished',
+        start,
+        stop: start + step.duration,
+        steps: this.convertSteps(step.steps, attached),
+        attachments: stepAttachments
+          .map(attachment => this.writeAttachment(attachment))
+          .filter((attachment): attachment is AllureAttachment => attachment !== undefined),
+        parameters: []
+      }];
+    });
+  }
+
+  private labels(
+    test: TestCase,
+    result: TestResult,
+    context: { project: string; file: string; describes: string[]; feature?: string; story?: string; tags: string[] }
+  ): AllureResult['labels'] {
+    const tagged: Record<string, string[]> = {};
+    const plainTags: string[] = [];
+    for (const tag of context.tags) {
+      const match = LABEL_TAG.exec(tag);
+      if (match) {
+        (tagged[match[1]] = tagged[match[1]] || []).push(match[2]);
+      } else {
+        plainTags.push(tag.replace(/^@/, ''));
+      }
+    }
+
+    const application = applicationOf(context.project, context.tags);
+    const owner = test.annotations.find(annotation => annotation.type === 'owner')?.description || tagged.owner?.[0];
+    const labels: AllureResult['labels'] = [
+      { name: 'framework', value: 'playwright' },
+      { name: 'language', value: 'typescript' },
+      { name: 'host', value: os.hostname() },
+      { name: 'thread', value: `${context.project}-worker-${result.workerIndex}` },
+      { name: 'parentSuite', value: context.project },
+      { name: 'suite', value: context.feature || context.file },
+      { name: 'package', value: context.file.replace(/\.[jt]s$/, '').split(path.sep).join('.') },
+      ...(context.describes.length > 0 ? [{ name: 'subSuite', value: context.describes.join(' › ') }] : []),
+      { name: 'severity', value: tagged.severity?.[0] || (context.tags.includes('@critical') ? 'critical' : 'normal') },
+      ...(owner ? [{ name: 'owner', value: owner }] : []),
+      ...plainTags.map(tag => ({ name: 'tag', value: tag }))
+    ];
+
+    const epics = tagged.epic || (application ? [this.applicationName(application)] : []);
+    const features = tagged.feature || [context.feature || context.describes[0] || path.basename(context.file)];
+    const stories = tagged.story || (context.story ? [context.story] : context.describes.slice(1, 2));
+    epics.forEach(value => labels.push({ name: 'epic', value }));
+    features.forEach(value => labels.push({ name: 'feature', value }));
+    stories.forEach(value => labels.push({ name: 'story', value }));
+
+    return labels;
+  }
+
+  private writeAttachment(attachment: Attachment): AllureAttachment | undefined {
+    const extension = (attachment.path && path.extname(attachment.path)) || EXTENSIONS[attachment.contentType] || '';
+    const source = `${randomUUID()}-attachment${extension}`;
+    const target = path.join(this.resultsDir, source);
+
+    if (attachment.body) {
+      fs.writeFileSync(target, attachment.body);
+    } else if (attachment.path && fs.existsSync(attachment.path)) {
+      fs.copyFileSync(attachment.path, target);
+    } else {
+      return undefined;
+    }
+    return { name: attachment.name, source, type: attachment.contentType };
+  }
+
+  private applicationName(application: ApplicationType): string {
+    return this.configManager?.getValue(application, 'app.name') || application;
+  }
+
+  /**
+   * Shown in the Environment widget of the report
+   */
+  private writeEnvironment(config: FullConfig, suite: Suite): void {
+    const properties: Record<string, string> = {
+      'Node.js': process.version,
+      'Playwright': config.version,
+      'OS': `${os.platform()} ${os.release()}`,
+      'Projects': config.projects.map(project => project.name).join(', '),
+      'Tests': String(suite.allTests().length),
+      'Workers': String(config.workers)
+    };
+
+    properties.Environment = this.configManager?.getEnvironment() || process.env.NODE_ENV || 'development';
+    for (const application of ['webapp', 'admin', 'mcp'] as ApplicationType[]) {
+      const app = this.configManager?.getValue(application, 'app');
+      if (app) {
+        properties[`${app.name} URL`] = app.baseUrl;
+      }
+    }
+
+    const lines = Object.entries(properties).map(([key, value]) => `${key.replace(/[ =:]/g, '\\$&')}=${value}`);
+    fs.writeFileSync(path.join(this.resultsDir, 'environment.properties'), lines.join('\n') + '\n');
+  }
+}
+
+/**
+ * Assertion failures fail a test; any other error, such as a timeout or a
+ * network error, breaks it
+ */
+function statusOf(result: TestResult): AllureStatus {
+  switch (result.status) {
+    case 'passed': return 'passed';
+    case 'skipped': return 'skipped';
+    case 'failed': return result.error ? statusOfError(result.error) : 'failed';
+    case 'timedOut':
+    case 'interrupted': return 'broken';
+    default: return 'unknown';
+  }
+}
+
+function statusOfError(error: { message?: string; stack?: string }): AllureStatus {
+  return fingerprintFailure(error).category === 'Assertion' ? 'failed' : 'broken';
+}
+
+function applicationOf(project: string, tags: string[]): ApplicationType | undefined {
+  const fromTag = tags.map(tag => APPLICATION_TAGS[tag.replace(/^@/, '')]).find(Boolean);
+  if (fromTag) {
+    return fromTag;
+  }
+  const segment = Object.keys(APPLICATION_TAGS)
+    .sort((a, b) => b.length - a.length)
+    .find(name => new RegExp(`(^|-)${name}(-|$)`).test(project));
+  return segment ? APPLICATION_TAGS[segment] : undefined;
+}
+
+function hash(value: string): string {
+  return createHash('md5').update(value).digest('hex');
+}
+
+/**
+ * `test.attach` steps of a step, leaving out those of its nested test steps
+ */
+function attachSteps(steps: TestStep[]): TestStep[] {
+  return steps.flatMap(step => {
+    if (step.category === 'test.attach') {
+      return [step];
+    }
+    return step.category === 'test.step' ? [] : attachSteps(step.steps);
+  });
+}
@@ -6,7 +6,35 @@
 
 import { Reporter, TestCase, TestResult, FullResult } from '@playwright/test/reporter';
 import fs from 'fs/promises';
+import { appendFileSync, mkdirSync, writeFileSync } from 'fs';
 import path from 'path';
+import { seedManager } from '../data/SeedManager';
+import { HAR_ATTACHMENT } from '../network/NetworkHarFixtures';
+import type { HarRequestSummary, HarSessionSummary } from '../network/HarSession';
+import { RunHistory, HistoryRunRecord, HistoryTestRecord } from './RunHistory';
+import { analyzeTrends, TrendReport } from './TrendAnalysis';
+import { FailureFingerprint, fingerprintFailure } from './FailureFingerprint';
+import { FailureCluster, FailureOccurrence, clusterFailures } from './FailureClusters';
+import { GherkinMapper, SCENARIO_RESULTS_FILE, ScenarioRun } from './GherkinMapper';
+import { escapeHtml } from './LivingDocumentation';
+import {
+  DEFAULT_PERFORMANCE_BUDGETS,
+  PerformanceBudgetOptions,
+  PerformanceCheck,
+  checkPerformanceBudgets
+} from './PerformanceBudgets';
+import type { ShardSelection } from '../sharding/ShardManifest';
+import { SHARD_REPORT_FILE, ShardRunReport } from '../sharding/ShardPlanner';
+import { RETRY_DECISION_ATTACHMENT, RETRY_SKIPPED_ANNOTATION } from '../retry/RetryPolicyFixtures';
+import type { RetryDecision } from '../retry/RetryPolicy';
+import {
+  QuarantineEntry,
+  QuarantineUpdate,
+  loadQuarantine,
+  quarantineOptionsFromEnv,
+  updateQuarantine,
+  writeQuarantine
+} from '../quarantine/QuarantineManifest';
 
 interface TestMetrics {
   totalTests: number;
@@ -26,6 +54,23 @@ interface TestMetrics {
   }>;
 }
 
+interface HarTestSummary extends HarSessionSummary {
+  title: string;
+  project: string;
+}
+
+interface RetryTestDecision extends RetryDecision {
+  title: string;
+  project: string;
+}
+
+interface SkippedRetry {
+  title: string;
+  project: string;
+  retry: number;
+  reason: string;
+}
+
 interface ProjectSummary {
   name: string;
   passed: number;
@@ -39,14 +84,37 @@ export default class CustomReporter implements Reporter {
   private startTime: number = 0;
   private endTime: number = 0;
   private testResults: Array<{ test: TestCase; result: TestResult }> = [];
+  private harSummaries: HarTestSummary[] = [];
+  private retryDecisions: RetryTestDecision[] = [];
+  private skippedRetries: SkippedRetry[] = [];
+  private fingerprints = new Map<TestResult, FailureFingerprint>();
+  private clusters: FailureCluster[] = [];
+  private gherkin = new GherkinMapper();
+  private scenarios = new Map<TestResult, ScenarioRun>();
+  private history = new RunHistory();
+  private trends?: TrendReport;
+  private quarantined: QuarantineEntry[] = [];
+  private quarantineUpdate?: QuarantineUpdate;
+  private globalErrors = 0;
+  private shard?: ShardSelection;
+  private performance?: PerformanceCheck;
+  private performanceOptions: PerformanceBudgetOptions;
   private outputDir: string;
 
-  constructor(options: { outputDir?: string } = {}) {
+  constructor(options: { outputDir?: string; performance?: Partial<PerformanceBudgetOptions> } = {}) {
     this.outputDir = options.outputDir || 'test-results/custom-reports';
+    this.performanceOptions = { ...DEFAULT_PERFORMANCE_BUDGETS, ...options.performance };
   }
 
   async onBegin(config: any, suite: any) {
     this.startTime = Date.now();
+    this.quarantined = config.metadata?.quarantine || [];
+    this.shard = config.metadata?.shard;
+    this.gherkin = new GherkinMapper(config.configFile ? path.dirname(config.configFile) : process.cwd());
+
+    // Written synchronously: global teardown reads it before onEnd runs
+    mkdirSync(this.outputDir, { recursive: true });
+    writeFileSync(path.join(this.outputDir, SCENARIO_RESULTS_FILE), '');
     
     // Ensure output directory exists
     await fs.mkdir(this.outputDir, { recursive: true });
@@ -55,22 +123,68 @@ export default class CustomReporter implements Reporter {
     console.log(`📊 Running ${suite.allTests().length} tests across ${config.projects.length} projects`);
     console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
     console.log(`🎯 Base URL: ${config.use?.baseURL || 'Not configured'}`);
+    console.log(`🎲 Seed: ${seedManager.getRunSeed()} (reproduce with TEST_SEED=${seedManager.getRunSeed()})`);
+    if (this.quarantined.length > 0) {
+      console.log(`🚧 Quarantined (non-blocking): ${this.quarantined.length} tests`);
+    }
+    if (this.shard) {
+      console.log(`🧩 Shard ${this.shard.index}/${this.shard.total} from ${this.shard.manifest} (predicted ${(this.shard.predicted / 1000).toFixed(1)}s)`);
+    }
     console.log('─'.repeat(80));
   }
 
+  onError() {
+    this.globalErrors++;
+  }
+
   async onTestEnd(test: TestCase, result: TestResult) {
+    const projectName = test.parent?.project()?.name || 'unknown';
+
+    // A retry the policy declined is skipped before the test body runs; it is not a result of the test
+    const skippedRetry = result.annotations.find(annotation => annotation.type === RETRY_SKIPPED_ANNOTATION);
+    if (skippedRetry) {
+      const reason = skippedRetry.description || 'declined';
+      this.skippedRetries.push({ title: test.title, project: projectName, retry: result.retry, reason });
+      console.log(`⏭️  ${test.title} (${projectName}) - retry #${result.retry} skipped by the retry policy: ${reason}`);
+      return;
+    }
+
     this.testResults.push({ test, result });
+    if (result.error) {
+      this.fingerprints.set(result, fingerprintFailure(result.error));
+    }
     
     // Real-time logging
     const status = this.getStatusIcon(result.status);
     const duration = `${result.duration}ms`;
-    const projectName = test.parent?.project()?.name || 'unknown';
     
     console.log(`${status} ${test.title} (${projectName}) - ${duration}`);
+
+    // Map BDD results back to their feature file and Gherkin steps
+    const scenario = this.gherkin.map(test, result);
+    if (scenario) {
+      const run: ScenarioRun = {
+        ...scenario,
+        title: test.title,
+        project: projectName,
+        status: result.status,
+        duration: result.duration,
+        retry: result.retry,
+        attachments: result.attachments
+          .filter(att => att.path)
+          .map(att => ({ name: att.name, path: att.path, contentType: att.contentType }))
+      };
+      this.scenarios.set(result, run);
+      appendFileSync(path.join(this.outputDir, SCENARIO_RESULTS_FILE), JSON.stringify(run) + '\n');
+    }
     
     // Log additional info for failures
     if (result.status === 'failed') {
       console.log(`   ❌ Error: ${result.error?.message || 'Unknown error'}`);
+      const failedStep = scenario?.steps.find(step => step.status === 'failed');
+      if (scenario) {
+        console.log(`   🥒 ${scenario.feature.uri}:${scenario.examples?.line || scenario.scenario.line}${failedStep ? ` at ${failedStep.keyword} ${failedStep.text} (line ${failedStep.line})` : ''}`);
+      }
       if (result.attachments.length > 0) {
         console.log(`   📎 Attachments: ${result.attachments.length}`);
       }
@@ -80,9 +194,27 @@ export default class CustomReporter implements Reporter {
     if (result.duration > 30000) { // 30 seconds
       console.log(`   ⚠️  Slow test detected: ${duration}`);
     }
+
+    // Collect HAR record/replay results
+    const har = result.attachments.find(att => att.name === HAR_ATTACHMENT && att.body);
+    if (har) {
+      const summary: HarSessionSummary = JSON.parse(har.body!.toString('utf-8'));
+      this.harSummaries.push({ ...summary, title: test.title, project: projectName });
+      if (summary.unmatched.length > 0) {
+        console.log(`   🎞️  ${summary.unmatched.length} request(s) not found in ${summary.file}`);
+      }
+    }
+
+    // Why the retry policy did or did not retry this failure
+    const retry = result.attachments.find(att => att.name === RETRY_DECISION_ATTACHMENT && att.body);
+    if (retry) {
+      const decision: RetryDecision = JSON.parse(retry.body!.toString('utf-8'));
+      this.retryDecisions.push({ ...decision, title: test.title, project: projectName });
+      console.log(`   🔁 ${decision.retry ? 'Will retry' : 'Not retried'}: ${decision.reason}`);
+    }
   }
 
-  async onEnd(result: FullResult) {
+  async onEnd(result: FullResult): Promise<{ status?: FullResult['status'] } | undefined> {
     this.endTime = Date.now();
     const totalDuration = this.endTime - this.startTime;
     
@@ -91,6 +223,16 @@ export default class CustomReporter implements Reporter {
     
     // Calculate metrics
     const metrics = this.calculateMetrics(totalDuration);
+
+    // Compare with previous runs, then add this one to the history
+    const history = await this.recordRunHistory(totalDuration, result);
+    if (history) {
+      this.trends = analyzeTrends(history.slice(0, -1), history[history.length - 1]);
+      this.quarantineUpdate = await this.updateQuarantineManifest(history);
+      this.performance = await this.checkPerformance(history);
+    }
+    this.clusters = clusterFailures(this.getFailureOccurrences(), history, new Date(this.startTime).toISOString());
+    const status = this.performanceStatus() || this.quarantineStatus(result);
     
     // Console summary
     this.printConsoleSummary(metrics, result);
@@ -100,6 +242,11 @@ export default class CustomReporter implements Reporter {
     await this.generateMetricsReport(metrics);
     await this.generateFailureReport();
     await this.generatePerformanceReport(metrics);
+    await this.generateHarReport();
+    await this.generateRetryReport();
+    await this.generateTrendReport();
+    await this.generateGherkinReport();
+    await this.generateShardReport(totalDuration);
     
     // CI-specific outputs
     if (process.env.CI) {
@@ -107,6 +254,8 @@ export default class CustomReporter implements Reporter {
     }
     
     console.log(`📁 Detailed reports saved to: ${this.outputDir}`);
+
+    return status ? { status } : undefined;
   }
 
   private getStatusIcon(status: string): string {
@@ -168,9 +317,9 @@ export default class CustomReporter implements Reporter {
       });
 
       // Error categorization
-      if (result.error) {
-        const errorType = this.categorizeError(result.error.message || '');
-        metrics.errorsByType[errorType] = (metrics.errorsByType[errorType] || 0) + 1;
+      const fingerprint = this.fingerprints.get(result);
+      if (fingerprint) {
+        metrics.errorsByType[fingerprint.category] = (metrics.errorsByType[fingerprint.category] || 0) + 1;
       }
 
       // Browser metrics
@@ -206,20 +355,26 @@ export default class CustomReporter implements Reporter {
     return metrics;
   }
 
-  private categorizeError(errorMessage: string): string {
-    if (errorMessage.includes('timeout') || errorMessage.includes('Timeout')) {
-      return 'Timeout';
-    } else if (errorMessage.includes('network') || errorMessage.includes('Network')) {
-      return 'Network';
-    } else if (errorMessage.includes('element') || errorMessage.includes('locator')) {
-      return 'Element Not Found';
-    } else if (errorMessage.includes('assertion') || errorMessage.includes('expect')) {
-      return 'Assertion';
-    } else if (errorMessage.includes('navigation') || errorMessage.includes('page')) {
-      return 'Navigation';
-    } else {
-      return 'Other';
-    }
+  private getFailures(): Array<{ test: TestCase; result: TestResult }> {
+    return this.testResults.filter(({ result }) => result.status === 'failed' || result.status === 'timedOut');
+  }
+
+  private getFailureOccurrences(): FailureOccurrence[] {
+    return this.getFailures()
+      .filter(({ result }) => this.fingerprints.has(result))
+      .map(({ test, result }) => ({
+        fingerprint: this.fingerprints.get(result)!,
+        title: test.title,
+        project: test.parent?.project()?.name || 'unknown',
+        file: test.location?.file,
+        line: test.location?.line,
+        error: result.error?.message,
+        attachments: result.attachments.map(att => ({
+          name: att.name,
+          path: att.path,
+          contentType: att.contentType
+        }))
+      }));
   }
 
   private printConsoleSummary(metrics: TestMetrics, result: FullResult): void {
@@ -245,6 +400,18 @@ export default class CustomReporter implements Reporter {
         });
     }
 
+    if (this.clusters.length > 0) {
+      console.log(`\n🧬 Failure Clusters (${this.clusters.length}):`);
+      this.clusters.slice(0, 5).forEach(cluster => {
+        const projects = cluster.projects.length > 1 ? ` in ${cluster.projects.length} projects` : '';
+        console.log(`   [${cluster.hash}] ${cluster.count}× ${cluster.category}${projects}: ${cluster.message}`);
+        console.log(`     ${cluster.target ? `${cluster.target} | ` : ''}first seen ${cluster.firstSeen.startedAt} | e.g. ${cluster.representative.title} (${cluster.representative.project})`);
+      });
+      if (this.clusters.length > 5) {
+        console.log(`   ... and ${this.clusters.length - 5} more (see failure-report.json)`);
+      }
+    }
+
     if (metrics.slowestTests.length > 0) {
       console.log(`\n🐌 Slowest Tests:`);
       metrics.slowestTests.slice(0, 3).forEach(test => {
@@ -252,15 +419,536 @@ export default class CustomReporter implements Reporter {
       });
     }
 
+    this.printPerformanceSummary();
+    this.printGherkinSummary();
+    this.printTrendSummary();
+    this.printQuarantineSummary();
+    this.printHarSummary();
+    this.printRetrySummary();
+
     console.log(`\n🎯 Overall Status: ${result.status.toUpperCase()}`);
   }
 
+  private printHarSummary(): void {
+    if (this.harSummaries.length === 0) {
+      return;
+    }
+
+    const recorded = this.harSummaries.reduce((sum, har) => sum + har.recorded, 0);
+    const replayed = this.harSummaries.reduce((sum, har) => sum + har.replayed, 0);
+    const unmatched = this.harSummaries.flatMap(har => har.unmatched.map(request => ({ ...request, test: har.title })));
+    const stale = this.harSummaries.flatMap(har => har.stale.map(request => ({ ...request, test: har.title })));
+
+    console.log(`\n🎞️  Network HAR (${this.harSummaries.length} tests):`);
+    console.log(`   Recorded: ${recorded} | Replayed: ${replayed} | Unmatched: ${unmatched.length} | Stale: ${stale.length}`);
+
+    const printRequests = (label: string, requests: Array<HarRequestSummary & { test: string }>) => {
+      if (requests.length === 0) {
+        return;
+      }
+      console.log(`   ${label}:`);
+      requests.slice(0, 5).forEach(request => {
+        console.log(`     ${request.method} ${request.url} [${request.source}] (${request.test})`);
+      });
+      if (requests.length > 5) {
+        console.log(`     ... and ${requests.length - 5} more (see har-report.json)`);
+      }
+    };
+
+    printRequests('Unmatched requests (not in recording)', unmatched);
+    printRequests('Stale recordings (never requested)', stale);
+  }
+
+  private async generateHarReport(): Promise<void> {
+    if (this.harSummaries.length === 0) {
+      return;
+    }
+
+    const report = {
+      totalTests: this.harSummaries.length,
+      unmatched: this.harSummaries.reduce((sum, har) => sum + har.unmatched.length, 0),
+      stale: this.harSummaries.reduce((sum, har) => sum + har.stale.length, 0),
+      tests: this.harSummaries
+    };
+
+    const reportPath = path.join(this.outputDir, 'har-report.json');
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
+  }
+
+  private printRetrySummary(): void {
+    if (this.retryDecisions.length === 0 && this.skippedRetries.length === 0) {
+      return;
+    }
+
+    const retried = this.retryDecisions.filter(decision => decision.retry);
+    const byCategory = this.countRetriesByCategory(retried);
+
+    console.log(`\n🔁 Retry Policy:`);
+    console.log(`   Retried: ${retried.length}${retried.length > 0 ? ` (${Object.entries(byCategory).map(([category, count]) => `${category}: ${count}`).join(', ')})` : ''} | Skipped: ${this.skippedRetries.length}`);
+    this.skippedRetries.slice(0, 5).forEach(skipped => {
+      console.log(`   ⏭️  ${skipped.title} (${skipped.project}) - retry #${skipped.retry}: ${skipped.reason}`);
+    });
+    if (this.skippedRetries.length > 5) {
+      console.log(`   ... and ${this.skippedRetries.length - 5} more (see retry-report.json)`);
+    }
+  }
+
+  private async generateRetryReport(): Promise<void> {
+    if (this.retryDecisions.length === 0 && this.skippedRetries.length === 0) {
+      return;
+    }
+
+    const retried = this.retryDecisions.filter(decision => decision.retry);
+    const report = {
+      retried: retried.length,
+      skipped: this.skippedRetries.length,
+      byCategory: this.countRetriesByCategory(retried),
+      decisions: this.retryDecisions,
+      skippedRetries: this.skippedRetries
+    };
+
+    const reportPath = path.join(this.outputDir, 'retry-report.json');
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
+  }
+
+  private countRetriesByCategory(decisions: RetryDecision[]): Record<string, number> {
+    return decisions.reduce<Record<string, number>>((counts, decision) => {
+      counts[decision.category] = (counts[decision.category] || 0) + 1;
+      return counts;
+    }, {});
+  }
+
+  /**
+   * Previous runs followed by this one, or undefined when nothing was recorded
+   */
+  private async recordRunHistory(totalDuration: number, result: FullResult): Promise<HistoryRunRecord[] | undefined> {
+    if (this.testResults.length === 0) {
+      return undefined;
+    }
+
+    const run = this.buildRunRecord(totalDuration, result);
+
+    try {
+      const previous = await this.history.load();
+      await this.history.append(run);
+      return [...previous, run];
+    } catch (error: any) {
+      console.warn(`⚠️  Could not update run history at ${this.history.getFilePath()}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * One record per test with the outcome of its final attempt
+   */
+  private buildRunRecord(totalDuration: number, result: FullResult): HistoryRunRecord {
+    const attempts = new Map<string, { test: TestCase; results: TestResult[] }>();
+    for (const { test, result: testResult } of this.testResults) {
+      const entry = attempts.get(test.id) || { test, results: [] };
+      entry.results.push(testResult);
+      attempts.set(test.id, entry);
+    }
+
+    const statusFor = (test: TestCase): HistoryTestRecord['status'] => {
+      switch (test.outcome()) {
+        case 'expected': return 'passed';
+        case 'flaky': return 'flaky';
+        case 'skipped': return 'skipped';
+        default: return 'failed';
+      }
+    };
+
+    const tests = Array.from(attempts.values()).map(({ test, results }) => {
+      const final = results[results.length - 1];
+      const failed = [...results].reverse().find(attempt => attempt.error);
+      const error = failed?.error?.message;
+      const fingerprint = failed && this.fingerprints.get(failed);
+      return {
+        id: test.id,
+        title: test.titlePath().slice(3).join(' › '),
+        project: test.parent?.project()?.name || 'unknown',
+        file: test.location?.file ? path.relative(process.cwd(), test.location.file) : undefined,
+        tags: test.tags.length > 0 ? test.tags : undefined,
+        status: statusFor(test),
+        duration: final.duration,
+        retries: results.length - 1,
+        errorCategory: fingerprint?.category,
+        fingerprint: fingerprint?.hash,
+        error: error?.split('\n')[0].slice(0, 300)
+      };
+    });
+
+    return {
+      runId: `${new Date(this.startTime).toISOString()}-${seedManager.getRunSeed()}`,
+      startedAt: new Date(this.startTime).toISOString(),
+      duration: totalDuration,
+      status: result.status,
+      environment: process.env.NODE_ENV || 'development',
+      seed: seedManager.getRunSeed(),
+      branch: process.env.GIT_BRANCH || process.env.GITHUB_REF_NAME,
+      commit: process.env.GIT_COMMIT || process.env.GITHUB_SHA,
+      tests
+    };
+  }
+
+  private printTrendSummary(): void {
+    if (!this.trends || this.trends.runs < 2) {
+      return;
+    }
+
+    const { passRate, durationDrift, newFailures, recurringFailures, fixed } = this.trends;
+    const previous = passRate[passRate.length - 2].passRate;
+    const current = passRate[passRate.length - 1].passRate;
+    const change = current - previous;
+
+    console.log(`\n📉 Trends (last ${this.trends.runs} runs):`);
+    console.log(`   Pass rate: ${current}% (${change >= 0 ? '+' : ''}${change.toFixed(1)} vs previous run)`);
+    console.log(`   History: ${passRate.map(point => `${point.passRate}%`).join(' → ')}`);
+
+    if (newFailures.length > 0) {
+      console.log(`   🆕 New failures: ${newFailures.length}`);
+      newFailures.slice(0, 5).forEach(failure => {
+        console.log(`     ${failure.title} (${failure.project})${failure.errorCategory ? ` - ${failure.errorCategory}` : ''}`);
+      });
+    }
+
+    if (recurringFailures.length > 0) {
+      console.log(`   🔁 Recurring failures: ${recurringFailures.length}`);
+      recurringFailures.slice(0, 5).forEach(failure => {
+        console.log(`     ${failure.title} (${failure.project}) - failing ${failure.consecutiveRuns} runs since ${failure.failingSince}`);
+      });
+    }
+
+    if (fixed.length > 0) {
+      console.log(`   🩹 Fixed since previous run: ${fixed.length}`);
+    }
+
+    const slower = durationDrift.filter(drift => drift.delta > 0);
+    if (slower.length > 0) {
+      console.log(`   🐢 Slower than usual:`);
+      slower.slice(0, 5).forEach(drift => {
+        console.log(`     ${drift.title} (${drift.project}): ${drift.current}ms vs median ${drift.baseline}ms (+${drift.change}%)`);
+      });
+    }
+  }
+
+  private printGherkinSummary(): void {
+    if (this.scenarios.size === 0) {
+      return;
+    }
+
+    const scenarios = Array.from(this.scenarios.values());
+    const steps = scenarios.flatMap(scenario => scenario.steps);
+    const features = new Set(scenarios.map(scenario => scenario.feature.uri));
+    const count = (status: string) => steps.filter(step => step.status === status).length;
+
+    console.log(`\n🥒 Gherkin (${scenarios.length} scenario runs in ${features.size} features):`);
+    console.log(`   Steps: ${count('passed')} passed | ${count('failed')} failed | ${count('skipped')} skipped`);
+
+    scenarios
+      .filter(scenario => scenario.status === 'failed' || scenario.status === 'timedOut')
+      .slice(0, 5)
+      .forEach(scenario => {
+        const step = scenario.steps.find(item => item.status === 'failed');
+        const examples = scenario.examples
+          ? ` [${Object.entries(scenario.examples.values).map(([name, value]) => `${name}=${value}`).join(', ')}]`
+          : '';
+        console.log(`   ❌ ${scenario.feature.uri}:${scenario.examples?.line || scenario.scenario.line} ${scenario.scenario.name}${examples}${step ? ` → ${step.keyword} ${step.text}` : ''}`);
+      });
+  }
+
+  /**
+   * Scenario runs grouped by feature file, with their Gherkin steps
+   */
+  private async generateGherkinReport(): Promise<void> {
+    if (this.scenarios.size === 0) {
+      return;
+    }
+
+    const features = new Map<string, { uri: string; name: string; scenarios: Array<Omit<ScenarioRun, 'feature'>> }>();
+    for (const { feature, ...scenario } of this.scenarios.values()) {
+      if (!features.has(feature.uri)) {
+        features.set(feature.uri, { ...feature, scenarios: [] });
+      }
+      features.get(feature.uri)!.scenarios.push(scenario);
+    }
+
+    const reportPath = path.join(this.outputDir, 'gherkin-report.json');
+    await fs.writeFile(reportPath, JSON.stringify({ features: Array.from(features.values()) }, null, 2));
+  }
+
+  private renderGherkinCard(): string {
+    if (this.scenarios.size === 0) {
+      return '';
+    }
+
+    const statusClass = (status: string) => status === 'passed' ? 'pass' : status === 'skipped' ? 'skip' : 'fail';
+
+    return `
+    <div class="metric-card">
+        <h3>Scenarios</h3>
+        <table>
+            <tr><th>Feature</th><th>Scenario</th><th>Project</th><th>Tags</th><th>Status</th><th>Steps</th></tr>
+            ${Array.from(this.scenarios.values()).map(scenario =>
+              `<tr><td>${scenario.feature.name}<br><small>${scenario.feature.uri}:${scenario.examples?.line || scenario.scenario.line}</small></td><td>${scenario.scenario.name}${scenario.examples ? `<br><small>${Object.entries(scenario.examples.values).map(([name, value]) => `${name}=${value}`).join(', ')}</small>` : ''}</td><td>${scenario.project}</td><td>${scenario.tags.join(' ')}</td><td class="${statusClass(scenario.status)}">${scenario.status}</td><td>${scenario.steps.map(step =>
+                `<div class="${statusClass(step.status)}">${step.keyword} ${step.text} (${step.duration}ms${step.attachments.length > 0 ? `, ${step.attachments.length} attachment(s)` : ''})</div>`
+              ).join('')}</td></tr>`
+            ).join('')}
+        </table>
+    </div>`;
+  }
+
+  private async updateQuarantineManifest(history: HistoryRunRecord[]): Promise<QuarantineUpdate | undefined> {
+    const options = quarantineOptionsFromEnv();
+    if (!options.enabled) {
+      return undefined;
+    }
+
+    const owners: Record<string, string> = {};
+    for (const { test } of this.testResults) {
+      const owner = this.getOwner(test);
+      if (owner) {
+        owners[test.id] = owner;
+      }
+    }
+
+    try {
+      const update = updateQuarantine(loadQuarantine(options.file), history, options, owners);
+      if (update.added.length > 0 || update.released.length > 0) {
+        await writeQuarantine(options.file, update.manifest);
+      }
+      return update;
+    } catch (error: any) {
+      console.warn(`⚠️  Could not update quarantine manifest ${options.file}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Owner from an `owner` annotation or an `@owner:<name>` tag
+   */
+  private getOwner(test: TestCase): string | undefined {
+    const annotation = test.annotations.find(item => item.type === 'owner')?.description;
+    const tag = test.tags.find(item => item.startsWith('@owner:'))?.slice('@owner:'.length);
+    return annotation || tag;
+  }
+
+  /**
+   * Baselines come from the previous runs only; they are also saved next to
+   * the run history for tools that want them without replaying it
+   */
+  private async checkPerformance(history: HistoryRunRecord[]): Promise<PerformanceCheck | undefined> {
+    if (this.performanceOptions.mode === 'off') {
+      return undefined;
+    }
+
+    const check = checkPerformanceBudgets(history.slice(0, -1), history[history.length - 1], this.performanceOptions);
+    const baselinesPath = path.join(path.dirname(this.history.getFilePath()), 'baselines.json');
+    try {
+      await fs.writeFile(baselinesPath, JSON.stringify({ updatedAt: new Date().toISOString(), baselines: check.baselines }, null, 2));
+    } catch (error: any) {
+      console.warn(`⚠️  Could not write performance baselines to ${baselinesPath}: ${error.message}`);
+    }
+    return check;
+  }
+
+  private performanceStatus(): FullResult['status'] | undefined {
+    if (this.performanceOptions.mode !== 'fail' || !this.performance?.violations.length) {
+      return undefined;
+    }
+
+    console.log(`⏱️  ${this.performance.violations.length} performance budget violation(s); failing the run`);
+    return 'failed';
+  }
+
+  private printPerformanceSummary(): void {
+    const violations = this.performance?.violations || [];
+    if (violations.length === 0) {
+      return;
+    }
+
+    const icon = this.performanceOptions.mode === 'fail' ? '❌' : '⚠️ ';
+    console.log(`\n⏱️  Performance Budgets (${violations.length} violation${violations.length === 1 ? '' : 's'}):`);
+    violations.slice(0, 5).forEach(violation => {
+      console.log(`   ${icon} ${violation.title} (${violation.project}): ${violation.message}`);
+    });
+    if (violations.length > 5) {
+      console.log(`   ... and ${violations.length - 5} more (see performance-report.json)`);
+    }
+  }
+
+  /**
+   * Passes the run when every unexpected failure is a quarantined test
+   */
+  private quarantineStatus(result: FullResult): FullResult['status'] | undefined {
+    if (result.status !== 'failed' || this.globalErrors > 0 || this.quarantined.length === 0) {
+      return undefined;
+    }
+
+    const quarantined = new Set(this.quarantined.map(entry => entry.id));
+    const failing = new Set(this.testResults
+      .filter(({ test }) => test.outcome() === 'unexpected')
+      .map(({ test }) => test.id));
+
+    if (failing.size === 0 || [...failing].some(id => !quarantined.has(id))) {
+      return undefined;
+    }
+
+    console.log(`🚧 ${failing.size} quarantined test(s) failed; not failing the run`);
+    return 'passed';
+  }
+
+  private printQuarantineSummary(): void {
+    const tests = this.quarantineUpdate?.manifest.tests || this.quarantined;
+    const added = this.quarantineUpdate?.added || [];
+    const released = this.quarantineUpdate?.released || [];
+    if (tests.length === 0 && released.length === 0) {
+      return;
+    }
+
+    const failed = this.testResults
+      .filter(({ test }) => test.outcome() === 'unexpected' && this.quarantined.some(entry => entry.id === test.id))
+      .map(({ test }) => test.id);
+
+    console.log(`\n🚧 Quarantine (${tests.length} tests):`);
+    console.log(`   Failed this run (non-blocking): ${new Set(failed).size}`);
+    added.forEach(entry => {
+      console.log(`   ➕ ${entry.title} (${entry.project}) - score ${entry.score}: ${entry.reason}`);
+    });
+    released.forEach(entry => {
+      console.log(`   ➖ ${entry.title} (${entry.project}) - released after staying green`);
+    });
+  }
+
+  private renderQuarantineCard(): string {
+    const tests = this.quarantineUpdate?.manifest.tests || this.quarantined;
+    const released = this.quarantineUpdate?.released || [];
+    if (tests.length === 0 && released.length === 0) {
+      return '';
+    }
+
+    const outcomes = new Map(this.testResults.map(({ test }) => [test.id, test.outcome()]));
+    const outcomeLabel = (id: string) => {
+      switch (outcomes.get(id)) {
+        case 'expected': return '<span class="pass">passed</span>';
+        case 'flaky': return '<span class="skip">flaky</span>';
+        case 'unexpected': return '<span class="fail">failed</span>';
+        case 'skipped': return 'skipped';
+        default: return 'not run';
+      }
+    };
+    const quarantinedFor = (since: string) => {
+      const days = Math.floor((Date.now() - new Date(since).getTime()) / 86400000);
+      return days < 1 ? 'today' : `${days} day${days === 1 ? '' : 's'}`;
+    };
+
+    return `
+    <div class="metric-card">
+        <h3>Quarantine</h3>
+        <table>
+            <tr><th>Test</th><th>Project</th><th>Owner</th><th>Score</th><th>Quarantined</th><th>Since</th><th>This Run</th><th>Reason</th></tr>
+            ${tests.map(entry =>
+              `<tr><td>${entry.title}</td><td>${entry.project}</td><td>${entry.owner || 'unassigned'}</td><td>${entry.score}</td><td>${quarantinedFor(entry.since)}</td><td>${entry.since}</td><td>${outcomeLabel(entry.id)}</td><td>${entry.reason}</td></tr>`
+            ).join('')}
+        </table>
+        ${released.length > 0 ? `
+        <h4>Released This Run</h4>
+        <table>
+            <tr><th>Test</th><th>Project</th><th>Owner</th><th>Quarantined For</th></tr>
+            ${released.map(entry =>
+              `<tr><td>${entry.title}</td><td>${entry.project}</td><td>${entry.owner || 'unassigned'}</td><td>${quarantinedFor(entry.since)}</td></tr>`
+            ).join('')}
+        </table>` : ''}
+    </div>`;
+  }
+
+  /**
+   * Predicted against actual wall time of this shard; the shard planner's
+   * report command collects these files from all shard jobs
+   */
+  private async generateShardReport(totalDuration: number): Promise<void> {
+    if (!this.shard) {
+      return;
+    }
+
+    const report: ShardRunReport = {
+      index: this.shard.index,
+      total: this.shard.total,
+      predicted: this.shard.predicted,
+      actual: totalDuration,
+      tests: new Set(this.testResults.map(({ test }) => test.id)).size,
+      startedAt: new Date(this.startTime).toISOString()
+    };
+    const deviation = report.predicted > 0 ? Math.round(((report.actual - report.predicted) / report.predicted) * 100) : 0;
+    console.log(`🧩 Shard ${report.index}/${report.total}: predicted ${(report.predicted / 1000).toFixed(1)}s, actual ${(report.actual / 1000).toFixed(1)}s (${deviation > 0 ? '+' : ''}${deviation}%)`);
+
+    const reportPath = path.join(this.outputDir, SHARD_REPORT_FILE);
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
+  }
+
+  private async generateTrendReport(): Promise<void> {
+    if (!this.trends) {
+      return;
+    }
+
+    const report = {
+      historyFile: this.history.getFilePath(),
+      ...this.trends
+    };
+
+    const reportPath = path.join(this.outputDir, 'trends.json');
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
+  }
+
+  private renderTrendCard(): string {
+    if (!this.trends) {
+      return '';
+    }
+
+    const { passRate, durationDrift, newFailures, recurringFailures } = this.trends;
+    const width = 600;
+    const height = 120;
+    const step = passRate.length > 1 ? width / (passRate.length - 1) : 0;
+    const points = passRate
+      .map((point, index) => `${(index * step).toFixed(1)},${(height - (point.passRate / 100) * height).toFixed(1)}`)
+      .join(' ');
+
+    return `
+    <div class="metric-card">
+        <h3>Trends (last ${this.trends.runs} runs)</h3>
+        <h4>Pass Rate</h4>
+        <svg width="${width}" height="${height}" viewBox="-5 -5 ${width + 10} ${height + 10}">
+            <polyline fill="none" stroke="#2196F3" stroke-width="2" points="${points}" />
+            ${passRate.map((point, index) =>
+              `<circle cx="${(index * step).toFixed(1)}" cy="${(height - (point.passRate / 100) * height).toFixed(1)}" r="3" fill="${point.failed > 0 ? '#f44336' : '#4CAF50'}"><title>${point.startedAt}: ${point.passRate}% (${point.failed} failed)</title></circle>`
+            ).join('')}
+        </svg>
+
+        <h4>Failures</h4>
+        <table>
+            <tr><th>Test</th><th>Project</th><th>Type</th><th>Failing Since</th><th>Runs</th><th>Last Passed</th></tr>
+            ${[...newFailures, ...recurringFailures].map(failure =>
+              `<tr><td>${failure.title}</td><td>${failure.project}</td><td class="${failure.consecutiveRuns > 1 ? 'fail' : 'skip'}">${failure.consecutiveRuns > 1 ? 'Recurring' : 'New'}</td><td>${failure.failingSince}</td><td>${failure.consecutiveRuns}</td><td>${failure.lastPassed || '-'}</td></tr>`
+            ).join('')}
+        </table>
+
+        <h4>Duration Drift</h4>
+        <table>
+            <tr><th>Test</th><th>Project</th><th>Median (ms)</th><th>This Run (ms)</th><th>Change</th></tr>
+            ${durationDrift.map(drift =>
+              `<tr><td>${drift.title}</td><td>${drift.project}</td><td>${drift.baseline}</td><td>${drift.current}</td><td class="${drift.delta > 0 ? 'fail' : 'pass'}">${drift.delta > 0 ? '+' : ''}${drift.change}%</td></tr>`
+            ).join('')}
+        </table>
+    </div>`;
+  }
+
   private async generateDetailedReport(metrics: TestMetrics, result: FullResult): Promise<void> {
     const report = {
       summary: {
         executionTime: new Date().toISOString(),
         environment: process.env.NODE_ENV || 'development',
         baseUrl: process.env.NEXT_PUBLIC_APP_URL || 'unknown',
+        seed: seedManager.getRunSeed(),
         totalDuration: metrics.duration,
         overallStatus: result.status
       },
@@ -273,6 +961,7 @@ export default class CustomReporter implements Reporter {
         duration: result.duration,
         retry: result.retry,
         error: result.error?.message,
+        gherkin: this.scenarios.get(result),
         attachments: result.attachments.map(att => ({
           name: att.name,
           path: att.path,
@@ -342,6 +1031,14 @@ export default class CustomReporter implements Reporter {
               `<tr><td>${test.title}</td><td>${test.project}</td><td>${test.duration}</td></tr>`
             ).join('')}
         </table>
+        ${this.performance && this.performance.violations.length > 0 ? `
+        <h4>Budget Violations</h4>
+        <table>
+            <tr><th>Test</th><th>Project</th><th>Type</th><th>Duration (ms)</th><th>Limit (ms)</th><th>Baseline (ms)</th></tr>
+            ${this.performance.violations.map(violation =>
+              `<tr><td>${violation.title}</td><td>${violation.project}</td><td>${violation.kind === 'regression' ? 'Regression' : `Budget ${violation.tag}`}</td><td class="fail">${violation.duration}</td><td>${violation.limit}</td><td>${violation.baseline ?? '-'}</td></tr>`
+            ).join('')}
+        </table>` : ''}
     </div>
 
     <div class="metric-card">
@@ -365,7 +1062,18 @@ export default class CustomReporter implements Reporter {
                 `<tr><td>${type}</td><td>${count}</td></tr>`
               ).join('')}
         </table>
+        ${this.clusters.length > 0 ? `
+        <h4>Failure Clusters</h4>
+        <table>
+            <tr><th>Fingerprint</th><th>Count</th><th>Category</th><th>Message</th><th>Locator / Endpoint</th><th>Projects</th><th>First Seen</th><th>Representative</th></tr>
+            ${this.clusters.map(cluster =>
+              `<tr><td>${cluster.hash}</td><td>${cluster.count}</td><td>${cluster.category}</td><td>${escapeHtml(cluster.message)}</td><td>${escapeHtml(cluster.target || '-')}</td><td>${escapeHtml(cluster.projects.join(', '))}</td><td>${cluster.firstSeen.startedAt}</td><td>${escapeHtml(cluster.representative.title)}${cluster.representative.trace ? ` (<a href="${escapeHtml(cluster.representative.trace)}">trace</a>)` : ''}${cluster.representative.screenshot ? ` (<a href="${escapeHtml(cluster.representative.screenshot)}">screenshot</a>)` : ''}</td></tr>`
+            ).join('')}
+        </table>` : ''}
     </div>` : ''}
+    ${this.renderGherkinCard()}
+    ${this.renderTrendCard()}
+    ${this.renderQuarantineCard()}
 </body>
 </html>`;
 
@@ -374,7 +1082,7 @@ export default class CustomReporter implements Reporter {
   }
 
   private async generateFailureReport(): Promise<void> {
-    const failures = this.testResults.filter(({ result }) => result.status === 'failed');
+    const failures = this.getFailures();
     
     if (failures.length === 0) {
       return;
@@ -382,8 +1090,11 @@ export default class CustomReporter implements Reporter {
 
     const report = {
       totalFailures: failures.length,
+      totalClusters: this.clusters.length,
+      clusters: this.clusters,
       failures: failures.map(({ test, result }) => ({
         title: test.title,
+        fingerprint: this.fingerprints.get(result)?.hash,
         project: test.parent?.project()?.name || 'unknown',
         file: test.location?.file,
         line: test.location?.line,
@@ -411,6 +1122,9 @@ export default class CustomReporter implements Reporter {
         testCount: metrics.totalTests
       },
       slowTests: metrics.slowestTests.filter(test => test.duration > 10000), // Tests > 10s
+      budgets: this.performanceOptions,
+      violations: this.performance?.violations || [],
+      baselines: this.performance?.baselines || [],
       recommendations: this.generatePerformanceRecommendations(metrics)
     };
 
@@ -433,6 +1147,11 @@ export default class CustomReporter implements Reporter {
       recommendations.push('High number of flaky tests detected - investigate test stability');
     }
 
+    const regressions = this.performance?.violations.filter(violation => violation.kind === 'regression') || [];
+    if (regressions.length > 0) {
+      recommendations.push(`${regressions.length} test(s) regressed against their duration baseline - check recent changes`);
+    }
+
     const timeoutErrors = metrics.errorsByType['Timeout'] || 0;
     if (timeoutErrors > metrics.totalTests * 0.05) {
       recommendations.push('Consider increasing timeouts or optimizing page load performance');
@@ -457,6 +1176,7 @@ export default class CustomReporter implements Reporter {
         timestamp: new Date().toISOString(),
         environment: process.env.NODE_ENV,
         ci: process.env.CI,
+        seed: seedManager.getRunSeed(),
         buildNumber: process.env.BUILD_NUMBER || process.env.GITHUB_RUN_NUMBER,
         branch: process.env.GIT_BRANCH || process.env.GITHUB_REF
       }
@@ -483,6 +1203,13 @@ export default class CustomReporter implements Reporter {
       console.log(`::error file=${file},line=${line}::${test.title}: ${message}`);
     });
 
+    // Output performance budget violations, as errors when they fail the run
+    const level = this.performanceOptions.mode === 'fail' ? 'error' : 'warning';
+    this.performance?.violations.forEach(violation => {
+      const location = violation.file ? ` file=${violation.file}` : '';
+      console.log(`::${level}${location}::${violation.title} (${violation.project}): ${violation.message}`);
+    });
+
     // Output warning for slow tests
     if (metrics.avgTestDuration > 20000) {
       console.log(`::warning::Average test duration is high: ${metrics.avgTestDuration.toFixed(0)}ms`);
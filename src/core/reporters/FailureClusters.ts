@@ -0,0 +1,83 @@
+/**
+ * Failure Clusters
+ *
+ * Groups the failures of a run by fingerprint across tests and projects. Each
+ * cluster keeps one representative failure with its trace and screenshot and
+ * the run its fingerprint was first recorded in.
+ */
+
+import { FailureFingerprint } from './FailureFingerprint';
+import { HistoryRunRecord } from './RunHistory';
+
+export interface FailureOccurrence {
+  fingerprint: FailureFingerprint;
+  title: string;
+  project: string;
+  file?: string;
+  line?: number;
+  error?: string;
+  attachments: Array<{ name: string; path?: string; contentType: string }>;
+}
+
+export interface FailureCluster extends FailureFingerprint {
+  count: number;
+  projects: string[];
+  tests: Array<{ title: string; project: string; file?: string; line?: number }>;
+  firstSeen: { runId?: string; startedAt: string };
+  representative: {
+    title: string;
+    project: string;
+    error?: string;
+    trace?: string;
+    screenshot?: string;
+  };
+}
+
+/**
+ * Largest clusters first
+ */
+export function clusterFailures(
+  failures: FailureOccurrence[],
+  history: HistoryRunRecord[] = [],
+  currentRunStart = new Date().toISOString()
+): FailureCluster[] {
+  const groups = new Map<string, FailureOccurrence[]>();
+  for (const failure of failures) {
+    groups.set(failure.fingerprint.hash, [...(groups.get(failure.fingerprint.hash) || []), failure]);
+  }
+
+  return Array.from(groups.values())
+    .map(occurrences => {
+      const { fingerprint } = occurrences[0];
+      const firstRun = history.find(run => run.tests.some(test => test.fingerprint === fingerprint.hash));
+      const representative = occurrences.find(occurrence => findTrace(occurrence))
+        || occurrences.find(occurrence => findScreenshot(occurrence))
+        || occurrences[0];
+
+      return {
+        ...fingerprint,
+        count: occurrences.length,
+        projects: [...new Set(occurrences.map(occurrence => occurrence.project))],
+        tests: occurrences.map(({ title, project, file, line }) => ({ title, project, file, line })),
+        firstSeen: firstRun
+          ? { runId: firstRun.runId, startedAt: firstRun.startedAt }
+          : { startedAt: currentRunStart },
+        representative: {
+          title: representative.title,
+          project: representative.project,
+          error: representative.error,
+          trace: findTrace(representative),
+          screenshot: findScreenshot(representative)
+        }
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+}
+
+function findTrace(occurrence: FailureOccurrence): string | undefined {
+  return occurrence.attachments.find(attachment => attachment.name === 'trace' && attachment.path)?.path;
+}
+
+function findScreenshot(occurrence: FailureOccurrence): string | undefined {
+  return occurrence.attachments.find(attachment => attachment.contentType.startsWith('image/') && attachment.path)?.path;
+}
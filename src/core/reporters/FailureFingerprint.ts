@@ -0,0 +1,155 @@
+/**
+ * Failure Fingerprint
+ *
+ * Reduces a test error to the parts that identify its cause: the normalized
+ * first line of the message, the top stack frames in shared code and the
+ * failing locator or endpoint. Failures caused by the same problem get the
+ * same fingerprint, whichever test or project they come from.
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+
+export type FailureCategory =
+  | 'Timeout'
+  | 'Network'
+  | 'API'
+  | 'Element Not Found'
+  | 'Assertion'
+  | 'Navigation'
+  | 'Other';
+
+export interface FailureFingerprint {
+  hash: string;
+  category: FailureCategory;
+  message: string;
+  frames: string[];
+  /** Failing locator or `METHOD /path` endpoint */
+  target?: string;
+}
+
+const MAX_FRAMES = 3;
+
+const ANSI = /\x1b\[[0-9;]*m/g;
+const UUID = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+const ID_SEGMENT = /^(?:\d+|[0-9a-f-]{36}|[0-9a-f]{16,})$/i;
+const ISO_DATE = /\b\d{4}-\d{2}-\d{2}T[\d:.]+Z?\b/g;
+const HEX = /\b(?:0x)?[0-9a-f]{8,}\b/gi;
+// Short numbers such as HTTP status codes are kept
+const NUMBER = /\b\d{4,}(?:\.\d+)?\b/g;
+const URL_PATTERN = /https?:\/\/[^\s'"`)]+/g;
+const ENDPOINT = /\b(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(https?:\/\/[^\s'"`)]+)/;
+const LOCATOR = /(?:Locator:\s*|waiting for\s+)((?:locator|getBy\w+|frameLocator)\(.*)$/m;
+const FRAME = /^\s*at\s+(?:(.+?)\s+\()?(.+?):\d+:\d+\)?$/;
+
+export function fingerprintFailure(
+  error: { message?: string; stack?: string },
+  root = process.cwd()
+): FailureFingerprint {
+  const raw = (error.message || '').replace(ANSI, '');
+  const message = normalizeMessage(raw);
+  const frames = topFrames((error.stack || '').replace(ANSI, ''), root);
+  const target = failingLocator(raw) || failingEndpoint(raw);
+
+  const hash = createHash('sha1')
+    .update([message, ...frames, target || ''].join('\n'))
+    .digest('hex')
+    .slice(0, 12);
+
+  return { hash, category: categorize(raw, target), message, frames, target };
+}
+
+/**
+ * First line of the message with volatile values (ids, numbers, dates, hosts)
+ * replaced by placeholders
+ */
+export function normalizeMessage(message: string): string {
+  const firstLine = message
+    .replace(ANSI, '')
+    .split('\n')
+    .map(line => line.trim())
+    .find(line => line.length > 0) || '';
+
+  return firstLine
+    .replace(URL_PATTERN, url => normalizePath(url))
+    .replace(UUID, '<uuid>')
+    .replace(ISO_DATE, '<date>')
+    .replace(HEX, '<hex>')
+    .replace(NUMBER, '<n>')
+    .replace(/\s+/g, ' ')
+    .slice(0, 300);
+}
+
+/**
+ * Frames outside node_modules and spec files, as `file:function` without line
+ * numbers so unrelated edits do not change the fingerprint
+ */
+function topFrames(stack: string, root: string): string[] {
+  const frames: string[] = [];
+
+  for (const line of stack.split('\n')) {
+    const match = FRAME.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const file = match[2].replace(/^file:\/\//, '');
+    if (file.startsWith('node:') || file.includes('node_modules') || /\.(spec|test)\.[jt]s$/.test(file) || file.includes('.features-gen')) {
+      continue;
+    }
+
+    const relative = path.isAbsolute(file) ? path.relative(root, file) : file;
+    frames.push(`${relative}:${match[1] || '<anonymous>'}`);
+    if (frames.length === MAX_FRAMES) {
+      break;
+    }
+  }
+
+  return frames;
+}
+
+function failingLocator(message: string): string | undefined {
+  return LOCATOR.exec(message)?.[1].trim().slice(0, 200);
+}
+
+function failingEndpoint(message: string): string | undefined {
+  const match = ENDPOINT.exec(message);
+  return match ? `${match[1]} ${normalizePath(match[2])}` : undefined;
+}
+
+/**
+ * Path without host or query, with id-like segments replaced by :id
+ */
+function normalizePath(rawURL: string): string {
+  try {
+    const url = new URL(rawURL);
+    return url.pathname
+      .split('/')
+      .map(segment => ID_SEGMENT.test(segment) ? ':id' : segment)
+      .join('/');
+  } catch {
+    return rawURL;
+  }
+}
+
+function categorize(message: string, target?: string): FailureCategory {
+  if (/TimeoutError|Timeout \d+ms exceeded|Test timeout of \d+ms/.test(message)) {
+    return 'Timeout';
+  }
+  if (/net::ERR_|ECONNREFUSED|ECONNRESET|ENOTFOUND|socket hang up|fetch failed/.test(message)) {
+    return 'Network';
+  }
+  if (target && !target.includes('(') && /\b[45]\d\d\b/.test(message)) {
+    return 'API';
+  }
+  if (/strict mode violation|element\(s\) not found|resolved to 0 elements|not attached to the DOM/.test(message)) {
+    return 'Element Not Found';
+  }
+  if (/expect\(.*\)\.\w+|AssertionError|toEqual|toBe\w*\(/.test(message)) {
+    return 'Assertion';
+  }
+  if (/page\.goto|navigation|ERR_ABORTED/i.test(message)) {
+    return 'Navigation';
+  }
+  return 'Other';
+}
@@ -0,0 +1,220 @@
+/**
+ * Gherkin Mapper
+ *
+ * Maps results of playwright-bdd generated specs back to their .feature file:
+ * scenario line, Examples row, tags and a per-step breakdown. The generated
+ * spec names its feature in a `// Generated from:` header and lists the
+ * Gherkin steps of every test between `bdd-data-start` and `bdd-data-end`.
+ */
+
+import * as fs from 'fs';
+import path from 'path';
+import { TestCase, TestResult, TestStep } from '@playwright/test/reporter';
+
+export type GherkinStepStatus = 'passed' | 'failed' | 'skipped';
+
+export interface GherkinStepResult {
+  keyword: string;
+  text: string;
+  line: number;
+  background: boolean;
+  status: GherkinStepStatus;
+  duration: number;
+  error?: string;
+  attachments: Array<{ name: string; path?: string; contentType: string }>;
+}
+
+export interface GherkinScenarioResult {
+  feature: { uri: string; name: string };
+  scenario: { name: string; line: number };
+  examples?: { line: number; values: Record<string, string> };
+  tags: string[];
+  steps: GherkinStepResult[];
+}
+
+/**
+ * One attempt of a scenario in one project, as streamed by the custom reporter
+ */
+export interface ScenarioRun extends GherkinScenarioResult {
+  title: string;
+  project: string;
+  status: TestResult['status'];
+  duration: number;
+  retry: number;
+  attachments: Array<{ name: string; path?: string; contentType: string }>;
+}
+
+/**
+ * NDJSON of ScenarioRun records, appended as tests finish so global teardown
+ * can read the results of the run it belongs to
+ */
+export const SCENARIO_RESULTS_FILE = 'scenario-results.ndjson';
+
+export interface BddStepData {
+  pwStepLine: number;
+  gherkinStepLine: number;
+  textWithKeyword: string;
+  isBg?: boolean;
+}
+
+export interface BddTestData {
+  pwTestLine: number;
+  pickleLine: number;
+  tags: string[];
+  steps: BddStepData[];
+}
+
+export interface GeneratedSpec {
+  featureUri: string;
+  tests: BddTestData[];
+}
+
+const GENERATED_FROM = '// Generated from:';
+const SCENARIO = /^\s*(?:Scenario(?: Outline| Template)?|Example):\s*(.*)$/;
+const FEATURE = /^\s*Feature:\s*(.*)$/;
+const KEYWORD = /^(Given|When|Then|And|But|\*)\s+/;
+
+export class GherkinMapper {
+  private specs = new Map<string, GeneratedSpec | undefined>();
+  private features = new Map<string, string[]>();
+
+  /**
+   * @param configDir directory feature URIs in generated specs are relative to
+   */
+  constructor(private readonly configDir = process.cwd()) {}
+
+  /**
+   * Undefined for tests that were not generated by playwright-bdd
+   */
+  map(test: TestCase, result: TestResult): GherkinScenarioResult | undefined {
+    const spec = this.getSpec(test.location.file);
+    const data = spec?.tests.find(item => item.pwTestLine === test.location.line);
+    if (!spec || !data) {
+      return undefined;
+    }
+
+    const featureFile = path.resolve(this.configDir, spec.featureUri);
+    const lines = this.getFeature(featureFile);
+    const featureName = lines.map(line => FEATURE.exec(line)?.[1]).find(name => name !== undefined);
+    const { scenario, examples } = locateScenario(lines, data.pickleLine);
+
+    const executed = flattenSteps(result.steps).filter(step => step.location?.file === test.location.file);
+    let failed = false;
+    const steps = data.steps.map(stepData => {
+      const step = executed.find(candidate => candidate.location?.line === stepData.pwStepLine);
+      const status: GherkinStepStatus = !step || failed ? 'skipped' : step.error ? 'failed' : 'passed';
+      failed = failed || status === 'failed';
+
+      return {
+        keyword: KEYWORD.exec(stepData.textWithKeyword)?.[1] || '',
+        text: stepData.textWithKeyword.replace(KEYWORD, ''),
+        line: stepData.gherkinStepLine,
+        background: !!stepData.isBg,
+        status,
+        duration: step?.duration || 0,
+        error: step?.error?.message,
+        attachments: (step ? flattenSteps(step.steps) : [])
+          .filter(child => child.category === 'test.attach')
+          .flatMap(child => child.attachments)
+          .map(att => ({ name: att.name, path: att.path, contentType: att.contentType }))
+      };
+    });
+
+    return {
+      feature: {
+        uri: path.relative(process.cwd(), featureFile),
+        name: featureName || path.basename(featureFile, '.feature')
+      },
+      scenario: scenario || { name: test.title, line: data.pickleLine },
+      examples,
+      tags: data.tags,
+      steps
+    };
+  }
+
+  private getSpec(file: string): GeneratedSpec | undefined {
+    if (!this.specs.has(file)) {
+      this.specs.set(file, readGeneratedSpec(file));
+    }
+    return this.specs.get(file);
+  }
+
+  private getFeature(file: string): string[] {
+    if (!this.features.has(file)) {
+      this.features.set(file, fs.existsSync(file) ? fs.readFileSync(file, 'utf-8').split('\n') : []);
+    }
+    return this.features.get(file)!;
+  }
+}
+
+/**
+ * Feature URI and bdd-data of a playwright-bdd generated spec; undefined for
+ * other files
+ */
+export function readGeneratedSpec(file: string): GeneratedSpec | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+
+  const lines = fs.readFileSync(file, 'utf-8').split('\n');
+  if (!lines[0]?.startsWith(GENERATED_FROM)) {
+    return undefined;
+  }
+
+  const start = lines.findIndex(line => line.endsWith('// bdd-data-start'));
+  const end = lines.findIndex(line => line.endsWith('// bdd-data-end'));
+  if (start === -1 || end === -1) {
+    return undefined;
+  }
+
+  return {
+    featureUri: lines[0].slice(GENERATED_FROM.length).trim(),
+    tests: lines.slice(start + 1, end).map(line => JSON.parse(line.trim().replace(/,$/, '')))
+  };
+}
+
+/**
+ * A pickle line points at the scenario itself, or at its row in an Examples
+ * table for scenario outlines
+ */
+function locateScenario(
+  lines: string[],
+  pickleLine: number
+): { scenario?: GherkinScenarioResult['scenario']; examples?: GherkinScenarioResult['examples'] } {
+  const index = pickleLine - 1;
+  const scenarioIndex = findAbove(lines, index, line => SCENARIO.test(line));
+  const scenario = scenarioIndex === -1
+    ? undefined
+    : { name: SCENARIO.exec(lines[scenarioIndex])![1].trim(), line: scenarioIndex + 1 };
+
+  if (!lines[index]?.trim().startsWith('|')) {
+    return { scenario };
+  }
+
+  const examplesIndex = findAbove(lines, index, line => /^\s*(Examples|Scenarios):/.test(line));
+  const header = lines.slice(examplesIndex + 1).find(line => line.trim().startsWith('|'));
+  const cells = (row: string) => row.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+  const names = header ? cells(header) : [];
+  const values = cells(lines[index]);
+
+  return {
+    scenario,
+    examples: {
+      line: pickleLine,
+      values: Object.fromEntries(names.map((name, position) => [name, values[position] ?? '']))
+    }
+  };
+}
+
+function findAbove(lines: string[], from: number, predicate: (line: string) => boolean): number {
+  for (let index = from; index >= 0; index--) {
+    if (predicate(lines[index])) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function flattenSteps(steps: TestStep[]): TestStep[] {
+  return steps.flatMap(step => [step, ...flattenSteps(step.steps)]);
+}
@@ -0,0 +1,393 @@
+/**
+ * Living Documentation
+ *
+ * Renders every .feature file under features/ into a static HTML site:
+ * features, Backgrounds, scenarios, Examples and data tables, each scenario
+ * annotated with its status, tags and trace/screenshot links from the latest
+ * run. The page has text search and tag/status filters and needs no server.
+ *
+ * LIVING_DOCS       false skips generation in global teardown
+ * LIVING_DOCS_DIR   output directory (default test-results/living-docs)
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { AstBuilder, GherkinClassicTokenMatcher, Parser } from '@cucumber/gherkin';
+import { Background, DataTable, Examples, Feature, IdGenerator, Scenario, Step } from '@cucumber/messages';
+import { SCENARIO_RESULTS_FILE, ScenarioRun } from './GherkinMapper';
+
+export interface LivingDocumentationOptions {
+  featuresDir: string;
+  resultsFile: string;
+  outputDir: string;
+}
+
+type ScenarioStatus = 'passed' | 'failed' | 'flaky' | 'skipped' | 'not run';
+
+interface FeatureDocument {
+  uri: string;
+  feature: Feature;
+}
+
+const STATUS_ORDER: ScenarioStatus[] = ['failed', 'flaky', 'passed', 'skipped', 'not run'];
+
+export class LivingDocumentation {
+  private readonly options: LivingDocumentationOptions;
+
+  constructor(options: Partial<LivingDocumentationOptions> = {}) {
+    this.options = {
+      featuresDir: options.featuresDir || 'features',
+      resultsFile: options.resultsFile || path.join('test-results', 'custom-reports', SCENARIO_RESULTS_FILE),
+      outputDir: options.outputDir || process.env.LIVING_DOCS_DIR || path.join('test-results', 'living-docs')
+    };
+  }
+
+  /**
+   * Write the site and return the path of its index page
+   */
+  async generate(): Promise<string> {
+    const documents = await this.loadFeatures();
+    const runs = await this.loadResults();
+
+    await fs.mkdir(this.options.outputDir, { recursive: true });
+    const indexPath = path.join(this.options.outputDir, 'index.html');
+    await fs.writeFile(indexPath, this.renderSite(documents, runs));
+    return indexPath;
+  }
+
+  private async loadFeatures(): Promise<FeatureDocument[]> {
+    const parser = new Parser(new AstBuilder(IdGenerator.incrementing()), new GherkinClassicTokenMatcher());
+    const documents: FeatureDocument[] = [];
+
+    for (const file of await findFeatureFiles(this.options.featuresDir)) {
+      const uri = path.relative(process.cwd(), file);
+      try {
+        const { feature } = parser.parse(await fs.readFile(file, 'utf-8'));
+        if (feature) {
+          documents.push({ uri, feature });
+        }
+      } catch (error: any) {
+        console.warn(`⚠️  Skipping ${uri} in living documentation: ${error.message}`);
+      }
+    }
+
+    return documents.sort((a, b) => a.uri.localeCompare(b.uri));
+  }
+
+  /**
+   * Latest attempt per scenario line and project
+   */
+  private async loadResults(): Promise<Map<string, ScenarioRun[]>> {
+    const byLine = new Map<string, ScenarioRun[]>();
+    let content = '';
+    try {
+      content = await fs.readFile(this.options.resultsFile, 'utf-8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    for (const line of content.split('\n').filter(Boolean)) {
+      const run: ScenarioRun = JSON.parse(line);
+      const key = resultKey(run.feature.uri, run.examples?.line || run.scenario.line);
+      const runs = byLine.get(key) || [];
+      const previous = runs.findIndex(existing => existing.project === run.project);
+      if (previous === -1) {
+        runs.push(run);
+      } else if (run.retry >= runs[previous].retry) {
+        runs[previous] = run;
+      }
+      byLine.set(key, runs);
+    }
+
+    return byLine;
+  }
+
+  private renderSite(documents: FeatureDocument[], runs: Map<string, ScenarioRun[]>): string {
+    const allTags = new Set<string>();
+    const statusCounts: Record<ScenarioStatus, number> = { failed: 0, flaky: 0, passed: 0, skipped: 0, 'not run': 0 };
+
+    const sections = documents.map(document => {
+      const featureTags = document.feature.tags.map(tag => tag.name);
+      featureTags.forEach(tag => allTags.add(tag));
+
+      const scenarios = document.feature.children.flatMap((child): Array<{ scenario: Scenario; rule?: string }> => {
+        if (child.scenario) {
+          return [{ scenario: child.scenario, rule: undefined }];
+        }
+        return (child.rule?.children || [])
+          .filter(ruleChild => ruleChild.scenario)
+          .map(ruleChild => ({ scenario: ruleChild.scenario!, rule: child.rule!.name }));
+      });
+
+      const backgrounds = document.feature.children
+        .flatMap(child => child.background ? [child.background] : (child.rule?.children || []).flatMap(ruleChild => ruleChild.background ? [ruleChild.background] : []));
+
+      const renderedScenarios = scenarios.map(({ scenario, rule }) => {
+        const tags = [...featureTags, ...scenario.tags.map(tag => tag.name), ...scenario.examples.flatMap(examples => examples.tags.map(tag => tag.name))];
+        tags.forEach(tag => allTags.add(tag));
+        const scenarioRuns = scenarioResults(document.uri, scenario, runs);
+        const status = combinedStatus(scenarioRuns.flatMap(row => row.runs));
+        statusCounts[status]++;
+        return renderScenario(scenario, rule, [...new Set(tags)], status, scenarioRuns, this.options.outputDir);
+      });
+
+      return `
+      <section class="feature" id="${slug(document.uri)}">
+        <h2>${escapeHtml(document.feature.keyword)}: ${escapeHtml(document.feature.name)}</h2>
+        <div class="uri">${escapeHtml(document.uri)}</div>
+        ${renderTags(featureTags)}
+        ${document.feature.description.trim() ? `<pre class="description">${escapeHtml(dedent(document.feature.description))}</pre>` : ''}
+        ${backgrounds.map(renderBackground).join('')}
+        ${renderedScenarios.join('')}
+      </section>`;
+    });
+
+    const tagOptions = [...allTags].sort().map(tag => `<label class="tag-filter"><input type="checkbox" value="${escapeHtml(tag)}"> ${escapeHtml(tag)}</label>`).join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>Testoria Living Documentation</title>
+    <style>
+        body { font-family: Arial, sans-serif; margin: 0; display: flex; }
+        nav { width: 280px; padding: 20px; background: #f5f5f5; height: 100vh; overflow-y: auto; position: sticky; top: 0; box-sizing: border-box; }
+        nav a { display: block; color: #333; text-decoration: none; margin: 4px 0; font-size: 14px; }
+        main { flex: 1; padding: 20px 40px; }
+        .feature { border-bottom: 1px solid #ddd; padding-bottom: 20px; }
+        .uri, .description { color: #666; font-size: 13px; }
+        .scenario { border: 1px solid #ddd; border-left: 6px solid #9e9e9e; border-radius: 6px; padding: 10px 15px; margin: 12px 0; background: #fafafa; }
+        .scenario.passed { border-left-color: #4CAF50; }
+        .scenario.failed { border-left-color: #f44336; }
+        .scenario.flaky { border-left-color: #ff9800; }
+        .background { border: 1px dashed #bbb; border-radius: 6px; padding: 10px 15px; margin: 12px 0; }
+        .status { float: right; font-weight: bold; text-transform: uppercase; font-size: 12px; }
+        .passed > .status, .step.passed { color: #4CAF50; }
+        .failed > .status, .step.failed { color: #f44336; }
+        .flaky > .status { color: #ff9800; }
+        .step { margin: 3px 0; font-family: monospace; }
+        .step.skipped { color: #999; }
+        .keyword { font-weight: bold; }
+        .tag { display: inline-block; background: #e3f2fd; color: #1565c0; border-radius: 10px; padding: 1px 8px; margin: 2px; font-size: 12px; }
+        .runs { font-size: 12px; color: #555; margin-top: 6px; }
+        .error { color: #f44336; font-size: 12px; white-space: pre-wrap; }
+        table { border-collapse: collapse; margin: 6px 0 6px 20px; font-size: 13px; }
+        th, td { border: 1px solid #ddd; padding: 3px 8px; }
+        th { background: #f2f2f2; }
+        tr.passed td:first-child { border-left: 4px solid #4CAF50; }
+        tr.failed td:first-child { border-left: 4px solid #f44336; }
+        tr.flaky td:first-child { border-left: 4px solid #ff9800; }
+        pre.docstring { margin: 6px 0 6px 20px; background: #f2f2f2; padding: 6px; }
+        #search { width: 100%; padding: 6px; box-sizing: border-box; margin-bottom: 10px; }
+        .tag-filter { display: block; font-size: 13px; }
+        .hidden { display: none; }
+    </style>
+</head>
+<body>
+    <nav>
+        <h3>📚 Living Documentation</h3>
+        <p>Generated: ${new Date().toLocaleString()}</p>
+        <p>${STATUS_ORDER.map(status => `${status}: ${statusCounts[status]}`).join('<br>')}</p>
+        <input id="search" type="search" placeholder="Search scenarios and steps">
+        <select id="status">
+            <option value="">All statuses</option>
+            ${STATUS_ORDER.map(status => `<option value="${status}">${status}</option>`).join('')}
+        </select>
+        <h4>Tags</h4>
+        ${tagOptions}
+        <h4>Features</h4>
+        ${documents.map(document => `<a href="#${slug(document.uri)}">${escapeHtml(document.feature.name)}</a>`).join('')}
+    </nav>
+    <main>
+        <h1>Testoria Features</h1>
+        ${sections.join('')}
+    </main>
+    <script>
+        const search = document.getElementById('search');
+        const status = document.getElementById('status');
+        const tagInputs = Array.from(document.querySelectorAll('.tag-filter input'));
+
+        function applyFilters() {
+            const text = search.value.trim().toLowerCase();
+            const tags = tagInputs.filter(input => input.checked).map(input => input.value);
+            document.querySelectorAll('.feature').forEach(feature => {
+                let visible = 0;
+                feature.querySelectorAll('.scenario').forEach(scenario => {
+                    const scenarioTags = scenario.dataset.tags.split(' ');
+                    const show = (!text || scenario.dataset.search.includes(text))
+                        && (!status.value || scenario.dataset.status === status.value)
+                        && tags.every(tag => scenarioTags.includes(tag));
+                    scenario.classList.toggle('hidden', !show);
+                    visible += show ? 1 : 0;
+                });
+                feature.classList.toggle('hidden', visible === 0);
+            });
+        }
+
+        search.addEventListener('input', applyFilters);
+        status.addEventListener('change', applyFilters);
+        tagInputs.forEach(input => input.addEventListener('change', applyFilters));
+    </script>
+</body>
+</html>`;
+  }
+}
+
+export const livingDocumentation = new LivingDocumentation();
+export default livingDocumentation;
+
+interface RowResults {
+  line: number;
+  runs: ScenarioRun[];
+}
+
+/**
+ * Runs for a plain scenario, or one entry per Examples row of an outline
+ */
+function scenarioResults(uri: string, scenario: Scenario, runs: Map<string, ScenarioRun[]>): RowResults[] {
+  const rows = scenario.examples.flatMap(examples => examples.tableBody);
+  if (rows.length === 0) {
+    return [{ line: scenario.location.line, runs: runs.get(resultKey(uri, scenario.location.line)) || [] }];
+  }
+  return rows.map(row => ({ line: row.location.line, runs: runs.get(resultKey(uri, row.location.line)) || [] }));
+}
+
+function combinedStatus(runs: ScenarioRun[]): ScenarioStatus {
+  if (runs.length === 0) {
+    return 'not run';
+  }
+  if (runs.some(run => run.status !== 'passed' && run.status !== 'skipped')) {
+    return 'failed';
+  }
+  if (runs.every(run => run.status === 'skipped')) {
+    return 'skipped';
+  }
+  return runs.some(run => run.status === 'passed' && run.retry > 0) ? 'flaky' : 'passed';
+}
+
+function renderScenario(
+  scenario: Scenario,
+  rule: string | undefined,
+  tags: string[],
+  status: ScenarioStatus,
+  rows: RowResults[],
+  outputDir: string
+): string {
+  const allRuns = rows.flatMap(row => row.runs);
+  // Step colours come from a failing run when there is one
+  const stepSource = scenario.examples.length === 0
+    ? allRuns.find(run => run.status !== 'passed') || allRuns[0]
+    : undefined;
+  const stepStatus = (step: Step) => stepSource?.steps.find(result => result.line === step.location.line && !result.background)?.status;
+  const searchText = [scenario.name, rule || '', ...scenario.steps.map(step => `${step.keyword}${step.text}`)].join(' ').toLowerCase();
+
+  return `
+        <div class="scenario ${status === 'not run' ? 'not-run' : status}" data-status="${status}" data-tags="${escapeHtml(tags.join(' '))}" data-search="${escapeHtml(searchText)}">
+            <span class="status">${status}</span>
+            <h3>${rule ? `<small>${escapeHtml(rule)} › </small>` : ''}${escapeHtml(scenario.keyword)}: ${escapeHtml(scenario.name)}</h3>
+            ${renderTags(tags)}
+            ${scenario.description.trim() ? `<pre class="description">${escapeHtml(dedent(scenario.description))}</pre>` : ''}
+            ${scenario.steps.map(step => renderStep(step, stepStatus(step))).join('')}
+            ${scenario.examples.map(examples => renderExamples(examples, rows)).join('')}
+            ${renderRuns(allRuns, outputDir)}
+        </div>`;
+}
+
+function renderBackground(background: Background): string {
+  return `
+        <div class="background">
+            <h3>${escapeHtml(background.keyword)}${background.name ? `: ${escapeHtml(background.name)}` : ''}</h3>
+            ${background.steps.map(step => renderStep(step)).join('')}
+        </div>`;
+}
+
+function renderStep(step: Step, status?: string): string {
+  return `
+            <div class="step ${status || ''}"><span class="keyword">${escapeHtml(step.keyword.trim())}</span> ${escapeHtml(step.text)}</div>
+            ${step.dataTable ? renderDataTable(step.dataTable) : ''}
+            ${step.docString ? `<pre class="docstring">${escapeHtml(step.docString.content)}</pre>` : ''}`;
+}
+
+function renderDataTable(table: DataTable): string {
+  return `<table>${table.rows.map(row => `<tr>${row.cells.map(cell => `<td>${escapeHtml(cell.value)}</td>`).join('')}</tr>`).join('')}</table>`;
+}
+
+function renderExamples(examples: Examples, rows: RowResults[]): string {
+  const rowStatus = (line: number) => combinedStatus(rows.find(row => row.line === line)?.runs || []);
+  return `
+            <h4>${escapeHtml(examples.keyword)}${examples.name ? `: ${escapeHtml(examples.name)}` : ''}</h4>
+            <table>
+                ${examples.tableHeader ? `<tr>${examples.tableHeader.cells.map(cell => `<th>${escapeHtml(cell.value)}</th>`).join('')}<th>Status</th></tr>` : ''}
+                ${examples.tableBody.map(row => {
+                  const status = rowStatus(row.location.line);
+                  return `<tr class="${status}">${row.cells.map(cell => `<td>${escapeHtml(cell.value)}</td>`).join('')}<td>${status}</td></tr>`;
+                }).join('')}
+            </table>`;
+}
+
+function renderRuns(runs: ScenarioRun[], outputDir: string): string {
+  if (runs.length === 0) {
+    return '';
+  }
+
+  const link = (file: string, label: string) => `<a href="${escapeHtml(path.relative(outputDir, file))}">${label}</a>`;
+  return runs.map(run => {
+    const trace = run.attachments.find(att => att.name === 'trace' && att.path);
+    const screenshots = run.attachments.filter(att => att.contentType.startsWith('image/') && att.path);
+    const error = run.steps.find(step => step.status === 'failed')?.error;
+    return `
+            <div class="runs">
+                ${escapeHtml(run.project)}${run.examples ? ` [${escapeHtml(Object.values(run.examples.values).join(', '))}]` : ''}: ${run.status} in ${run.duration}ms${run.retry > 0 ? ` (retry ${run.retry})` : ''}
+                ${trace ? ` · ${link(trace.path!, 'trace')}` : ''}
+                ${screenshots.map((screenshot, index) => ` · ${link(screenshot.path!, `screenshot${screenshots.length > 1 ? ` ${index + 1}` : ''}`)}`).join('')}
+                ${error ? `<div class="error">${escapeHtml(error.split('\n')[0])}</div>` : ''}
+            </div>`;
+  }).join('');
+}
+
+function renderTags(tags: string[]): string {
+  return tags.length > 0 ? `<div>${tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join('')}</div>` : '';
+}
+
+export async function findFeatureFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files = await Promise.all(entries.map(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findFeatureFiles(fullPath);
+    }
+    return Promise.resolve(entry.name.endsWith('.feature') ? [fullPath] : []);
+  }));
+  return files.flat();
+}
+
+function resultKey(uri: string, line: number): string {
+  return `${path.normalize(uri)}:${line}`;
+}
+
+function slug(value: string): string {
+  return value.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase();
+}
+
+function dedent(text: string): string {
+  return text.split('\n').map(line => line.trim()).join('\n').trim();
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,160 @@
+/**
+ * Performance Budgets
+ *
+ * Per-test duration baselines taken from the median of recent green runs in
+ * the run history, and the checks run against them: a test regresses when it
+ * is slower than its baseline by more than the allowed percentage and
+ * milliseconds, and breaks a tag budget when it takes longer than the budget
+ * declared for one of its tags (for example `@smoke` under 10s).
+ */
+
+import { HistoryRunRecord, HistoryTestRecord } from './RunHistory';
+import { median } from './TrendAnalysis';
+
+export type PerformanceBudgetMode = 'off' | 'warn' | 'fail';
+
+export interface PerformanceBudgetOptions {
+  /** 'fail' turns violations into a failed run, 'warn' only reports them */
+  mode: PerformanceBudgetMode;
+  /** Allowed slowdown over the baseline, in percent */
+  regressionPercent: number;
+  /** Allowed slowdown over the baseline, in milliseconds */
+  regressionMs: number;
+  /** Recent green runs of a test the baseline median is taken from */
+  baselineRuns: number;
+  /** Green runs needed before a test has a baseline */
+  minSamples: number;
+  /** Maximum duration in milliseconds per tag, e.g. { '@smoke': 10000 } */
+  tagBudgets: Record<string, number>;
+}
+
+export interface PerformanceBaseline {
+  id: string;
+  title: string;
+  project: string;
+  median: number;
+  samples: number;
+}
+
+export interface PerformanceViolation {
+  id: string;
+  title: string;
+  project: string;
+  file?: string;
+  kind: 'regression' | 'tag-budget';
+  duration: number;
+  limit: number;
+  baseline?: number;
+  tag?: string;
+  message: string;
+}
+
+export interface PerformanceCheck {
+  baselines: PerformanceBaseline[];
+  violations: PerformanceViolation[];
+}
+
+export const DEFAULT_PERFORMANCE_BUDGETS: PerformanceBudgetOptions = {
+  mode: 'warn',
+  regressionPercent: 50,
+  regressionMs: 1000,
+  baselineRuns: 10,
+  minSamples: 3,
+  tagBudgets: {}
+};
+
+/**
+ * Baselines from passing results only, newest runs first, so failures and
+ * timeouts never raise a baseline
+ */
+export function computeBaselines(
+  history: HistoryRunRecord[],
+  options: Partial<PerformanceBudgetOptions> = {}
+): Map<string, PerformanceBaseline> {
+  const { baselineRuns, minSamples } = { ...DEFAULT_PERFORMANCE_BUDGETS, ...options };
+  const samples = new Map<string, { test: HistoryTestRecord; durations: number[] }>();
+
+  for (const run of [...history].reverse()) {
+    for (const test of run.tests) {
+      if (test.status !== 'passed') {
+        continue;
+      }
+      const entry = samples.get(test.id) || { test, durations: [] };
+      if (entry.durations.length < baselineRuns) {
+        entry.durations.push(test.duration);
+      }
+      samples.set(test.id, entry);
+    }
+  }
+
+  const baselines = new Map<string, PerformanceBaseline>();
+  for (const [id, { test, durations }] of samples) {
+    if (durations.length >= minSamples) {
+      baselines.set(id, {
+        id,
+        title: test.title,
+        project: test.project,
+        median: Math.round(median(durations)),
+        samples: durations.length
+      });
+    }
+  }
+  return baselines;
+}
+
+/**
+ * Checks the tests of the current run that passed, possibly after retries,
+ * against baselines from the previous runs and the tag budgets
+ */
+export function checkPerformanceBudgets(
+  history: HistoryRunRecord[],
+  current: HistoryRunRecord,
+  options: Partial<PerformanceBudgetOptions> = {}
+): PerformanceCheck {
+  const settings = { ...DEFAULT_PERFORMANCE_BUDGETS, ...options };
+  const baselines = computeBaselines(history, settings);
+  const tagBudgets = Object.entries(settings.tagBudgets)
+    .map(([tag, budget]) => [tag.startsWith('@') ? tag : `@${tag}`, budget] as const);
+  const violations: PerformanceViolation[] = [];
+
+  for (const test of current.tests) {
+    if (test.status !== 'passed' && test.status !== 'flaky') {
+      continue;
+    }
+    const base = { id: test.id, title: test.title, project: test.project, file: test.file, duration: test.duration };
+
+    const baseline = baselines.get(test.id);
+    if (baseline) {
+      const allowance = Math.max(baseline.median * settings.regressionPercent / 100, settings.regressionMs);
+      const limit = Math.round(baseline.median + allowance);
+      if (test.duration > limit) {
+        const change = Math.round(((test.duration - baseline.median) / baseline.median) * 100);
+        violations.push({
+          ...base,
+          kind: 'regression',
+          limit,
+          baseline: baseline.median,
+          message: `${test.duration}ms is ${change}% over its ${baseline.median}ms baseline (limit ${limit}ms)`
+        });
+      }
+    }
+
+    const budget = tagBudgets
+      .filter(([tag]) => test.tags?.includes(tag))
+      .sort(([, a], [, b]) => a - b)[0];
+    if (budget && test.duration > budget[1]) {
+      violations.push({
+        ...base,
+        kind: 'tag-budget',
+        limit: budget[1],
+        tag: budget[0],
+        message: `${test.duration}ms exceeds the ${budget[0]} budget of ${budget[1]}ms`
+      });
+    }
+  }
+
+  return {
+    baselines: Array.from(baselines.values()),
+    violations: violations.sort((a, b) => (b.duration - b.limit) - (a.duration - a.limit))
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Run History
+ *
+ * Append-only NDJSON store of past test runs, one line per run. Each record
+ * keeps the final outcome of every test so later runs can compute trends
+ * without re-reading old report files.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+export type HistoryTestStatus = 'passed' | 'failed' | 'flaky' | 'skipped';
+
+export interface HistoryTestRecord {
+  /** Playwright test id, stable across runs for the same file, title and project */
+  id: string;
+  title: string;
+  project: string;
+  file?: string;
+  tags?: string[];
+  status: HistoryTestStatus;
+  duration: number;
+  retries: number;
+  errorCategory?: string;
+  /** FailureFingerprint hash of the error */
+  fingerprint?: string;
+  error?: string;
+}
+
+export interface HistoryRunRecord {
+  runId: string;
+  startedAt: string;
+  duration: number;
+  status: string;
+  environment: string;
+  seed: number;
+  branch?: string;
+  commit?: string;
+  tests: HistoryTestRecord[];
+}
+
+const HISTORY_FILE = 'runs.ndjson';
+
+export class RunHistory {
+  private readonly file: string;
+
+  constructor(
+    historyDir = process.env.TEST_HISTORY_DIR || 'test-results/history',
+    private readonly maxRuns = parseInt(process.env.TEST_HISTORY_LIMIT || '100', 10)
+  ) {
+    this.file = path.join(historyDir, HISTORY_FILE);
+  }
+
+  getFilePath(): string {
+    return this.file;
+  }
+
+  /**
+   * Previous runs, oldest first; unreadable lines are skipped
+   */
+  async load(limit = this.maxRuns): Promise<HistoryRunRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.file, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const runs: HistoryRunRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        runs.push(JSON.parse(line));
+      } catch {
+        console.warn(`Skipping unreadable run history line in ${this.file}`);
+      }
+    }
+    return runs.slice(-limit);
+  }
+
+  /**
+   * Append a run, trimming the store to the newest maxRuns records
+   */
+  async append(run: HistoryRunRecord): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.appendFile(this.file, JSON.stringify(run) + '\n');
+
+    const runs = await this.load(Number.MAX_SAFE_INTEGER);
+    if (runs.length > this.maxRuns) {
+      const kept = runs.slice(-this.maxRuns).map(record => JSON.stringify(record)).join('\n');
+      await fs.writeFile(this.file, kept + '\n');
+    }
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Trend Analysis
+ *
+ * Compares the current run with the run history: pass rate over time,
+ * per-test duration drift against the historical median, and whether each
+ * failure is new in this run or has been failing for several runs.
+ */
+
+import { HistoryRunRecord, HistoryTestRecord } from './RunHistory';
+
+export interface PassRatePoint {
+  runId: string;
+  startedAt: string;
+  passRate: number;
+  total: number;
+  failed: number;
+}
+
+export interface DurationDrift {
+  id: string;
+  title: string;
+  project: string;
+  baseline: number;
+  current: number;
+  delta: number;
+  change: number;
+  samples: number;
+}
+
+export interface FailureTrend {
+  id: string;
+  title: string;
+  project: string;
+  errorCategory?: string;
+  /** Consecutive failing runs including this one */
+  consecutiveRuns: number;
+  failingSince: string;
+  lastPassed?: string;
+}
+
+export interface TrendReport {
+  runs: number;
+  passRate: PassRatePoint[];
+  durationDrift: DurationDrift[];
+  newFailures: FailureTrend[];
+  recurringFailures: FailureTrend[];
+  /** Failed in the previous run, passing now */
+  fixed: Array<Pick<HistoryTestRecord, 'id' | 'title' | 'project'>>;
+}
+
+export interface TrendOptions {
+  /** Runs considered, including the current one */
+  window: number;
+  /** Relative change that counts as drift, 0.5 = 50% */
+  driftThreshold: number;
+  /** Ignore drift smaller than this many milliseconds */
+  minDriftMs: number;
+  /** Previous passing samples needed before drift is reported */
+  minSamples: number;
+}
+
+const DEFAULT_OPTIONS: TrendOptions = {
+  window: 20,
+  driftThreshold: 0.5,
+  minDriftMs: 1000,
+  minSamples: 3
+};
+
+const isPassing = (test: HistoryTestRecord) => test.status === 'passed' || test.status === 'flaky';
+
+export function analyzeTrends(
+  history: HistoryRunRecord[],
+  current: HistoryRunRecord,
+  options: Partial<TrendOptions> = {}
+): TrendReport {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const previous = history.slice(-(settings.window - 1));
+  const runs = [...previous, current];
+
+  const byTest = new Map<string, Array<{ run: HistoryRunRecord; test: HistoryTestRecord }>>();
+  for (const run of previous) {
+    for (const test of run.tests) {
+      byTest.set(test.id, [...(byTest.get(test.id) || []), { run, test }]);
+    }
+  }
+
+  const failures = current.tests
+    .filter(test => test.status === 'failed')
+    .map(test => failureTrend(test, current, byTest.get(test.id) || []));
+
+  const lastRun = previous[previous.length - 1];
+  const fixed = lastRun
+    ? current.tests
+      .filter(test => isPassing(test) && lastRun.tests.some(past => past.id === test.id && past.status === 'failed'))
+      .map(({ id, title, project }) => ({ id, title, project }))
+    : [];
+
+  return {
+    runs: runs.length,
+    passRate: runs.map(passRatePoint),
+    durationDrift: current.tests
+      .filter(isPassing)
+      .map(test => durationDrift(test, byTest.get(test.id) || [], settings))
+      .filter((drift): drift is DurationDrift => drift !== undefined)
+      .sort((a, b) => b.delta - a.delta),
+    newFailures: failures.filter(failure => failure.consecutiveRuns === 1),
+    recurringFailures: failures.filter(failure => failure.consecutiveRuns > 1),
+    fixed
+  };
+}
+
+function passRatePoint(run: HistoryRunRecord): PassRatePoint {
+  const executed = run.tests.filter(test => test.status !== 'skipped');
+  const passed = executed.filter(isPassing).length;
+  return {
+    runId: run.runId,
+    startedAt: run.startedAt,
+    passRate: executed.length > 0 ? Math.round((passed / executed.length) * 1000) / 10 : 0,
+    total: executed.length,
+    failed: executed.length - passed
+  };
+}
+
+function durationDrift(
+  test: HistoryTestRecord,
+  past: Array<{ run: HistoryRunRecord; test: HistoryTestRecord }>,
+  options: TrendOptions
+): DurationDrift | undefined {
+  const samples = past.filter(entry => isPassing(entry.test)).map(entry => entry.test.duration);
+  if (samples.length < options.minSamples) {
+    return undefined;
+  }
+
+  const baseline = median(samples);
+  const delta = test.duration - baseline;
+  const change = baseline > 0 ? delta / baseline : 0;
+  if (Math.abs(delta) < options.minDriftMs || Math.abs(change) < options.driftThreshold) {
+    return undefined;
+  }
+
+  return {
+    id: test.id,
+    title: test.title,
+    project: test.project,
+    baseline: Math.round(baseline),
+    current: test.duration,
+    delta: Math.round(delta),
+    change: Math.round(change * 1000) / 10,
+    samples: samples.length
+  };
+}
+
+/**
+ * Walk back from the newest run until the test last passed
+ */
+function failureTrend(
+  test: HistoryTestRecord,
+  current: HistoryRunRecord,
+  past: Array<{ run: HistoryRunRecord; test: HistoryTestRecord }>
+): FailureTrend {
+  let consecutiveRuns = 1;
+  let failingSince = current.startedAt;
+  let lastPassed: string | undefined;
+
+  for (const entry of [...past].reverse()) {
+    if (entry.test.status === 'skipped') {
+      continue;
+    }
+    if (entry.test.status !== 'failed') {
+      lastPassed = entry.run.startedAt;
+      break;
+    }
+    consecutiveRuns++;
+    failingSince = entry.run.startedAt;
+  }
+
+  return {
+    id: test.id,
+    title: test.title,
+    project: test.project,
+    errorCategory: test.errorCategory,
+    consecutiveRuns,
+    failingSince,
+    lastPassed
+  };
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,94 @@
+/**
+ * Retry Policy
+ *
+ * Decides after a failed attempt whether the next retry is worth running.
+ * Only infrastructure failures are retried: network errors, timeouts and
+ * server errors, each up to its own limit and with exponential backoff.
+ * Assertion failures and other genuine test failures are not retried.
+ *
+ * Playwright's `retries` stays the ceiling for every category; the policy
+ * chooses which of those retries to use.
+ */
+
+import { FailureCategory, fingerprintFailure } from '../reporters/FailureFingerprint';
+
+export type RetryCategory = FailureCategory | 'Server Error';
+
+export interface RetryRule {
+  retries: number;
+  /** Wait before the first retry, in milliseconds */
+  backoffMs: number;
+  /** Multiplier of the wait for each further retry */
+  backoffFactor: number;
+}
+
+export interface RetryPolicy {
+  enabled: boolean;
+  /** Categories without a rule are not retried */
+  rules: Partial<Record<RetryCategory, RetryRule>>;
+}
+
+export interface RetryDecision {
+  /** Attempt that failed, 0 for the first run */
+  attempt: number;
+  category: RetryCategory;
+  retry: boolean;
+  reason: string;
+  backoffMs: number;
+  fingerprint: string;
+  message: string;
+}
+
+const SERVER_ERROR = /\b(?:status(?: code)?|Received:?)\s*5\d\d\b|\b5\d\d\s+(?:Internal Server Error|Bad Gateway|Service Unavailable|Gateway Timeout)\b/i;
+
+/**
+ * Failure category of FailureFingerprint, with API and assertion failures on
+ * a 5xx response split out as server errors
+ */
+export function classifyRetry(error: { message?: string; stack?: string }): { category: RetryCategory; fingerprint: string; message: string } {
+  const fingerprint = fingerprintFailure(error);
+  const message = error.message || '';
+  const serverError = (fingerprint.category === 'API' && /\b5\d\d\b/.test(message)) || SERVER_ERROR.test(message);
+
+  return {
+    category: serverError ? 'Server Error' : fingerprint.category,
+    fingerprint: fingerprint.hash,
+    message: fingerprint.message
+  };
+}
+
+/**
+ * @param previous decisions of the earlier attempts of the same test
+ * @param maxRetries Playwright's retries for the project
+ */
+export function decideRetry(
+  policy: RetryPolicy,
+  error: { message?: string; stack?: string },
+  previous: RetryDecision[],
+  attempt: number,
+  maxRetries: number
+): RetryDecision {
+  const { category, fingerprint, message } = classifyRetry(error);
+  const base = { attempt, category, fingerprint, message, backoffMs: 0 };
+  const rule = policy.rules[category];
+
+  if (attempt >= maxRetries) {
+    return { ...base, retry: false, reason: `no retries left (${maxRetries} configured)` };
+  }
+  if (!rule || rule.retries <= 0) {
+    return { ...base, retry: false, reason: `${category} failures are not retried` };
+  }
+
+  const used = previous.filter(decision => decision.retry && decision.category === category).length;
+  if (used >= rule.retries) {
+    return { ...base, retry: false, reason: `${category} retry limit of ${rule.retries} reached` };
+  }
+
+  const backoffMs = Math.round(rule.backoffMs * Math.pow(rule.backoffFactor, used));
+  return {
+    ...base,
+    retry: true,
+    backoffMs,
+    reason: `${category} failure, retry ${used + 1}/${rule.retries} after ${backoffMs}ms`
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Retry Policy Fixtures
+ *
+ * Applies the retry policy the Playwright config put into its metadata. After
+ * a failed attempt the decision for the next one is stored in the project's
+ * output directory, since retries run in a new worker, and attached to the
+ * result for the custom reporter. A retry the policy declined is skipped with
+ * the reason before any other fixture starts a browser, so the failure before
+ * it stays the reported one; a retry it allowed waits for its backoff first.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Fixtures, PlaywrightTestArgs, PlaywrightTestOptions, TestInfo } from '@playwright/test';
+import { RetryDecision, RetryPolicy, decideRetry } from './RetryPolicy';
+
+export const RETRY_POLICY_ANNOTATION = 'retry-policy';
+export const RETRY_SKIPPED_ANNOTATION = 'retry-skipped';
+/** JSON RetryDecision attached to each failed attempt */
+export const RETRY_DECISION_ATTACHMENT = 'retry-decision';
+
+export interface RetryPolicyFixtures {
+  retryPolicy: RetryPolicy | undefined;
+}
+
+export const retryPolicyFixtures: Fixtures<
+  RetryPolicyFixtures,
+  {},
+  PlaywrightTestArgs & PlaywrightTestOptions
+> = {
+  retryPolicy: [async ({}, use, testInfo) => {
+    const policy: RetryPolicy | undefined = testInfo.config.metadata?.retryPolicy;
+    if (!policy?.enabled) {
+      await use(undefined);
+      return;
+    }
+
+    const file = decisionsFile(testInfo);
+    const decisions = readDecisions(file);
+    const previous = decisions[decisions.length - 1];
+
+    if (testInfo.retry > 0 && previous) {
+      if (!previous.retry) {
+        testInfo.annotations.push({ type: RETRY_SKIPPED_ANNOTATION, description: previous.reason });
+        const expectedStatus = testInfo.expectedStatus;
+        try {
+          testInfo.skip(true, `Retry skipped by the retry policy: ${previous.reason}`);
+        } finally {
+          // Counted as not run, so the failed attempt before it stays the outcome
+          testInfo.expectedStatus = expectedStatus;
+        }
+      }
+
+      testInfo.annotations.push({ type: RETRY_POLICY_ANNOTATION, description: `Retried: ${previous.reason}` });
+      if (previous.backoffMs > 0) {
+        testInfo.setTimeout(testInfo.timeout + previous.backoffMs);
+        await new Promise(resolve => setTimeout(resolve, previous.backoffMs));
+      }
+    }
+
+    await use(policy);
+
+    if (testInfo.status === testInfo.expectedStatus || !testInfo.error) {
+      return;
+    }
+
+    const decision = decideRetry(policy, testInfo.error, decisions, testInfo.retry, testInfo.project.retries);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify([...decisions, decision]));
+
+    testInfo.annotations.push({
+      type: RETRY_POLICY_ANNOTATION,
+      description: decision.retry ? `Will retry: ${decision.reason}` : `Not retried: ${decision.reason}`
+    });
+    await testInfo.attach(RETRY_DECISION_ATTACHMENT, {
+      body: JSON.stringify(decision),
+      contentType: 'application/json'
+    });
+  }, { auto: true }]
+};
+
+/**
+ * Under the project output directory, which Playwright empties at the start
+ * of every run
+ */
+function decisionsFile(testInfo: TestInfo): string {
+  return path.join(testInfo.project.outputDir, '.retry-policy', `${testInfo.testId}.json`);
+}
+
+function readDecisions(file: string): RetryDecision[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
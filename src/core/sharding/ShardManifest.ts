@@ -0,0 +1,108 @@
+/**
+ * Shard Manifest
+ *
+ * Test files per shard, balanced on historical durations by the shard
+ * planner. When a shard is selected, the Playwright config narrows every
+ * project to the files the manifest assigns it, so each CI job runs a
+ * precomputed list instead of Playwright's count-based split.
+ *
+ * SHARD_INDEX     1-based shard to run; unset runs everything
+ * SHARD_MANIFEST  manifest location (default test-results/shards/manifest.json)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ShardUnit {
+  project: string;
+  /** Relative to the working directory */
+  file: string;
+  tests: string[];
+  /** Sum of the test durations, in milliseconds */
+  duration: number;
+  /** Tests without history that were given the default duration */
+  estimated: number;
+}
+
+export interface ShardPlanEntry {
+  index: number;
+  /** Predicted wall time with the manifest's workers, in milliseconds */
+  predicted: number;
+  units: ShardUnit[];
+}
+
+export interface ShardManifest {
+  createdAt: string;
+  total: number;
+  workers: number;
+  shards: ShardPlanEntry[];
+}
+
+/**
+ * Selected shard as recorded in the config metadata for the custom reporter
+ */
+export interface ShardSelection {
+  index: number;
+  total: number;
+  predicted: number;
+  manifest: string;
+}
+
+export const DEFAULT_SHARD_MANIFEST = path.join('test-results', 'shards', 'manifest.json');
+
+export function loadShardManifest(file = DEFAULT_SHARD_MANIFEST): ShardManifest {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Shard manifest not found: ${file}. Run npm run shards:plan first`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+export async function writeShardManifest(manifest: ShardManifest, file = DEFAULT_SHARD_MANIFEST): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/**
+ * Undefined when SHARD_INDEX is not set
+ */
+export function shardFromEnv(): { manifest: ShardManifest; entry: ShardPlanEntry; selection: ShardSelection } | undefined {
+  if (!process.env.SHARD_INDEX) {
+    return undefined;
+  }
+
+  const file = process.env.SHARD_MANIFEST || DEFAULT_SHARD_MANIFEST;
+  const manifest = loadShardManifest(file);
+  const index = parseInt(process.env.SHARD_INDEX, 10);
+  const entry = manifest.shards.find(shard => shard.index === index);
+  if (!entry) {
+    throw new Error(`SHARD_INDEX ${process.env.SHARD_INDEX} is not in ${file} (1-${manifest.total})`);
+  }
+
+  return {
+    manifest,
+    entry,
+    selection: { index, total: manifest.total, predicted: entry.predicted, manifest: file }
+  };
+}
+
+/**
+ * Replaces each project's testMatch with the files the shard assigns it.
+ * Projects without files keep their name but match nothing, so --project
+ * filters keep working on every shard.
+ */
+export function applyShard<T extends { name?: string; testMatch?: unknown }>(projects: T[], entry?: ShardPlanEntry): T[] {
+  if (!entry) {
+    return projects;
+  }
+
+  return projects.map(project => {
+    const files = entry.units
+      .filter(unit => unit.project === project.name)
+      .map(unit => new RegExp(`^${escapeRegExp(path.resolve(unit.file))}$`));
+    return { ...project, testMatch: files };
+  });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,156 @@
+/**
+ * Shard Planner
+ *
+ * Splits the listed tests into shards of similar wall time. Each test gets
+ * the median duration of its recent runs in the run history; tests without
+ * history get the median of all known tests. Tests of one project and file
+ * stay together, since the config selects a shard's tests by file, and the
+ * largest files are placed first on the least loaded shard.
+ */
+
+import { HistoryRunRecord } from '../reporters/RunHistory';
+import { median } from '../reporters/TrendAnalysis';
+import { ShardManifest, ShardUnit } from './ShardManifest';
+
+export interface ListedTest {
+  project: string;
+  /** Relative to the working directory */
+  file: string;
+  /** Describe blocks and test title joined with ' › ', as in the run history */
+  title: string;
+}
+
+export interface ShardPlanOptions {
+  shards: number;
+  workers: number;
+  /** Recent runs a test's median duration is taken from */
+  window?: number;
+  /** Duration for tests without history when nothing is known */
+  defaultDuration?: number;
+}
+
+/**
+ * Written by the custom reporter at the end of a sharded run
+ */
+export interface ShardRunReport {
+  index: number;
+  total: number;
+  predicted: number;
+  actual: number;
+  tests: number;
+  startedAt: string;
+}
+
+export interface ShardComparison {
+  index: number;
+  predicted: number;
+  actual?: number;
+  /** Actual minus predicted, in percent of predicted */
+  deviation?: number;
+}
+
+export const SHARD_REPORT_FILE = 'shard-report.json';
+
+const testKey = (test: { project: string; file?: string; title: string }) => `${test.project}|${test.file}|${test.title}`;
+
+/**
+ * Median duration per test over its last runs that were not skipped. Failed
+ * runs only count for tests that never passed, so timeouts do not inflate
+ * the estimate of tests that usually pass.
+ */
+export function historicalDurations(history: HistoryRunRecord[], window = 10): Map<string, number> {
+  const passing = new Map<string, number[]>();
+  const failing = new Map<string, number[]>();
+
+  for (const run of [...history].reverse()) {
+    for (const test of run.tests) {
+      if (test.status === 'skipped') {
+        continue;
+      }
+      const target = test.status === 'failed' ? failing : passing;
+      const durations = target.get(testKey(test)) || [];
+      if (durations.length < window) {
+        durations.push(test.duration);
+      }
+      target.set(testKey(test), durations);
+    }
+  }
+
+  const durations = new Map<string, number>();
+  for (const [key, values] of failing) {
+    durations.set(key, median(values));
+  }
+  for (const [key, values] of passing) {
+    durations.set(key, median(values));
+  }
+  return durations;
+}
+
+export function planShards(
+  tests: ListedTest[],
+  history: HistoryRunRecord[],
+  options: ShardPlanOptions
+): ShardManifest {
+  if (options.shards < 1 || options.workers < 1) {
+    throw new Error('shards and workers must be at least 1');
+  }
+
+  const known = historicalDurations(history, options.window);
+  const fallback = known.size > 0 ? median([...known.values()]) : options.defaultDuration ?? 5000;
+
+  const units = new Map<string, ShardUnit & { longest: number }>();
+  for (const test of tests) {
+    const key = `${test.project}|${test.file}`;
+    const unit = units.get(key) || { project: test.project, file: test.file, tests: [], duration: 0, estimated: 0, longest: 0 };
+    const duration = known.get(testKey(test));
+    unit.tests.push(test.title);
+    unit.duration += Math.round(duration ?? fallback);
+    unit.estimated += duration === undefined ? 1 : 0;
+    unit.longest = Math.max(unit.longest, duration ?? fallback);
+    units.set(key, unit);
+  }
+
+  const shards = Array.from({ length: options.shards }, (_, position) => ({
+    index: position + 1,
+    load: 0,
+    longest: 0,
+    units: [] as ShardUnit[]
+  }));
+
+  const ordered = Array.from(units.values()).sort((a, b) => b.duration - a.duration || a.file.localeCompare(b.file));
+  for (const { longest, ...unit } of ordered) {
+    const target = shards.reduce((least, shard) => shard.load < least.load ? shard : least);
+    target.units.push(unit);
+    target.load += unit.duration;
+    target.longest = Math.max(target.longest, longest);
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    total: options.shards,
+    workers: options.workers,
+    shards: shards.map(shard => ({
+      index: shard.index,
+      // Tests spread over the workers, but no shard finishes before its longest test
+      predicted: Math.round(Math.max(shard.load / options.workers, shard.longest)),
+      units: shard.units
+    }))
+  };
+}
+
+/**
+ * One row per planned shard; shards without a report have no actual time
+ */
+export function compareShards(manifest: ShardManifest, reports: ShardRunReport[]): ShardComparison[] {
+  return manifest.shards.map(shard => {
+    const report = reports.find(candidate => candidate.index === shard.index && candidate.total === manifest.total);
+    return {
+      index: shard.index,
+      predicted: shard.predicted,
+      actual: report?.actual,
+      deviation: report && shard.predicted > 0
+        ? Math.round(((report.actual - shard.predicted) / shard.predicted) * 100)
+        : undefined
+    };
+  });
+}
@@ -0,0 +1,158 @@
+/**
+ * Shard Planner CLI
+ *
+ * Usage:
+ *   npm run shards:plan -- --shards 4 [options]
+ *   npm run shards:report -- [--dir test-results] [--manifest file]
+ *
+ * plan options:
+ *   --shards <n>          Number of shards (required)
+ *   --workers <n>         Workers per shard the prediction assumes and the config uses
+ *                         (default: the shared config's worker count)
+ *   --project <a,b>       Only plan these projects (default: every project)
+ *   --config <file>       Playwright config (default: config/playwright.config.ts)
+ *   --manifest <file>     Output (default: test-results/shards/manifest.json)
+ *
+ * report options:
+ *   --dir <dir>           Directory searched for shard-report.json files of the
+ *                         shard jobs, e.g. their downloaded artifacts (default: test-results)
+ *   --manifest <file>     Manifest the shards ran from
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { sharedConfig } from '../../../config/applications/shared.config';
+import { RunHistory } from '../reporters/RunHistory';
+import { parseArgs } from '../utils/cli';
+import { DEFAULT_SHARD_MANIFEST, loadShardManifest, writeShardManifest } from './ShardManifest';
+import { ListedTest, SHARD_REPORT_FILE, ShardRunReport, compareShards, planShards } from './ShardPlanner';
+
+interface JsonSuite {
+  title: string;
+  file: string;
+  specs?: Array<{ title: string; file: string; tests: Array<{ projectName: string }> }>;
+  suites?: JsonSuite[];
+}
+
+/**
+ * Every test Playwright would run, from `playwright test --list` with the
+ * JSON reporter. SHARD_INDEX is cleared so the listing is not itself sharded.
+ */
+function listTests(configFile: string, projects: string[]): ListedTest[] {
+  const args = ['playwright', 'test', `--config=${configFile}`, '--list', '--reporter=json', ...projects.map(project => `--project=${project}`)];
+  const env = { ...process.env, SHARD_INDEX: '' };
+
+  let output: string;
+  try {
+    output = execFileSync('npx', args, { encoding: 'utf-8', env, maxBuffer: 256 * 1024 * 1024, stdio: ['ignore', 'pipe', 'inherit'] });
+  } catch (error: any) {
+    // Exits non-zero when no tests are found; the report still lists the errors
+    output = error.stdout || '';
+  }
+
+  // Anything printed while loading the config comes before the report
+  const start = output.startsWith('{') ? 0 : output.indexOf('\n{') + 1;
+  if (start === 0 && !output.startsWith('{')) {
+    throw new Error('playwright test --list did not produce a JSON report');
+  }
+  const report = JSON.parse(output.slice(start));
+  const rootDir: string = report.config.rootDir;
+
+  const tests: ListedTest[] = [];
+  const visit = (suite: JsonSuite, titles: string[]) => {
+    for (const spec of suite.specs || []) {
+      const file = path.relative(process.cwd(), path.resolve(rootDir, spec.file));
+      for (const test of spec.tests) {
+        tests.push({ project: test.projectName, file, title: [...titles, spec.title].join(' › ') });
+      }
+    }
+    for (const child of suite.suites || []) {
+      visit(child, [...titles, child.title]);
+    }
+  };
+  // Top-level suites are files, whose title is not part of the history title
+  for (const fileSuite of report.suites as JsonSuite[]) {
+    visit(fileSuite, []);
+  }
+  return tests;
+}
+
+async function plan(args: Record<string, string | boolean>): Promise<void> {
+  const shards = parseInt(String(args.shards), 10);
+  if (!shards) {
+    throw new Error('--shards <n> is required');
+  }
+  const workers = typeof args.workers === 'string' ? parseInt(args.workers, 10) : sharedConfig.parallel.workers;
+  const projects = typeof args.project === 'string' ? args.project.split(',') : [];
+  const configFile = typeof args.config === 'string' ? args.config : path.join('config', 'playwright.config.ts');
+  const manifestFile = typeof args.manifest === 'string' ? args.manifest : DEFAULT_SHARD_MANIFEST;
+
+  const tests = listTests(configFile, projects);
+  if (tests.length === 0) {
+    throw new Error('No tests found to plan');
+  }
+  const history = await new RunHistory().load();
+  const manifest = planShards(tests, history, { shards, workers });
+  await writeShardManifest(manifest, manifestFile);
+
+  console.log(`🧩 Planned ${tests.length} tests into ${shards} shards (${workers} workers each, ${history.length} runs of history)`);
+  for (const shard of manifest.shards) {
+    const count = shard.units.reduce((sum, unit) => sum + unit.tests.length, 0);
+    const estimated = shard.units.reduce((sum, unit) => sum + unit.estimated, 0);
+    console.log(`   Shard ${shard.index}: ${count} tests in ${shard.units.length} files, predicted ${(shard.predicted / 1000).toFixed(1)}s${estimated ? ` (${estimated} without history)` : ''}`);
+  }
+  console.log(`\n📁 Manifest saved to: ${manifestFile}`);
+  console.log(`   Run a shard with: SHARD_INDEX=<n> SHARD_MANIFEST=${manifestFile} npm run test:all`);
+}
+
+async function findReports(dir: string): Promise<ShardRunReport[]> {
+  const entries = await fs.readdir(dir, { recursive: true });
+  const files = entries.filter(entry => path.basename(entry) === SHARD_REPORT_FILE);
+  return Promise.all(files.map(async file => JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'))));
+}
+
+async function report(args: Record<string, string | boolean>): Promise<void> {
+  const manifestFile = typeof args.manifest === 'string' ? args.manifest : DEFAULT_SHARD_MANIFEST;
+  const dir = typeof args.dir === 'string' ? args.dir : 'test-results';
+  const manifest = loadShardManifest(manifestFile);
+  const rows = compareShards(manifest, await findReports(dir));
+
+  console.log(`⏱️  Shard wall time, predicted vs actual (${manifest.total} shards, planned ${manifest.createdAt}):`);
+  for (const row of rows) {
+    const actual = row.actual === undefined ? 'no report' : `${(row.actual / 1000).toFixed(1)}s`;
+    const deviation = row.deviation === undefined ? '' : ` (${row.deviation > 0 ? '+' : ''}${row.deviation}%)`;
+    console.log(`   Shard ${row.index}: predicted ${(row.predicted / 1000).toFixed(1)}s, actual ${actual}${deviation}`);
+  }
+
+  const reported = rows.filter(row => row.actual !== undefined);
+  if (reported.length > 1) {
+    const actuals = reported.map(row => row.actual!);
+    console.log(`   Slowest/fastest shard: ${(Math.max(...actuals) / 1000).toFixed(1)}s / ${(Math.min(...actuals) / 1000).toFixed(1)}s`);
+  }
+
+  const reportFile = path.join(path.dirname(manifestFile), 'report.json');
+  await fs.writeFile(reportFile, JSON.stringify({ manifest: manifestFile, total: manifest.total, shards: rows }, null, 2));
+  console.log(`\n📁 Shard report saved to: ${reportFile}`);
+}
+
+export async function main(argv = process.argv.slice(2)): Promise<void> {
+  const [command] = argv;
+  const args = parseArgs(argv.slice(1));
+
+  switch (command) {
+    case 'plan':
+      return plan(args);
+    case 'report':
+      return report(args);
+    default:
+      throw new Error(`Unknown command "${command ?? ''}"; use plan or report`);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
+}
@@ -4,87 +4,367 @@
  * Utility class for database operations and test data seeding
  */
 
-import { DatabaseConfig } from '../config/EnvironmentConfig';
+import { Pool, PoolClient, QueryResult } from 'pg';
+import { newDb, DataType, IBackup, IMemoryDb } from 'pg-mem';
+import { randomBytes } from 'crypto';
+import { DatabaseConfig } from '../base/config/EnvironmentConfig';
+import { databaseSnapshotRegistry, DatabaseSnapshotRegistry, SnapshotRecord } from './DatabaseSnapshotRegistry';
 
-// Simple database interface (would typically use a proper database client)
 export interface DatabaseConnection {
+  connect(): Promise<void>;
   query(sql: string, params?: any[]): Promise<any[]>;
   execute(sql: string, params?: any[]): Promise<{ affectedRows: number; insertId?: number }>;
   beginTransaction(): Promise<void>;
   commitTransaction(): Promise<void>;
   rollbackTransaction(): Promise<void>;
+  createSnapshot(snapshotId: string, tables: string[]): Promise<void>;
+  restoreSnapshot(snapshotId: string, tables: string[]): Promise<void>;
+  dropSnapshot(snapshotId: string, tables: string[]): Promise<void>;
   close(): Promise<void>;
 }
 
-// Mock implementation for demonstration (replace with actual database client)
-class MockDatabaseConnection implements DatabaseConnection {
-  private connected = false;
-  private inTransaction = false;
+/**
+ * Converts `?` placeholders into Postgres positional parameters ($1, $2, ...),
+ * leaving question marks inside quoted literals untouched
+ */
+export function toPositionalParams(sql: string): string {
+  let index = 0;
+  let quote: string | null = null;
+  let result = '';
+
+  for (const char of sql) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '?') {
+      result += `$${++index}`;
+      continue;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function snapshotTableName(snapshotId: string, table: string): string {
+  return quoteIdentifier(`${snapshotId}__${table}`);
+}
+
+// Pooled Postgres connection; transactions pin a dedicated client until commit/rollback
+class PostgresConnection implements DatabaseConnection {
+  protected pool: Pool | null = null;
+  private transactionClient: PoolClient | null = null;
+
+  constructor(protected config: DatabaseConfig) {}
+
+  protected createPool(): Pool {
+    return new Pool({
+      host: this.config.host,
+      port: this.config.port,
+      database: this.config.database,
+      user: this.config.username,
+      password: this.config.password,
+      max: this.config.pool.max,
+      idleTimeoutMillis: this.config.pool.idleTimeoutMillis,
+      connectionTimeoutMillis: this.config.pool.connectionTimeoutMillis
+    });
+  }
 
   async connect(): Promise<void> {
-    this.connected = true;
+    if (this.pool) return;
+
+    const pool = this.createPool();
+    
+    // Fail fast on bad credentials or an unreachable host
+    const client = await pool.connect();
+    client.release();
+    
+    this.pool = pool;
+  }
+
+  async query(sql: string, params: any[] = []): Promise<any[]> {
+    const result = await this.run(sql, params);
+    return result.rows;
   }
 
-  async query(sql: string, params?: any[]): Promise<any[]> {
-    if (!this.connected) throw new Error('Not connected to database');
+  async execute(sql: string, params: any[] = []): Promise<{ affectedRows: number; insertId?: number }> {
+    const result = await this.run(sql, params);
+    const insertId = result.rows?.[0]?.id;
     
-    console.log(`[DB] Query: ${sql}`, params);
+    return {
+      affectedRows: result.rowCount ?? 0,
+      insertId: insertId !== undefined ? Number(insertId) : undefined
+    };
+  }
+
+  async beginTransaction(): Promise<void> {
+    if (this.transactionClient) throw new Error('Transaction already in progress');
     
-    // Mock data based on query type
-    if (sql.includes('SELECT') && sql.includes('documents')) {
-      return [
-        { id: 1, name: 'test-doc.pdf', type: 'pdf', status: 'ready', created_at: new Date() },
-        { id: 2, name: 'test-doc2.txt', type: 'txt', status: 'ready', created_at: new Date() }
-      ];
-    } else if (sql.includes('SELECT') && sql.includes('feature_files')) {
-      return [
-        { id: 1, title: 'Login Feature', content: 'Feature: Login...', category: 'generated', created_at: new Date() }
-      ];
+    const client = await this.getPool().connect();
+    try {
+      await client.query('BEGIN');
+    } catch (error) {
+      client.release();
+      throw error;
+    }
+    this.transactionClient = client;
+  }
+
+  async commitTransaction(): Promise<void> {
+    await this.endTransaction('COMMIT');
+  }
+
+  async rollbackTransaction(): Promise<void> {
+    await this.endTransaction('ROLLBACK');
+  }
+
+  /**
+   * Snapshots are per-table copies living in the same database, so any worker can restore them
+   */
+  async createSnapshot(snapshotId: string, tables: string[]): Promise<void> {
+    for (const table of tables) {
+      await this.run(`CREATE TABLE ${snapshotTableName(snapshotId, table)} AS TABLE ${quoteIdentifier(table)}`, []);
     }
-    
-    return [];
   }
 
-  async execute(sql: string, params?: any[]): Promise<{ affectedRows: number; insertId?: number }> {
-    if (!this.connected) throw new Error('Not connected to database');
+  async restoreSnapshot(snapshotId: string, tables: string[]): Promise<void> {
+    const restore = async (executor: Pool | PoolClient) => {
+      // CASCADE also empties tables outside the snapshot that reference these
+      await executor.query(`TRUNCATE ${tables.map(quoteIdentifier).join(', ')} CASCADE`);
+      
+      for (const table of tables) {
+        await executor.query(`INSERT INTO ${quoteIdentifier(table)} SELECT * FROM ${snapshotTableName(snapshotId, table)}`);
+        
+        // Keep serial and identity columns in step with the restored rows
+        const { rows: serialColumns } = await executor.query(
+          `SELECT column_name FROM information_schema.columns
+           WHERE table_schema = current_schema() AND table_name = $1
+             AND (column_default LIKE 'nextval(%' OR is_identity = 'YES')`,
+          [table]
+        );
+        for (const { column_name: column } of serialColumns) {
+          await executor.query(
+            `SELECT setval(pg_get_serial_sequence($1, $2), COALESCE(MAX(${quoteIdentifier(column)}), 0) + 1, false) FROM ${quoteIdentifier(table)}`,
+            [table, column]
+          );
+        }
+      }
+    };
+
+    if (this.transactionClient) {
+      await restore(this.transactionClient);
+      return;
+    }
+
+    const client = await this.getPool().connect();
+    try {
+      await client.query('BEGIN');
+      await restore(client);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async dropSnapshot(snapshotId: string, tables: string[]): Promise<void> {
+    for (const table of tables) {
+      await this.run(`DROP TABLE IF EXISTS ${snapshotTableName(snapshotId, table)}`, []);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.pool) return;
     
-    console.log(`[DB] Execute: ${sql}`, params);
+    if (this.transactionClient) {
+      await this.rollbackTransaction();
+    }
     
-    return { affectedRows: 1, insertId: Math.floor(Math.random() * 1000) };
+    await this.pool.end();
+    this.pool = null;
+  }
+
+  protected getPool(): Pool {
+    if (!this.pool) throw new Error('Not connected to database');
+    return this.pool;
+  }
+
+  private async run(sql: string, params: any[]): Promise<QueryResult> {
+    const executor = this.transactionClient ?? this.getPool();
+    return executor.query(toPositionalParams(sql), params);
+  }
+
+  private async endTransaction(command: 'COMMIT' | 'ROLLBACK'): Promise<void> {
+    const client = this.transactionClient;
+    if (!client) throw new Error('No transaction in progress');
+    
+    this.transactionClient = null;
+    try {
+      await client.query(command);
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Schema used by the embedded driver, mirroring the tables DatabaseHelper works with
+const EMBEDDED_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id SERIAL PRIMARY KEY,
+    username TEXT NOT NULL,
+    email TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'user',
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  );
+  CREATE TABLE IF NOT EXISTS documents (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    content TEXT,
+    size INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'uploaded',
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  );
+  CREATE TABLE IF NOT EXISTS feature_files (
+    id SERIAL PRIMARY KEY,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    category TEXT NOT NULL DEFAULT 'generated',
+    author TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  );
+  CREATE TABLE IF NOT EXISTS ingestions (
+    id SERIAL PRIMARY KEY,
+    document_id INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    metadata JSONB,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  );
+`;
+
+// One in-memory database per database name, shared by every connection in the worker
+const embeddedDatabases = new Map<string, IMemoryDb>();
+const embeddedSnapshots = new Map<string, IBackup>();
+
+function getEmbeddedDatabase(name: string): IMemoryDb {
+  let db = embeddedDatabases.get(name);
+  
+  if (!db) {
+    db = newDb();
+    db.public.registerFunction({
+      name: 'version',
+      returns: DataType.text,
+      implementation: () => 'PostgreSQL (embedded pg-mem)'
+    });
+    db.public.none(EMBEDDED_SCHEMA);
+    embeddedDatabases.set(name, db);
+  }
+  
+  return db;
+}
+
+/**
+ * In-memory Postgres for CI runs without an external database.
+ * pg-mem does not roll back on ROLLBACK, so transactions are backed by
+ * a backup taken at BEGIN and restored on rollback.
+ */
+class EmbeddedPostgresConnection extends PostgresConnection {
+  private transactionBackup: IBackup | null = null;
+
+  protected get db(): IMemoryDb {
+    return getEmbeddedDatabase(this.config.database);
+  }
+
+  protected createPool(): Pool {
+    const { Pool: MemoryPool } = this.db.adapters.createPg();
+    return new MemoryPool();
   }
 
   async beginTransaction(): Promise<void> {
-    if (!this.connected) throw new Error('Not connected to database');
-    this.inTransaction = true;
-    console.log('[DB] Transaction started');
+    if (this.transactionBackup) throw new Error('Transaction already in progress');
+    this.getPool();
+    this.transactionBackup = this.db.backup();
   }
 
   async commitTransaction(): Promise<void> {
-    if (!this.connected) throw new Error('Not connected to database');
-    this.inTransaction = false;
-    console.log('[DB] Transaction committed');
+    if (!this.transactionBackup) throw new Error('No transaction in progress');
+    this.transactionBackup = null;
   }
 
   async rollbackTransaction(): Promise<void> {
-    if (!this.connected) throw new Error('Not connected to database');
-    this.inTransaction = false;
-    console.log('[DB] Transaction rolled back');
+    if (!this.transactionBackup) throw new Error('No transaction in progress');
+    this.transactionBackup.restore();
+    this.transactionBackup = null;
+  }
+
+  /**
+   * Embedded databases live in the worker process, so their snapshots do too
+   */
+  async createSnapshot(snapshotId: string): Promise<void> {
+    embeddedSnapshots.set(this.snapshotKey(snapshotId), this.db.backup());
+  }
+
+  async restoreSnapshot(snapshotId: string): Promise<void> {
+    const backup = embeddedSnapshots.get(this.snapshotKey(snapshotId));
+    if (!backup) {
+      throw new Error(`Snapshot ${snapshotId} is not available in this worker (embedded databases are per-process)`);
+    }
+    backup.restore();
+  }
+
+  async dropSnapshot(snapshotId: string): Promise<void> {
+    embeddedSnapshots.delete(this.snapshotKey(snapshotId));
   }
 
   async close(): Promise<void> {
-    this.connected = false;
-    console.log('[DB] Connection closed');
+    if (this.transactionBackup) {
+      await this.rollbackTransaction();
+    }
+    
+    await super.close();
+  }
+
+  private snapshotKey(snapshotId: string): string {
+    return `${this.config.database}:${snapshotId}`;
+  }
+}
+
+export function createDatabaseConnection(config: DatabaseConfig): DatabaseConnection {
+  switch (config.driver) {
+    case 'embedded':
+      return new EmbeddedPostgresConnection(config);
+    case 'postgres':
+      return new PostgresConnection(config);
+    default:
+      throw new Error(`Unsupported database driver: ${config.driver}`);
   }
 }
 
+// Tables captured by snapshots, parents before children so restores satisfy foreign keys
+const SNAPSHOT_TABLES = ['users', 'documents', 'feature_files', 'ingestions'];
+
 export class DatabaseHelper {
   private config: DatabaseConfig;
   private connection: DatabaseConnection;
+  private snapshotRegistry: DatabaseSnapshotRegistry;
   private isConnected = false;
 
-  constructor(config: DatabaseConfig) {
+  constructor(config: DatabaseConfig, snapshotRegistry: DatabaseSnapshotRegistry = databaseSnapshotRegistry) {
     this.config = config;
-    this.connection = new MockDatabaseConnection(); // Replace with actual client
+    this.connection = createDatabaseConnection(config);
+    this.snapshotRegistry = snapshotRegistry;
   }
 
   /**
@@ -94,9 +374,13 @@ export class DatabaseHelper {
     if (this.isConnected) return;
     
     try {
-      await (this.connection as any).connect();
+      await this.connection.connect();
       this.isConnected = true;
-      console.log(`[DB] Connected to ${this.config.host}:${this.config.port}/${this.config.database}`);
+      
+      const target = this.config.driver === 'embedded'
+        ? `embedded database ${this.config.database}`
+        : `${this.config.host}:${this.config.port}/${this.config.database}`;
+      console.log(`[DB] Connected to ${target}`);
     } catch (error) {
       throw new Error(`Failed to connect to database: ${error}`);
     }
@@ -137,6 +421,7 @@ export class DatabaseHelper {
     const sql = `
       INSERT INTO documents (name, type, content, size, status, created_at, updated_at) 
       VALUES (?, ?, ?, ?, ?, NOW(), NOW())
+      RETURNING id
     `;
     
     const result = await this.connection.execute(sql, [
@@ -209,8 +494,8 @@ export class DatabaseHelper {
     const params: any[] = [];
     
     if (olderThanDays) {
-      sql += ' AND created_at < DATE_SUB(NOW(), INTERVAL ? DAY)';
-      params.push(olderThanDays);
+      sql += ' AND created_at < ?';
+      params.push(this.daysAgo(olderThanDays));
     }
     
     const result = await this.connection.execute(sql, params);
@@ -229,6 +514,7 @@ export class DatabaseHelper {
     const sql = `
       INSERT INTO feature_files (title, content, category, author, created_at, updated_at) 
       VALUES (?, ?, ?, ?, NOW(), NOW())
+      RETURNING id
     `;
     
     const result = await this.connection.execute(sql, [
@@ -324,8 +610,8 @@ export class DatabaseHelper {
     }
     
     if (olderThanDays) {
-      sql += ' AND created_at < DATE_SUB(NOW(), INTERVAL ? DAY)';
-      params.push(olderThanDays);
+      sql += ' AND created_at < ?';
+      params.push(this.daysAgo(olderThanDays));
     }
     
     const result = await this.connection.execute(sql, params);
@@ -344,6 +630,7 @@ export class DatabaseHelper {
     const sql = `
       INSERT INTO users (username, email, password_hash, role, created_at, updated_at) 
       VALUES (?, ?, ?, ?, NOW(), NOW())
+      RETURNING id
     `;
     
     const result = await this.connection.execute(sql, [
@@ -386,6 +673,7 @@ export class DatabaseHelper {
     const sql = `
       INSERT INTO ingestions (document_id, status, metadata, created_at, updated_at) 
       VALUES (?, ?, ?, NOW(), NOW())
+      RETURNING id
     `;
     
     const result = await this.connection.execute(sql, [
@@ -422,13 +710,15 @@ export class DatabaseHelper {
    * Database maintenance
    */
   async getTables(): Promise<string[]> {
-    const results = await this.connection.query('SHOW TABLES');
-    return results.map(row => Object.values(row)[0] as string);
+    const results = await this.connection.query(
+      "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public' ORDER BY table_name"
+    );
+    return results.map(row => row.table_name as string);
   }
 
   async getTableRowCount(tableName: string): Promise<number> {
     const results = await this.connection.query(`SELECT COUNT(*) as count FROM ${tableName}`);
-    return results[0].count;
+    return Number(results[0].count);
   }
 
   async truncateTable(tableName: string): Promise<void> {
@@ -438,11 +728,14 @@ export class DatabaseHelper {
   async cleanupAllTestData(): Promise<void> {
     const testTables = ['documents', 'feature_files', 'ingestions'];
     
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    
     await this.beginTransaction();
     
     try {
       for (const table of testTables) {
-        await this.connection.execute(`DELETE FROM ${table} WHERE created_at >= CURDATE()`);
+        await this.connection.execute(`DELETE FROM ${table} WHERE created_at >= ?`, [startOfToday]);
       }
       
       await this.commitTransaction();
@@ -465,7 +758,7 @@ export class DatabaseHelper {
   }
 
   async getDatabaseVersion(): Promise<string> {
-    const results = await this.connection.query('SELECT VERSION() as version');
+    const results = await this.connection.query('SELECT version() AS version');
     return results[0].version;
   }
 
@@ -473,12 +766,14 @@ export class DatabaseHelper {
     host: string;
     port: number;
     database: string;
+    driver: string;
     connected: boolean;
   }> {
     return {
       host: this.config.host,
       port: this.config.port,
       database: this.config.database,
+      driver: this.config.driver,
       connected: this.isConnected
     };
   }
@@ -486,25 +781,67 @@ export class DatabaseHelper {
   /**
    * Backup and restore utilities
    */
-  async createTestSnapshot(): Promise<string> {
-    const snapshotId = `test_snapshot_${Date.now()}`;
+  async createTestSnapshot(tables: string[] = SNAPSHOT_TABLES): Promise<string> {
+    const snapshotId = `test_snapshot_${Date.now()}_${randomBytes(3).toString('hex')}`;
     
-    // In a real implementation, you would create a database snapshot
-    // This is a placeholder for the concept
-    console.log(`[DB] Created test snapshot: ${snapshotId}`);
+    await this.connection.createSnapshot(snapshotId, tables);
+    await this.snapshotRegistry.register({
+      id: snapshotId,
+      database: this.config.database,
+      driver: this.config.driver,
+      tables,
+      createdAt: new Date().toISOString(),
+      pid: process.pid
+    });
+    
+    console.log(`[DB] Created test snapshot: ${snapshotId} (${tables.join(', ')})`);
     
     return snapshotId;
   }
 
   async restoreFromSnapshot(snapshotId: string): Promise<void> {
-    // In a real implementation, you would restore from a database snapshot
+    const snapshot = await this.snapshotRegistry.get(snapshotId);
+    if (!snapshot) {
+      throw new Error(`Unknown database snapshot: ${snapshotId}`);
+    }
+    if (snapshot.driver === 'embedded' && snapshot.pid !== process.pid) {
+      throw new Error(`Snapshot ${snapshotId} belongs to process ${snapshot.pid}; embedded snapshots can only be restored by the worker that created them`);
+    }
+    
+    await this.connection.restoreSnapshot(snapshotId, snapshot.tables);
     console.log(`[DB] Restored from snapshot: ${snapshotId}`);
   }
 
   async deleteSnapshot(snapshotId: string): Promise<void> {
+    const snapshot = await this.snapshotRegistry.get(snapshotId);
+    if (!snapshot) return;
+    
+    await this.connection.dropSnapshot(snapshotId, snapshot.tables);
+    await this.snapshotRegistry.unregister(snapshotId);
     console.log(`[DB] Deleted snapshot: ${snapshotId}`);
   }
 
+  async listSnapshots(): Promise<SnapshotRecord[]> {
+    return this.snapshotRegistry.list(this.config.database);
+  }
+
+  /**
+   * Drops every snapshot registered against this database, including ones left behind by crashed workers
+   */
+  async cleanupSnapshots(): Promise<number> {
+    const snapshots = (await this.listSnapshots()).filter(s => s.driver === this.config.driver);
+    
+    for (const snapshot of snapshots) {
+      // Embedded snapshots died with their worker; only the registry entry is left
+      if (snapshot.driver !== 'embedded') {
+        await this.connection.dropSnapshot(snapshot.id, snapshot.tables);
+      }
+      await this.snapshotRegistry.unregister(snapshot.id);
+    }
+    
+    return snapshots.length;
+  }
+
   /**
    * Query helpers
    */
@@ -600,6 +937,10 @@ export class DatabaseHelper {
       }
     }
   }
+
+  private daysAgo(days: number): Date {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
 }
 
 export default DatabaseHelper;
\ No newline at end of file
@@ -0,0 +1,75 @@
+/**
+ * Database Snapshot Registry
+ *
+ * File-backed registry of database snapshots. Each snapshot is stored as its own
+ * JSON file so that Playwright workers can register snapshots concurrently and
+ * global teardown can find every snapshot created during the run.
+ *
+ * Postgres snapshots are tables in the database, so any worker can restore
+ * them. Embedded (pg-mem) snapshots live in the memory of the worker that
+ * created them; only that process, recorded as `pid`, can restore them.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DatabaseDriver } from '../base/config/EnvironmentConfig';
+
+export interface SnapshotRecord {
+  id: string;
+  database: string;
+  driver: DatabaseDriver;
+  tables: string[];
+  createdAt: string;
+  pid: number;
+}
+
+export class DatabaseSnapshotRegistry {
+  constructor(
+    private readonly registryDir = process.env.DB_SNAPSHOT_DIR || 'test-results/db-snapshots'
+  ) {}
+
+  async register(record: SnapshotRecord): Promise<void> {
+    await fs.mkdir(this.registryDir, { recursive: true });
+    await fs.writeFile(this.getRecordPath(record.id), JSON.stringify(record, null, 2), 'utf-8');
+  }
+
+  async get(snapshotId: string): Promise<SnapshotRecord | null> {
+    try {
+      const content = await fs.readFile(this.getRecordPath(snapshotId), 'utf-8');
+      return JSON.parse(content) as SnapshotRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  async list(database?: string): Promise<SnapshotRecord[]> {
+    let files: string[];
+
+    try {
+      files = await fs.readdir(this.registryDir);
+    } catch {
+      return [];
+    }
+
+    const records: SnapshotRecord[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const record = await this.get(path.basename(file, '.json'));
+      if (record && (!database || record.database === database)) {
+        records.push(record);
+      }
+    }
+
+    return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async unregister(snapshotId: string): Promise<void> {
+    await fs.rm(this.getRecordPath(snapshotId), { force: true });
+  }
+
+  private getRecordPath(snapshotId: string): string {
+    return path.join(this.registryDir, `${snapshotId}.json`);
+  }
+}
+
+export const databaseSnapshotRegistry = new DatabaseSnapshotRegistry();
+export default databaseSnapshotRegistry;
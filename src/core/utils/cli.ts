@@ -0,0 +1,27 @@
+/**
+ * CLI Helpers
+ *
+ * Argument parsing shared by the npm script CLIs
+ */
+
+/**
+ * `--key value` pairs; a flag not followed by a value is true and arguments
+ * without a leading `--` are ignored
+ */
+export function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) {
+      continue;
+    }
+    const key = argv[i].slice(2);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = value;
+      i++;
+    }
+  }
+  return args;
+}
@@ -7,6 +7,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { APIRequestContext } from '@playwright/test';
+import { NamespaceManager } from './TestDataIsolation';
 
 export interface CleanupOptions {
   preserveSeededData?: boolean;
@@ -488,6 +489,28 @@ export class TestDataCleaner {
     };
   }
 
+  /**
+   * Clean every entity registered in the namespace registry for a run
+   * Covers entities from all workers, including ones that died before their own cleanup
+   */
+  async cleanRegistered(runId: string): Promise<{
+    database: CleanupResult;
+    vectors?: { collectionsCleared: string[]; vectorsDeleted: number };
+  }> {
+    for (const [entityType, ids] of NamespaceManager.getRunEntities(runId)) {
+      this.track(entityType, ids);
+    }
+
+    const result = await this.clean();
+
+    // Keep the registry when something failed so a later run can retry
+    if (!result.database.errors?.length) {
+      NamespaceManager.clearRun(runId);
+    }
+
+    return result;
+  }
+
   /**
    * Disconnect cleaners
    */
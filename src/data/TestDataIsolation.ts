@@ -6,7 +6,12 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { TestInfo } from '@playwright/test';
+import { TestInfo, Fixtures, PlaywrightTestArgs, PlaywrightTestOptions } from '@playwright/test';
+import * as fs from 'fs/promises';
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync } from 'fs';
+import * as path from 'path';
+import { WebappAPI } from '../applications/webapp/api/webapp/WebappAPI';
+import { AdminAPI } from '../applications/adminapp/api/adminapp/AdminAPI';
 
 export interface IsolationContext {
   testId: string;
@@ -24,7 +29,8 @@ export interface IsolatedData<T> {
 }
 
 export class TestDataIsolation {
-  private static runId = uuidv4();
+  // Shared by every worker when global setup has assigned TEST_RUN_ID
+  private static runId = process.env.TEST_RUN_ID || uuidv4();
   private static contexts = new Map<string, IsolationContext>();
 
   /**
@@ -53,6 +59,13 @@ export class TestDataIsolation {
     return context;
   }
 
+  /**
+   * Get the run ID shared by all contexts created in this run
+   */
+  static getRunId(): string {
+    return this.runId;
+  }
+
   /**
    * Get existing context
    */
@@ -88,11 +101,13 @@ export class TestDataIsolation {
    * Generate namespace for data isolation
    */
   private static generateNamespace(testInfo: TestInfo): string {
-    const timestamp = Date.now().toString(36);
-    const worker = testInfo.workerIndex.toString(36);
+    // Unique per run even when TEST_SEED repeats, so a rerun never meets the
+    // data an earlier run left behind; only the generated values follow the seed
+    const run = this.hashString(this.runId);
+    const test = this.hashString([testInfo.project.name, ...testInfo.titlePath].join('::'));
     const retry = testInfo.retry.toString(36);
     
-    return `test_${timestamp}_${worker}_${retry}`;
+    return `test_${run}_${test}_${retry}`;
   }
 
   /**
@@ -305,19 +320,47 @@ export abstract class IsolatedBuilder<T> {
 
 /**
  * Test data namespace manager
+ * 
+ * Registrations are kept in memory for the current worker and appended to a
+ * per-namespace NDJSON file under the run's registry directory, so global
+ * teardown can find entities from every worker, including ones that crashed.
  */
+export interface RegisteredEntity {
+  runId: string;
+  namespace: string;
+  entityType: string;
+  entityId: string;
+  registeredAt: string;
+  pid: number;
+}
+
 export class NamespaceManager {
   private static namespaces = new Map<string, Set<string>>();
+  private static registryDir = process.env.NAMESPACE_REGISTRY_DIR || 'test-results/namespace-registry';
 
   /**
    * Register entity in namespace
    */
-  static register(namespace: string, entityType: string, entityId: string): void {
+  static register(
+    namespace: string,
+    entityType: string,
+    entityId: string,
+    runId: string = TestDataIsolation.getRunId()
+  ): void {
     const key = `${namespace}:${entityType}`;
     if (!this.namespaces.has(key)) {
       this.namespaces.set(key, new Set());
     }
     this.namespaces.get(key)!.add(entityId);
+
+    this.persist({
+      runId,
+      namespace,
+      entityType,
+      entityId,
+      registeredAt: new Date().toISOString(),
+      pid: process.pid
+    });
   }
 
   /**
@@ -345,64 +388,278 @@ export class NamespaceManager {
     return result;
   }
 
+  /**
+   * Load every registration persisted for a run, across all workers
+   */
+  static loadRun(runId: string): RegisteredEntity[] {
+    const runDir = this.getRunDir(runId);
+    if (!existsSync(runDir)) {
+      return [];
+    }
+
+    const entities: RegisteredEntity[] = [];
+    for (const file of readdirSync(runDir).filter(f => f.endsWith('.ndjson'))) {
+      const lines = readFileSync(path.join(runDir, file), 'utf-8').split('\n');
+      
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          entities.push(JSON.parse(line));
+        } catch {
+          // A worker killed mid-write can leave a truncated last line
+        }
+      }
+    }
+
+    return entities;
+  }
+
+  /**
+   * Get registered entity IDs for a run, grouped by entity type
+   */
+  static getRunEntities(runId: string): Map<string, string[]> {
+    const grouped = new Map<string, Set<string>>();
+
+    for (const entity of this.loadRun(runId)) {
+      if (!grouped.has(entity.entityType)) {
+        grouped.set(entity.entityType, new Set());
+      }
+      grouped.get(entity.entityType)!.add(entity.entityId);
+    }
+
+    return new Map(Array.from(grouped, ([entityType, ids]) => [entityType, Array.from(ids)]));
+  }
+
+  /**
+   * List run IDs that still have registered entities
+   */
+  static listRuns(): string[] {
+    if (!existsSync(this.registryDir)) {
+      return [];
+    }
+    return readdirSync(this.registryDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name);
+  }
+
   /**
    * Clear namespace
    */
-  static clearNamespace(namespace: string): void {
+  static clearNamespace(namespace: string, runId: string = TestDataIsolation.getRunId()): void {
     for (const key of this.namespaces.keys()) {
       if (key.startsWith(`${namespace}:`)) {
         this.namespaces.delete(key);
       }
     }
+    rmSync(this.getNamespaceFile(runId, namespace), { force: true });
   }
 
   /**
-   * Clear all namespaces
+   * Remove a run's persisted registry once its entities are cleaned up
+   */
+  static clearRun(runId: string): void {
+    rmSync(this.getRunDir(runId), { recursive: true, force: true });
+  }
+
+  /**
+   * Clear all namespaces held by this worker (the persisted registry is kept)
    */
   static clearAll(): void {
     this.namespaces.clear();
   }
+
+  private static persist(entity: RegisteredEntity): void {
+    try {
+      mkdirSync(this.getRunDir(entity.runId), { recursive: true });
+      appendFileSync(
+        this.getNamespaceFile(entity.runId, entity.namespace),
+        JSON.stringify(entity) + '\n',
+        'utf-8'
+      );
+    } catch (error) {
+      console.warn(`Failed to persist namespace registration: ${error}`);
+    }
+  }
+
+  private static getRunDir(runId: string): string {
+    return path.join(this.registryDir, runId);
+  }
+
+  private static getNamespaceFile(runId: string, namespace: string): string {
+    return path.join(this.getRunDir(runId), `${namespace.replace(/[^a-zA-Z0-9_-]/g, '_')}.ndjson`);
+  }
 }
 
 /**
  * Test transaction manager for rollback capability
+ * 
+ * Runs operations as a saga: every completed operation records its compensation,
+ * and on failure (or at teardown) compensations run in reverse order.
+ * Each run is written to a JSON journal under test-results/transactions.
  */
+export type TransactionOperationStatus = 'completed' | 'failed' | 'timed_out';
+
+export interface TransactionJournalEntry {
+  name: string;
+  phase: 'execute' | 'compensate';
+  status: TransactionOperationStatus;
+  startedAt: string;
+  duration: number;
+  error?: string;
+}
+
+export interface TransactionJournal {
+  id: string;
+  status: 'pending' | 'committed' | 'compensated' | 'compensation_failed';
+  startedAt: string;
+  finishedAt?: string;
+  entries: TransactionJournalEntry[];
+}
+
+export interface TransactionOptions {
+  id?: string;
+  timeout?: number;
+  journalDir?: string;
+}
+
+interface TransactionOperation<T = any> {
+  name: string;
+  operation: () => Promise<T>;
+  rollback: (result: T) => Promise<void>;
+  timeout?: number;
+}
+
+interface ExecutedOperation {
+  name: string;
+  compensate: () => Promise<void>;
+  timeout?: number;
+}
+
 export class TestTransaction {
-  private operations: Array<() => Promise<void>> = [];
-  private rollbacks: Array<() => Promise<void>> = [];
+  private operations: TransactionOperation[] = [];
+  private executed: ExecutedOperation[] = [];
+  private journal: TransactionJournal;
+  private readonly defaultTimeout: number;
+  private readonly journalDir: string;
+
+  constructor(options: TransactionOptions = {}) {
+    this.defaultTimeout = options.timeout ?? 30000;
+    this.journalDir = options.journalDir || 'test-results/transactions';
+    this.journal = {
+      id: options.id || `txn_${Date.now().toString(36)}_${uuidv4().slice(0, 8)}`,
+      status: 'pending',
+      startedAt: new Date().toISOString(),
+      entries: []
+    };
+  }
 
   /**
    * Add operation with rollback
+   * The rollback receives whatever the operation resolved with (e.g. the created entity)
    */
-  addOperation(
-    operation: () => Promise<void>,
-    rollback: () => Promise<void>
+  addOperation<T>(
+    operation: () => Promise<T>,
+    rollback: (result: T) => Promise<void>,
+    options: { name?: string; timeout?: number } = {}
   ): void {
-    this.operations.push(operation);
-    this.rollbacks.push(rollback);
+    this.operations.push({
+      name: options.name || `operation_${this.operations.length + 1}`,
+      operation,
+      rollback,
+      timeout: options.timeout
+    });
   }
 
   /**
-   * Execute all operations
+   * Execute all queued operations, compensating completed ones if any fails
    */
   async execute(): Promise<void> {
-    const executedCount = 0;
-    
+    const queued = this.operations;
+    this.operations = [];
+
     try {
-      for (let i = 0; i < this.operations.length; i++) {
-        await this.operations[i]();
+      for (const op of queued) {
+        await this.run(op.name, op.operation, op.rollback, { timeout: op.timeout });
       }
+      this.journal.status = 'committed';
     } catch (error) {
-      // Rollback in reverse order
-      for (let i = executedCount - 1; i >= 0; i--) {
-        try {
-          await this.rollbacks[i]();
-        } catch (rollbackError) {
-          console.error(`Rollback failed at index ${i}:`, rollbackError);
-        }
-      }
+      await this.compensate();
       throw error;
+    } finally {
+      await this.writeJournal();
+    }
+  }
+
+  /**
+   * Execute a single operation immediately and register its compensation
+   */
+  async run<T>(
+    name: string,
+    operation: () => Promise<T>,
+    rollback: (result: T) => Promise<void>,
+    options: { timeout?: number } = {}
+  ): Promise<T> {
+    const timeout = options.timeout ?? this.defaultTimeout;
+    const result = await this.invoke(name, 'execute', operation, timeout);
+
+    this.executed.push({
+      name,
+      compensate: () => rollback(result),
+      timeout: options.timeout
+    });
+
+    return result;
+  }
+
+  /**
+   * Run compensations for every executed operation in reverse order
+   * Failed compensations are journaled and do not stop the remaining ones
+   */
+  async compensate(): Promise<void> {
+    let failures = 0;
+
+    while (this.executed.length > 0) {
+      const op = this.executed.pop()!;
+      try {
+        await this.invoke(op.name, 'compensate', op.compensate, op.timeout ?? this.defaultTimeout);
+      } catch (error) {
+        failures++;
+        console.error(`Rollback failed for ${op.name}:`, error);
+      }
+    }
+
+    this.journal.status = failures > 0 ? 'compensation_failed' : 'compensated';
+  }
+
+  /**
+   * Get journal of executed and compensated operations
+   */
+  getJournal(): TransactionJournal {
+    return { ...this.journal, entries: [...this.journal.entries] };
+  }
+
+  /**
+   * Get number of operations awaiting compensation
+   */
+  getExecutedCount(): number {
+    return this.executed.length;
+  }
+
+  /**
+   * Persist the journal to disk
+   */
+  async writeJournal(): Promise<string> {
+    this.journal.finishedAt = new Date().toISOString();
+
+    const filePath = path.join(this.journalDir, `${this.journal.id}.json`);
+    try {
+      await fs.mkdir(this.journalDir, { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(this.journal, null, 2), 'utf-8');
+    } catch (error) {
+      console.warn(`Failed to write transaction journal: ${error}`);
     }
+
+    return filePath;
   }
 
   /**
@@ -410,6 +667,101 @@ export class TestTransaction {
    */
   clear(): void {
     this.operations = [];
-    this.rollbacks = [];
+    this.executed = [];
+  }
+
+  /**
+   * Invoke an operation raced against its timeout and journal the outcome
+   * A timed-out operation may still finish later, so it is never compensated
+   */
+  private async invoke<T>(
+    name: string,
+    phase: TransactionJournalEntry['phase'],
+    fn: () => Promise<T>,
+    timeout: number
+  ): Promise<T> {
+    const startedAt = new Date();
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        reject(new Error(`Operation "${name}" (${phase}) timed out after ${timeout}ms`));
+      }, timeout);
+    });
+
+    try {
+      const result = await Promise.race([fn(), deadline]);
+      this.record(name, phase, 'completed', startedAt);
+      return result;
+    } catch (error) {
+      this.record(name, phase, timedOut ? 'timed_out' : 'failed', startedAt, error);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private record(
+    name: string,
+    phase: TransactionJournalEntry['phase'],
+    status: TransactionOperationStatus,
+    startedAt: Date,
+    error?: unknown
+  ): void {
+    this.journal.entries.push({
+      name,
+      phase,
+      status,
+      startedAt: startedAt.toISOString(),
+      duration: Date.now() - startedAt.getTime(),
+      error: error ? (error instanceof Error ? error.message : String(error)) : undefined
+    });
+  }
+}
+
+/**
+ * Test transaction fixtures for Playwright API tests
+ * 
+ * Usage:
+ *   const project = await testTransaction.run('create project',
+ *     () => webappAPI.createProject({ name: 'Demo' }),
+ *     created => webappAPI.deleteProject(created.id));
+ */
+export interface TestTransactionFixtures {
+  webappAPI: WebappAPI;
+  adminAPI: AdminAPI;
+  testTransaction: TestTransaction;
+}
+
+export const testTransactionFixtures: Fixtures<
+  TestTransactionFixtures,
+  {},
+  PlaywrightTestArgs & PlaywrightTestOptions
+> = {
+  webappAPI: async ({ request }, use) => {
+    await use(new WebappAPI(request));
+  },
+
+  adminAPI: async ({ request }, use) => {
+    await use(new AdminAPI(request));
+  },
+
+  testTransaction: async ({}, use, testInfo) => {
+    const transaction = new TestTransaction({
+      id: `${testInfo.testId}_retry${testInfo.retry}`
+    });
+
+    await use(transaction);
+
+    // Undo everything the test registered, then attach the journal; attached
+    // from memory, as writing the journal file may have failed
+    await transaction.compensate();
+    await transaction.writeJournal();
+    await testInfo.attach('transaction-journal', {
+      body: JSON.stringify(transaction.getJournal(), null, 2),
+      contentType: 'application/json'
+    });
   }
-}
\ No newline at end of file
+};
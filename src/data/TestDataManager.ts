@@ -6,10 +6,11 @@
  */
 
 import { TestInfo, APIRequestContext } from '@playwright/test';
+import { createHash } from 'crypto';
 import { PrismaClient } from '@prisma/client';
 import { TestDataSeeder, SeedOptions, SeedProfiles } from './TestDataSeeder';
 import { TestDataCleaner } from './DatabaseCleaner';
-import { TestDataIsolation, IsolationContext } from './TestDataIsolation';
+import { TestDataIsolation, IsolationContext, NamespaceManager } from './TestDataIsolation';
 import { TestDataFactory } from '../api/builders/TestDataFactory';
 
 export interface TestDataConfig {
@@ -110,6 +111,13 @@ export class TestDataManager {
    */
   track(entityType: string, ids: string | string[]): void {
     this.cleaner.track(entityType, ids);
+
+    // Persist so teardown can still clean up if this worker dies
+    if (this.context) {
+      for (const id of Array.isArray(ids) ? ids : [ids]) {
+        NamespaceManager.register(this.context.namespace, entityType, id, this.context.runId);
+      }
+    }
   }
 
   /**
@@ -143,10 +151,13 @@ export class TestDataManager {
   /**
    * Clean tracked data
    */
-  async clean(): Promise<void> {
-    if (this.config.autoCleanup) {
-      await this.cleaner.clean();
+  async clean(): Promise<boolean> {
+    if (!this.config.autoCleanup) {
+      return false;
     }
+
+    const result = await this.cleaner.clean();
+    return !result.database.errors?.length;
   }
 
   /**
@@ -168,10 +179,14 @@ export class TestDataManager {
    */
   async cleanup(): Promise<void> {
     // Clean tracked data
-    await this.clean();
+    const cleaned = await this.clean();
 
     // Clear isolation context
     if (this.context) {
+      // Leave failed cleanups in the registry for global teardown to retry
+      if (cleaned) {
+        NamespaceManager.clearNamespace(this.context.namespace, this.context.runId);
+      }
       TestDataIsolation.cleanup(this.context.runId);
       this.context = undefined;
     }
@@ -187,22 +202,29 @@ export class TestDataManager {
 
   /**
    * Create snapshot of current data
+   * Captures every row's identity and content hash so diffs can name the rows that changed
    */
   async createSnapshot(name: string): Promise<DataSnapshot> {
     const prisma = this.config.prisma || new PrismaClient();
     
-    const snapshot: DataSnapshot = {
+    const rows: DataSnapshot['rows'] = {
+      users: hashRows(await prisma.user.findMany()),
+      projects: hashRows(await prisma.project.findMany()),
+      documents: hashRows(await prisma.document.findMany()),
+      features: hashRows(await prisma.featureFile.findMany()),
+      vectors: await this.hashVectors()
+    };
+
+    const data = Object.fromEntries(
+      Object.entries(rows).map(([entity, hashes]) => [entity, Object.keys(hashes).length])
+    ) as DataSnapshot['data'];
+
+    return {
       name,
       timestamp: new Date(),
-      data: {
-        users: await prisma.user.count(),
-        projects: await prisma.project.count(),
-        documents: await prisma.document.count(),
-        features: await prisma.featureFile.count()
-      }
+      data,
+      rows
     };
-
-    return snapshot;
   }
 
   /**
@@ -214,21 +236,120 @@ export class TestDataManager {
       changes: {}
     };
 
-    for (const [key, beforeCount] of Object.entries(before.data)) {
-      const afterCount = after.data[key as keyof typeof after.data];
-      const change = afterCount - beforeCount;
-      
-      if (change !== 0) {
-        diff.changes[key] = {
-          before: beforeCount,
-          after: afterCount,
-          change
+    for (const entity of SNAPSHOT_ENTITIES) {
+      const beforeRows = before.rows[entity] || {};
+      const afterRows = after.rows[entity] || {};
+
+      const added = Object.keys(afterRows).filter(id => !(id in beforeRows));
+      const removed = Object.keys(beforeRows).filter(id => !(id in afterRows));
+      const modified = Object.keys(afterRows).filter(
+        id => id in beforeRows && beforeRows[id] !== afterRows[id]
+      );
+
+      if (added.length || removed.length || modified.length) {
+        diff.changes[entity] = {
+          before: before.data[entity],
+          after: after.data[entity],
+          change: after.data[entity] - before.data[entity],
+          added,
+          removed,
+          modified
         };
       }
     }
 
     return diff;
   }
+
+  /**
+   * Assert a diff touched exactly the expected rows
+   * Anything else changed in between (e.g. by a sibling test) is reported as a leak
+   */
+  assertSnapshotChanges(diff: SnapshotDiff, expected: Partial<Record<SnapshotEntity, string[]>>): void {
+    const problems: string[] = [];
+
+    for (const entity of SNAPSHOT_ENTITIES) {
+      const expectedIds = new Set(expected[entity] || []);
+      const change = diff.changes[entity];
+      const touched = change ? [...change.added, ...change.removed, ...change.modified] : [];
+
+      const unexpected = touched.filter(id => !expectedIds.has(id));
+      const untouched = [...expectedIds].filter(id => !touched.includes(id));
+
+      if (unexpected.length) {
+        problems.push(`${entity}: unexpected changes to ${unexpected.join(', ')}`);
+      }
+      if (untouched.length) {
+        problems.push(`${entity}: expected changes to ${untouched.join(', ')} not found`);
+      }
+    }
+
+    if (problems.length) {
+      throw new Error(`Snapshot ${diff.name} does not match expected changes:\n  ${problems.join('\n  ')}`);
+    }
+  }
+
+  /**
+   * Hash vectors from the test collections, keyed by collection and vector id
+   */
+  private async hashVectors(): Promise<Record<string, string>> {
+    const hashes: Record<string, string> = {};
+    if (!this.config.chromaUrl || !this.config.apiRequest) {
+      return hashes;
+    }
+
+    for (const collection of VECTOR_COLLECTIONS) {
+      try {
+        const response = await this.config.apiRequest.post(
+          `${this.config.chromaUrl}/api/v1/collections/${collection}/get`,
+          { data: { include: ['documents', 'metadatas'] } }
+        );
+        const result = await response.json();
+        const ids: string[] = result.ids || [];
+
+        ids.forEach((id, index) => {
+          hashes[`${collection}:${id}`] = hashRow({
+            document: result.documents?.[index],
+            metadata: result.metadatas?.[index]
+          });
+        });
+      } catch (error) {
+        console.warn(`Failed to snapshot vectors in collection ${collection}:`, error);
+      }
+    }
+
+    return hashes;
+  }
+}
+
+const SNAPSHOT_ENTITIES: SnapshotEntity[] = ['users', 'projects', 'documents', 'features', 'vectors'];
+const VECTOR_COLLECTIONS = ['documents', 'features'];
+
+/**
+ * Serialize with sorted keys so equal rows always hash the same
+ */
+function stableStringify(value: any): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashRow(row: any): string {
+  return createHash('sha256').update(stableStringify(row)).digest('hex');
+}
+
+function hashRows(rows: Array<{ id: string }>): Record<string, string> {
+  return Object.fromEntries(rows.map(row => [String(row.id), hashRow(row)]));
 }
 
 /**
@@ -282,24 +403,25 @@ export class TestDataHooks {
 /**
  * Types
  */
+export type SnapshotEntity = 'users' | 'projects' | 'documents' | 'features' | 'vectors';
+
 export interface DataSnapshot {
   name: string;
   timestamp: Date;
-  data: {
-    users: number;
-    projects: number;
-    documents: number;
-    features: number;
-  };
+  data: Record<SnapshotEntity, number>;
+  rows: Record<SnapshotEntity, Record<string, string>>;
 }
 
 export interface SnapshotDiff {
   name: string;
-  changes: Record<string, {
+  changes: Partial<Record<SnapshotEntity, {
     before: number;
     after: number;
     change: number;
-  }>;
+    added: string[];
+    removed: string[];
+    modified: string[];
+  }>>;
 }
 
 /**
@@ -9,7 +9,7 @@
  * - AI generation workflows
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../src/core/base/fixtures/TestFixtures';
 import { HomePage } from '../../src/core/base/pages/HomePage';
 import { FeatureGeneratorPage, FeatureFile, ChatMessage } from '../../src/core/base/pages/FeatureGeneratorPage';
 import { testDataFactory } from '../../src/applications/shared/api/builders/TestDataFactory';
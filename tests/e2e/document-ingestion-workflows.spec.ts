@@ -5,7 +5,7 @@
  * Tests cover the complete flow from upload to semantic search availability
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../src/core/base/fixtures/TestFixtures';
 import { HomePage } from '../../src/core/base/pages/HomePage';
 import { DocumentHubPage, DocumentItem } from '../../src/core/base/pages/DocumentHubPage';
 import { testDataFactory } from '../../src/applications/shared/api/builders/TestDataFactory';
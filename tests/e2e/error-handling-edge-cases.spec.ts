@@ -12,7 +12,7 @@
  * - Timeout handling
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../src/core/base/fixtures/TestFixtures';
 import { HomePage } from '../../src/core/base/pages/HomePage';
 import { DocumentHubPage } from '../../src/core/base/pages/DocumentHubPage';
 import { FeatureGeneratorPage } from '../../src/core/base/pages/FeatureGeneratorPage';
@@ -10,7 +10,7 @@
  * - Visual consistency
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../src/core/base/fixtures/TestFixtures';
 import { HomePage } from '../../src/core/base/pages/HomePage';
 import { DocumentHubPage } from '../../src/core/base/pages/DocumentHubPage';
 import { FeatureGeneratorPage } from '../../src/core/base/pages/FeatureGeneratorPage';
@@ -10,7 +10,7 @@
  * - Multi-modal search (text and images)
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../src/core/base/fixtures/TestFixtures';
 import { HomePage } from '../../src/core/base/pages/HomePage';
 import { GlobalChatPage, QAChatMessage } from '../../src/core/base/pages/GlobalChatPage';
 import { DocumentHubPage } from '../../src/core/base/pages/DocumentHubPage';
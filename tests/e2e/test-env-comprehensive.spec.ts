@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../src/core/base/fixtures/TestFixtures';
 
 test.describe('Testoria Test Environment - Comprehensive E2E Tests', () => {
   const baseURL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3002';